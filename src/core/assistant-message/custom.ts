@@ -1,3 +1,3 @@
-export const customToolUseNames = ["find_relevant_files", "code_security_scan"]
+export const customToolUseNames = ["find_relevant_files", "code_security_scan", "semantic_search"]
 
-export const customToolParamNames = ["task"]
+export const customToolParamNames = ["task", "query", "limit"]
@@ -134,3 +134,8 @@ export interface CodeSecurityScanToolUse extends ToolUse {
 	name: "code_security_scan"
 	params: Partial<Record<ToolParamName, string>>
 }
+
+export interface SemanticSearchToolUse extends ToolUse {
+	name: "semantic_search"
+	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path" | "limit">>
+}
@@ -10,7 +10,8 @@ import * as path from "path"
 import * as vscode from "vscode"
 import { buildApiHandler } from "../../api"
 import { cleanupLegacyCheckpoints } from "../../integrations/checkpoints/CheckpointMigration"
-import { downloadTask } from "../../integrations/misc/export-markdown"
+import { downloadHaiStoryReport, downloadTask } from "../../integrations/misc/export-markdown"
+import { getChangedFiles, HaiStoryReport, HaiStoryReportRun } from "../../integrations/misc/hai-story-report"
 import { fetchOpenGraphData, isImageUrl } from "../../integrations/misc/link-preview"
 import { openFile, openImage } from "../../integrations/misc/open-file"
 import { selectImages } from "../../integrations/misc/process-images"
@@ -23,13 +24,13 @@ import { ApiProvider, ModelInfo } from "../../shared/api"
 import { findLast } from "../../shared/array"
 import { ChatContent } from "../../shared/ChatContent"
 import { ChatSettings } from "../../shared/ChatSettings"
-import { ExtensionMessage, ExtensionState, Invoke, Platform } from "../../shared/ExtensionMessage"
-import { HistoryItem } from "../../shared/HistoryItem"
+import { COMPLETION_RESULT_CHANGES_FLAG, ExtensionMessage, ExtensionState, Invoke, Platform } from "../../shared/ExtensionMessage"
+import { HistoryItem, HistoryItemExpert } from "../../shared/HistoryItem"
 import { McpDownloadResponse, McpMarketplaceCatalog, McpServer } from "../../shared/mcp"
 import { TelemetrySetting } from "../../shared/TelemetrySetting"
 import { ClineCheckpointRestore, WebviewMessage } from "../../shared/WebviewMessage"
 import { fileExistsAtPath } from "../../utils/fs"
-import { searchCommits } from "../../utils/git"
+import { commitFiles, getCurrentBranch, searchCommits, switchToBranch } from "../../utils/git"
 import { getTotalTasksSize } from "../../utils/storage"
 import { Task } from "../task"
 import { openMention } from "../mentions"
@@ -40,6 +41,7 @@ import {
 	getAllExtensionState,
 	getGlobalState,
 	getSecret,
+	getWorkspaceState,
 	resetExtensionState,
 	storeSecret,
 	updateApiConfiguration,
@@ -50,21 +52,75 @@ import {
 import { WebviewProvider } from "../webview"
 import { GlobalFileNames } from "../storage/disk"
 import HaiFileSystemWatcher from "../../integrations/workspace/HaiFileSystemWatcher"
+import HaiTaskFolderWatcher from "../../integrations/workspace/HaiTaskFolderWatcher"
 import { ExpertManager } from "../experts/ExpertManager"
-import { getWorkspaceID, getWorkspacePath } from "../../utils/path"
+import { expertArchiveExtension } from "../experts/ExpertArchive"
+import { detectWorkspaceTechnologies } from "../experts/WorkspaceTechnologies"
+import { readExpertVersion } from "../experts/ExpertVersions"
+import {
+	ExpertKnowledgeIndex,
+	expertDocumentExtensions,
+	expertDocumentsFolder,
+	listExpertDocuments,
+} from "../experts/ExpertKnowledge"
+import { getWorkspaceFolderPaths, getWorkspaceID, getWorkspacePath } from "../../utils/path"
 import { FileOperations } from "../../utils/constants"
-import { ensureFaissPlatformDeps } from "../../utils/faiss"
-import { HaiBuildIndexProgress } from "../../shared/customApi"
+import {
+	CodeIndexSearchResult,
+	ExpertKnowledgePassage,
+	ExpertProfile,
+	HaiAcceptanceCheck,
+	HaiBuildContextOptions,
+	HaiBuildIndexProgress,
+	HaiStoryRun,
+	HaiTaskReference,
+	HaiTaskSourceError,
+	HaiTaskStatus,
+	HaiTaskStatusMap,
+} from "../../shared/customApi"
+import {
+	findHaiTaskStatusKeyByHistoryTaskId,
+	getHaiTaskId,
+	getHaiTaskStatus,
+	getHaiTaskStatusKey,
+	parseHaiTaskStatusKey,
+	setHaiTaskAcceptanceChecks,
+	setHaiTaskStatus,
+	setHaiTaskStatusByKey,
+} from "../../shared/haiTaskStatus"
+import { diffHaiStories } from "../../shared/haiTaskChanges"
+import { getIncompleteHaiTaskDependencies } from "../../shared/haiTaskDependencies"
+import { getHaiTaskBranchName, getHaiTaskCommitMessage, getHaiTaskTicketIds } from "../../shared/haiTaskGit"
+import {
+	completeHaiStoryRunTask,
+	createHaiStoryRun,
+	getHaiStoryRunTaskPrompt,
+	isCurrentHaiStoryRunTask,
+	pauseHaiStoryRun,
+	setHaiStoryRunHistoryTaskId,
+} from "../../shared/haiStoryRun"
 import { getFormattedDateTime } from "../../utils/date"
 import { validateApiConfiguration, validateEmbeddingConfiguration } from "../../shared/validate"
-import { IHaiStory } from "../../../webview-ui/src/interfaces/hai-task.interface"
+import { getEmbeddingModelFingerprint } from "../../shared/embeddings"
+import { IHaiStory, IHaiTask } from "../../../webview-ui/src/interfaces/hai-task.interface"
 import { CodeContextErrorMessage, CodeIndexStartMessage } from "../webview/customClientProvider"
 import { CodeContextAdditionAgent } from "../../integrations/code-prep/CodeContextAddition"
 import { ICodeIndexProgress } from "../../integrations/code-prep/type"
 import { VectorizeCodeAgent } from "../../integrations/code-prep/VectorizeCodeAgent"
-import { ExpertData } from "../../../webview-ui/src/types/experts"
+import { groupFilesByWorkspaceFolder } from "../../integrations/code-prep/helper"
+import { CodeIndexInspector } from "../../integrations/code-prep/CodeIndexInspector"
+import {
+	CodeIndexSnapshotManifest,
+	exportCodeIndexSnapshot,
+	importCodeIndexSnapshot,
+} from "../../integrations/code-prep/CodeIndexSnapshot"
+import { ExpertData, ExpertScope } from "../../../webview-ui/src/types/experts"
 import { buildEmbeddingHandler } from "../../embedding"
 import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { loadTaskSources } from "../../integrations/task-source"
+import { SpecifMcpTaskSource } from "../../integrations/task-source/specif-mcp"
+import { TaskOutcome, TaskOutcomeSyncMode, writeBackTaskOutcome } from "../../integrations/task-source/write-back"
+import { specifMcp } from "../../integrations/custom-mcp/specif-mcp"
 import { deleteFromContextDirectory } from "../../utils/delete-helper"
 import { isLocalMcp, getLocalMcpDetails, getLocalMcp, getAllLocalMcps } from "../../utils/local-mcp-registry"
 import { getStarCount } from "../../services/github/github"
@@ -75,6 +131,9 @@ https://github.com/microsoft/vscode-webview-ui-toolkit-samples/blob/main/default
 https://github.com/KumarVariable/vscode-extension-sidebar-html/blob/master/src/customSidebarViewProvider.ts
 */
 
+// stories of a HAI task folder, `source` is the name of the MCP server they were read from
+type HaiTaskList = { stories: IHaiStory[]; errors: HaiTaskSourceError[]; source?: string }
+
 // URI scheme for expert prompts virtual documents
 export const EXPERT_PROMPT_URI_SCHEME = "hai-expert-prompt"
 
@@ -88,9 +147,14 @@ export class Controller {
 	private webviewProviderRef: WeakRef<WebviewProvider>
 
 	haiTaskList: string = ""
-	fileSystemWatcher: HaiFileSystemWatcher | undefined
+	fileSystemWatchers = new Map<string, HaiFileSystemWatcher>()
+	private haiTaskFolderWatcher?: HaiTaskFolderWatcher
+	// the last load of each HAI task folder, the tasks are looked up in it and the next load is compared with it
+	private haiTaskLists = new Map<string, HaiTaskList>()
 	private workspaceId: string
 	private vsCodeWorkSpaceFolderFsPath!: string
+	// every folder of a multi-root workspace, the first one is `vsCodeWorkSpaceFolderFsPath`
+	private workspaceFolderFsPaths: string[] = []
 	private codeIndexAbortController: AbortController
 	private isSideBar: boolean
 	private expertManager: ExpertManager
@@ -114,15 +178,19 @@ export class Controller {
 			console.error("Failed to cleanup legacy checkpoints:", error)
 		})
 
-		this.expertManager = new ExpertManager()
+		this.expertManager = new ExpertManager(this.context.globalStorageUri.fsPath)
 		this.codeIndexAbortController = new AbortController()
 		this.workspaceId = getWorkspaceID() || ""
 		this.isSideBar = isSideBar
 		this.vsCodeWorkSpaceFolderFsPath = (getWorkspacePath() || "").trim()
+		this.workspaceFolderFsPaths = getWorkspaceFolderPaths()
 		if (this.vsCodeWorkSpaceFolderFsPath) {
-			this.fileSystemWatcher = new HaiFileSystemWatcher(this, this.vsCodeWorkSpaceFolderFsPath)
+			for (const folder of this.workspaceFolderFsPaths) {
+				this.fileSystemWatchers.set(folder, new HaiFileSystemWatcher(this, folder))
+			}
 			this.codeIndexBackground()
 		}
+		this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.updateWorkspaceFolders()))
 
 		// Register the expert prompt provider
 		const registration = vscode.workspace.registerTextDocumentContentProvider(
@@ -130,6 +198,21 @@ export class Controller {
 			this.expertPromptProvider,
 		)
 		this.disposables.push(registration)
+
+		// Record a version of the prompt of an expert each time it is saved
+		this.disposables.push(
+			vscode.workspace.onDidSaveTextDocument(async (document) => {
+				try {
+					if (
+						await this.expertManager.recordExpertPromptChange(this.vsCodeWorkSpaceFolderFsPath, document.uri.fsPath)
+					) {
+						await this.loadExperts()
+					}
+				} catch (error) {
+					console.error("Failed to record the expert version:", error)
+				}
+			}),
+		)
 	}
 
 	// Content provider for expert prompts
@@ -158,7 +241,9 @@ export class Controller {
 		this.workspaceTracker = undefined
 		this.mcpHub?.dispose()
 		this.mcpHub = undefined
-		this.fileSystemWatcher?.dispose()
+		this.fileSystemWatchers.forEach((watcher) => watcher.dispose())
+		this.fileSystemWatchers.clear()
+		this.unwatchHaiTaskFolder()
 		this.accountService = undefined
 		this.outputChannel.appendLine("Disposed all disposables")
 
@@ -203,6 +288,8 @@ export class Controller {
 			embeddingConfiguration,
 			customInstructions,
 			expertPrompt,
+			await this.getActiveExpertProfile(),
+			await this.getActiveExpert(),
 			task,
 			images,
 		)
@@ -230,6 +317,8 @@ export class Controller {
 			embeddingConfiguration,
 			customInstructions,
 			expertPrompt,
+			await this.getActiveExpertProfile(),
+			await this.getActiveExpert(),
 			undefined,
 			undefined,
 			historyItem,
@@ -341,12 +430,28 @@ export class Controller {
 				//this.postMessageToWebview({ type: "text", text: `Extension: ${Date.now()}` })
 				// initializing new instance of Cline will make sure that any agentically running promises in old instance don't affect our new task. this essentially creates a fresh slate for the new task
 				await this.initClineWithTask(message.text, message.images)
+				this.sendExpertSuggestionContext(message.text)
+				if (message.haiTask && this.task) {
+					await this.updateHaiTaskStatus(message.haiTask, "in-progress", this.task.taskId)
+					const haiTask = await this.findHaiTask(message.haiTask)
+					if (haiTask) {
+						this.warnAboutIncompleteHaiTaskDependencies(message.haiTask.folder, haiTask)
+						// not awaited, the task runs while the offer is shown
+						this.offerHaiTaskBranch(
+							getHaiTaskTicketIds({
+								storyTicketId: haiTask.story.storyTicketId,
+								subTaskTicketId: haiTask.task.subTaskTicketId,
+							}),
+							haiTask.task.list,
+						)
+					}
+				}
 				break
 			case "apiConfiguration":
 				if (message.apiConfiguration) {
 					await updateApiConfiguration(this.context, message.apiConfiguration, this.workspaceId)
 					if (this.task) {
-						this.task.api = buildApiHandler(message.apiConfiguration)
+						this.task.updateApiConfiguration(message.apiConfiguration)
 					}
 				}
 				await this.postStateToWebview()
@@ -721,7 +826,7 @@ export class Controller {
 				if (message.apiConfiguration) {
 					await updateApiConfiguration(this.context, message.apiConfiguration, this.workspaceId)
 					if (this.task) {
-						this.task.api = buildApiHandler(message.apiConfiguration)
+						this.task.updateApiConfiguration(message.apiConfiguration)
 					}
 				}
 
@@ -806,14 +911,18 @@ export class Controller {
 						}
 					}
 				} else {
-					await this.updateExpertPrompt(message.prompt)
+					await this.updateExpertPrompt(message.prompt, message.text)
 				}
 
 				break
 			case "saveExpert":
 				if (message.text) {
 					const expert = JSON.parse(message.text) as ExpertData
-					await this.expertManager.saveExpert(this.vsCodeWorkSpaceFolderFsPath, expert)
+					try {
+						await this.expertManager.saveExpert(this.vsCodeWorkSpaceFolderFsPath, expert)
+					} catch (error) {
+						vscode.window.showErrorMessage(`Failed to save the expert: ${error.message}`)
+					}
 
 					// Send updated experts list back to webview
 					const experts = await this.expertManager.readExperts(this.vsCodeWorkSpaceFolderFsPath)
@@ -826,7 +935,11 @@ export class Controller {
 			case "deleteExpert":
 				if (message.text) {
 					const expertName = message.text
-					await this.expertManager.deleteExpert(this.vsCodeWorkSpaceFolderFsPath, expertName)
+					try {
+						await this.expertManager.deleteExpert(this.vsCodeWorkSpaceFolderFsPath, expertName)
+					} catch (error) {
+						vscode.window.showErrorMessage(`Failed to delete the expert: ${error.message}`)
+					}
 
 					// Send updated experts list back to webview
 					const experts = await this.expertManager.readExperts(this.vsCodeWorkSpaceFolderFsPath)
@@ -836,15 +949,78 @@ export class Controller {
 					})
 				}
 				break
+			case "compareExpertVersion":
+				if (message.text && message.expertVersion) {
+					await this.compareExpertVersion(message.text, message.expertVersion)
+				}
+				break
+			case "rollbackExpertVersion":
+				if (message.text && message.expertVersion) {
+					await this.rollbackExpertVersion(message.text, message.expertVersion)
+				}
+				break
+			case "exportExpert":
+				if (message.text) {
+					await this.exportExpert(message.text)
+				}
+				break
+			case "importExpert":
+				await this.importExpert()
+				break
 			case "loadExperts":
 				await this.loadExperts()
 				break
+			case "addExpertDocuments":
+				if (message.text) {
+					const documents = await vscode.window.showOpenDialog({
+						canSelectMany: true,
+						openLabel: "Add Reference Documents",
+						filters: { Documents: expertDocumentExtensions.map((extension) => extension.slice(1)) },
+					})
+					if (documents?.length) {
+						await this.expertManager.addExpertDocuments(
+							this.vsCodeWorkSpaceFolderFsPath,
+							message.text,
+							documents.map((document) => document.fsPath),
+						)
+						await this.loadExperts()
+					}
+				}
+				break
+			case "saveExpertProfile":
+				if (message.text && message.expertProfile) {
+					try {
+						await this.expertManager.saveExpertProfile(
+							this.vsCodeWorkSpaceFolderFsPath,
+							message.text,
+							message.expertProfile,
+						)
+						if (this.task && message.text === (await customGetState(this.context, "expertName"))) {
+							this.task.updateExpertProfile(await this.getActiveExpertProfile())
+						}
+					} catch (error) {
+						vscode.window.showErrorMessage(`Failed to save the expert profile: ${error.message}`)
+					}
+					await this.loadExperts()
+				}
+				break
+			case "deleteExpertDocument":
+				if (message.text && message.document) {
+					await this.expertManager.deleteExpertDocument(
+						this.vsCodeWorkSpaceFolderFsPath,
+						message.text,
+						message.document,
+					)
+					await this.loadExperts()
+				}
+				break
 			case "onHaiConfigure":
 				const isConfigureEnabled = message.bool !== undefined ? message.bool : true
 
 				if (isConfigureEnabled) {
 					this.chooseHaiProject(message?.text)
 				} else {
+					this.unwatchHaiTaskFolder()
 					updateWorkspaceState(this.context, "haiConfig", {})
 				}
 
@@ -933,9 +1109,11 @@ export class Controller {
 					"No",
 				)
 				if (resetIndex === "Yes") {
-					const haiFolderPath = path.join(this.vsCodeWorkSpaceFolderFsPath, HaiBuildDefaults.defaultContextDirectory)
-					if (await fileExistsAtPath(haiFolderPath)) {
-						await fs.rmdir(haiFolderPath, { recursive: true })
+					for (const folder of this.workspaceFolderFsPaths) {
+						const haiFolderPath = path.join(folder, HaiBuildDefaults.defaultContextDirectory)
+						if (await fileExistsAtPath(haiFolderPath)) {
+							await fs.rmdir(haiFolderPath, { recursive: true })
+						}
 					}
 					this.codeIndexAbortController = new AbortController()
 					await this.resetIndex()
@@ -1068,7 +1246,7 @@ export class Controller {
 						this.context,
 						this.workspaceId,
 					)
-					this.task.api = buildApiHandler(updatedApiConfiguration)
+					this.task.updateApiConfiguration(updatedApiConfiguration)
 				}
 			}
 		}
@@ -1095,6 +1273,10 @@ export class Controller {
 
 	async cancelTask() {
 		if (this.task) {
+			if (await this.updateHaiTaskStatusByHistoryTaskId(this.task.taskId, "failed", ["in-progress"])) {
+				await this.writeBackHaiTaskOutcome(this.task.taskId, { status: "failed" })
+			}
+			await this.pauseHaiStoryRun(this.task.taskId, "The task was cancelled")
 			const { historyItem } = await this.getTaskWithId(this.task.taskId)
 			try {
 				await this.task.abortTask()
@@ -1318,7 +1500,7 @@ export class Controller {
 			}
 
 			if (this.task) {
-				this.task.api = buildApiHandler(updatedConfig)
+				this.task.updateApiConfiguration(updatedConfig)
 			}
 
 			await this.postStateToWebview()
@@ -1580,7 +1762,7 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		await customStoreSecret(this.context, "openRouterApiKey", this.workspaceId, apiKey)
 		await this.postStateToWebview()
 		if (this.task) {
-			this.task.api = buildApiHandler({
+			this.task.updateApiConfiguration({
 				apiProvider: openrouter,
 				openRouterApiKey: apiKey,
 			})
@@ -1971,6 +2153,7 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			lastShownAnnouncementId,
 			customInstructions,
 			expertPrompt,
+			expertName,
 			isHaiRulesPresent,
 			taskHistory,
 			autoApprovalSettings,
@@ -1990,7 +2173,10 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			apiConfiguration,
 			customInstructions,
 			expertPrompt,
+			expertName,
 			isHaiRulesPresent,
+			haiTaskStatuses: await this.getHaiTaskStatuses(),
+			haiStoryRun: await this.getHaiStoryRun(),
 			uriScheme: vscode.env.uriScheme,
 			currentTaskItem: this.task?.taskId ? (taskHistory || []).find((item) => item.id === this.task?.taskId) : undefined,
 			checkpointTrackerErrorMessage: this.task?.checkpointTrackerErrorMessage,
@@ -2160,7 +2346,6 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			return
 		}
 
-		await ensureFaissPlatformDeps()
 		const state = (await customGetState(this.context, "buildIndexProgress")) as HaiBuildIndexProgress | undefined
 		const updateProgressState = async (data: Partial<HaiBuildIndexProgress>) => {
 			const state = (await customGetState(this.context, "buildIndexProgress")) as HaiBuildIndexProgress | undefined
@@ -2204,6 +2389,11 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 				if (!this.vsCodeWorkSpaceFolderFsPath) {
 					return
 				}
+				// file changes only re-index the workspace folders they belong to
+				const filesByFolder = filePaths ? groupFilesByWorkspaceFolder(filePaths, this.workspaceFolderFsPaths) : undefined
+				const workspaceFolders = this.workspaceFolderFsPaths.filter(
+					(folder) => !filesByFolder || filesByFolder.get(folder)!.length > 0,
+				)
 				if (buildContextOptions.useIndex) {
 					if (!isManualTrigger && (!buildIndexProgress || !buildIndexProgress.progress)) {
 						const userConfirmation = await vscode.window.showWarningMessage(
@@ -2239,154 +2429,186 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 						},
 						async (progressCtx, token) => {
 							let lastIncrement = 0
-							if (buildContextOptions.useContext) {
+							// every workspace folder has its own index, the progress covers all of them
+							for (const [folderIndex, srcFolder] of workspaceFolders.entries()) {
+								const folderFilePaths = filesByFolder?.get(srcFolder)
+								const folderBuildContextOptions = this.getWorkspaceFolderBuildContextOptions(
+									srcFolder,
+									buildContextOptions,
+								)
+								const getFolderProgress = (progress: number) =>
+									(folderIndex * 100 + progress) / workspaceFolders.length
+
+								if (buildContextOptions.useContext) {
+									if (this.codeIndexAbortController.signal.aborted) {
+										return
+									}
+
+									console.log(`codeContextAgentProgress...`)
+									// CodeContext
+									const codeContextAgent = new CodeContextAdditionAgent()
+										.withSource(srcFolder)
+										.withLLMApiConfig(apiConfiguration)
+										.withBuildContextOptions(folderBuildContextOptions)
+										.build()
+									this.codeIndexAbortController.signal.addEventListener("abort", async () => {
+										codeContextAgent.stop()
+										await updateProgressState({
+											type: "codeContext",
+											isInProgress: false,
+										})
+										this.isCodeIndexInProgress = false
+									})
+									codeContextAgent.on("progress", async (progress: ICodeIndexProgress) => {
+										this.outputChannel.appendLine(
+											`codeContextAgentProgress ${progress.type} ${progress.value}%`,
+										)
+										console.log(`codeContextAgentProgress ${JSON.stringify(progress, null, 2)}`)
+										// If user cancels the operation from notification, we need to cancel the operation
+										if (token.isCancellationRequested) {
+											codeContextAgent.stop()
+											await updateProgressState({
+												type: "codeContext",
+												isInProgress: false,
+											})
+											return
+										}
+										// If user cancels the operation from settings, we need to cancel the operation
+										if (this.codeIndexAbortController.signal.aborted) {
+											codeContextAgent.stop()
+											await updateProgressState({
+												type: "codeContext",
+												isInProgress: false,
+											})
+											return
+										}
+										// Continue to update the progress
+										if (
+											progress.type === "progress" &&
+											progress.value &&
+											!this.codeIndexAbortController.signal.aborted
+										) {
+											const p = getFolderProgress(
+												getProgress(
+													progress.value,
+													buildContextOptions.useIndex,
+													buildContextOptions.useContext,
+													"codeContext",
+												),
+											)
+											const increment = p - lastIncrement
+											lastIncrement += increment
+											progressCtx.report({ increment, message: `${lastIncrement}%` })
+											await updateProgressState({
+												progress: p,
+												type: "codeContext",
+												isInProgress: true,
+											})
+										}
+									})
+									codeContextAgent.on("error", async (error: { message: string; error: any }) => {
+										console.error("Error during code context:", error.message, error.error)
+										vscode.window.showErrorMessage(`Code context failed: ${error.message}`)
+
+										this.codeIndexAbortController.abort()
+										this.isCodeIndexInProgress = false
+									})
+									await codeContextAgent.start(folderFilePaths, reIndex)
+									if (!this.codeIndexAbortController.signal.aborted) {
+										await updateProgressState({
+											type: "codeContext",
+											isInProgress: false,
+										})
+									}
+								}
 								if (this.codeIndexAbortController.signal.aborted) {
 									return
 								}
 
-								console.log(`codeContextAgentProgress...`)
-								// CodeContext
-								const codeContextAgent = new CodeContextAdditionAgent()
-									.withSource(this.vsCodeWorkSpaceFolderFsPath)
-									.withLLMApiConfig(apiConfiguration)
-									.withBuildContextOptions(buildContextOptions)
-									.build()
+								// TODO: ISSUE: Assuming faiss node takes time to load/initialize.So adding a delay as a temporary fix until we find a root cause.
+								await setTimeoutPromise(500)
+
+								const codeIndexConfig = vscode.workspace.getConfiguration("hai.codeIndex")
+								const {
+									defaultEmbeddingConcurrency,
+									defaultEmbeddingBatchTokenBudget,
+									defaultIndexCheckpointInterval,
+								} = HaiBuildDefaults
+								const vectorizeCodeAgent = new VectorizeCodeAgent(
+									srcFolder,
+									embeddingConfiguration,
+									folderBuildContextOptions,
+								)
+									.withConcurrency(codeIndexConfig.get("embeddingConcurrency", defaultEmbeddingConcurrency))
+									.withBatchTokenBudget(
+										codeIndexConfig.get("embeddingBatchTokens", defaultEmbeddingBatchTokenBudget),
+									)
+									.withCheckpointInterval(
+										codeIndexConfig.get("checkpointInterval", defaultIndexCheckpointInterval),
+									)
+								console.log("vectorizeCodeAgentProgress.......")
 								this.codeIndexAbortController.signal.addEventListener("abort", async () => {
-									codeContextAgent.stop()
+									vectorizeCodeAgent.stop()
 									await updateProgressState({
-										type: "codeContext",
+										type: "codeIndex",
 										isInProgress: false,
 									})
 									this.isCodeIndexInProgress = false
 								})
-								codeContextAgent.on("progress", async (progress: ICodeIndexProgress) => {
-									this.outputChannel.appendLine(`codeContextAgentProgress ${progress.type} ${progress.value}%`)
-									console.log(`codeContextAgentProgress ${JSON.stringify(progress, null, 2)}`)
+								vectorizeCodeAgent.on("progress", async (progress: ICodeIndexProgress) => {
+									this.outputChannel.appendLine(
+										`vectorizeCodeAgentProgress: ${progress.type} ${progress.value}%`,
+									)
+									console.log(`vectorizeCodeAgentProgress ${JSON.stringify(progress, null, 2)}`)
 									// If user cancels the operation from notification, we need to cancel the operation
 									if (token.isCancellationRequested) {
-										codeContextAgent.stop()
+										vectorizeCodeAgent.stop()
 										await updateProgressState({
-											type: "codeContext",
+											type: "codeIndex",
 											isInProgress: false,
 										})
 										return
 									}
 									// If user cancels the operation from settings, we need to cancel the operation
 									if (this.codeIndexAbortController.signal.aborted) {
-										codeContextAgent.stop()
+										vectorizeCodeAgent.stop()
 										await updateProgressState({
-											type: "codeContext",
+											type: "codeIndex",
 											isInProgress: false,
 										})
 										return
 									}
-									// Continue to update the progress
 									if (
 										progress.type === "progress" &&
 										progress.value &&
 										!this.codeIndexAbortController.signal.aborted
 									) {
-										const p = getProgress(
-											progress.value,
-											buildContextOptions.useIndex,
-											buildContextOptions.useContext,
-											"codeContext",
+										const p = getFolderProgress(
+											getProgress(
+												progress.value,
+												buildContextOptions.useIndex,
+												buildContextOptions.useContext,
+												"codeIndex",
+											),
 										)
 										const increment = p - lastIncrement
 										lastIncrement += increment
 										progressCtx.report({ increment, message: `${lastIncrement}%` })
 										await updateProgressState({
 											progress: p,
-											type: "codeContext",
+											type: "codeIndex",
 											isInProgress: true,
 										})
 									}
 								})
-								codeContextAgent.on("error", async (error: { message: string; error: any }) => {
-									console.error("Error during code context:", error.message, error.error)
-									vscode.window.showErrorMessage(`Code context failed: ${error.message}`)
-
+								vectorizeCodeAgent.on("error", async (error: { message: string; error: any }) => {
+									console.error("Error during indexing:", error.message, error.error)
+									vscode.window.showErrorMessage(`Indexing failed: ${error.message}`)
 									this.codeIndexAbortController.abort()
 									this.isCodeIndexInProgress = false
 								})
-								await codeContextAgent.start(filePaths, reIndex)
-								if (!this.codeIndexAbortController.signal.aborted) {
-									await updateProgressState({
-										type: "codeContext",
-										isInProgress: false,
-									})
-								}
-							}
-							if (this.codeIndexAbortController.signal.aborted) {
-								return
+								await vectorizeCodeAgent.start(folderFilePaths)
 							}
-
-							// TODO: ISSUE: Assuming faiss node takes time to load/initialize.So adding a delay as a temporary fix until we find a root cause.
-							await setTimeoutPromise(500)
-
-							const vectorizeCodeAgent = new VectorizeCodeAgent(
-								this.vsCodeWorkSpaceFolderFsPath,
-								embeddingConfiguration,
-								buildContextOptions,
-							)
-							console.log("vectorizeCodeAgentProgress.......")
-							this.codeIndexAbortController.signal.addEventListener("abort", async () => {
-								vectorizeCodeAgent.stop()
-								await updateProgressState({
-									type: "codeIndex",
-									isInProgress: false,
-								})
-								this.isCodeIndexInProgress = false
-							})
-							vectorizeCodeAgent.on("progress", async (progress: ICodeIndexProgress) => {
-								this.outputChannel.appendLine(`vectorizeCodeAgentProgress: ${progress.type} ${progress.value}%`)
-								console.log(`vectorizeCodeAgentProgress ${JSON.stringify(progress, null, 2)}`)
-								// If user cancels the operation from notification, we need to cancel the operation
-								if (token.isCancellationRequested) {
-									vectorizeCodeAgent.stop()
-									await updateProgressState({
-										type: "codeIndex",
-										isInProgress: false,
-									})
-									return
-								}
-								// If user cancels the operation from settings, we need to cancel the operation
-								if (this.codeIndexAbortController.signal.aborted) {
-									vectorizeCodeAgent.stop()
-									await updateProgressState({
-										type: "codeIndex",
-										isInProgress: false,
-									})
-									return
-								}
-								if (
-									progress.type === "progress" &&
-									progress.value &&
-									!this.codeIndexAbortController.signal.aborted
-								) {
-									const p = getProgress(
-										progress.value,
-										buildContextOptions.useIndex,
-										buildContextOptions.useContext,
-										"codeIndex",
-									)
-									const increment = p - lastIncrement
-									lastIncrement += increment
-									progressCtx.report({ increment, message: `${lastIncrement}%` })
-									await updateProgressState({
-										progress: p,
-										type: "codeIndex",
-										isInProgress: true,
-									})
-								}
-							})
-							vectorizeCodeAgent.on("error", async (error: { message: string; error: any }) => {
-								console.error("Error during indexing:", error.message, error.error)
-								vscode.window.showErrorMessage(`Indexing failed: ${error.message}`)
-								this.codeIndexAbortController.abort()
-								this.isCodeIndexInProgress = false
-							})
-							await vectorizeCodeAgent.start(filePaths)
 							if (!this.codeIndexAbortController.signal.aborted) {
 								progressCtx.report({ increment: 100, message: "Done!" })
 								await updateProgressState({
@@ -2417,7 +2639,12 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 				break
 			case FileOperations.Delete:
 				console.log(`HaiFileSystemWatcher File Deleted`)
-				await deleteFromContextDirectory(filePaths, this.vsCodeWorkSpaceFolderFsPath)
+				for (const [folder, folderFilePaths] of groupFilesByWorkspaceFolder(filePaths, this.workspaceFolderFsPaths)) {
+					if (folderFilePaths.length > 0) {
+						await deleteFromContextDirectory(folderFilePaths, folder)
+					}
+				}
+				await this.deleteFromCodeIndex(filePaths)
 				break
 			case FileOperations.Change:
 				console.log(`HaiFileSystemWatcher File Changed`)
@@ -2428,38 +2655,578 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		}
 	}
 
+	async deleteFromCodeIndex(filePaths: string[]) {
+		// a running index job compacts deleted files itself, avoid writing the index concurrently
+		if (!this.vsCodeWorkSpaceFolderFsPath || this.isCodeIndexInProgress) {
+			return
+		}
+		const { buildContextOptions, embeddingConfiguration } = await getAllExtensionState(this.context, this.workspaceId)
+		if (!buildContextOptions?.useIndex || validateEmbeddingConfiguration(embeddingConfiguration) !== undefined) {
+			return
+		}
+		for (const [folder, folderFilePaths] of groupFilesByWorkspaceFolder(filePaths, this.workspaceFolderFsPaths)) {
+			if (folderFilePaths.length === 0) {
+				continue
+			}
+			try {
+				const vectorizeCodeAgent = new VectorizeCodeAgent(
+					folder,
+					embeddingConfiguration,
+					this.getWorkspaceFolderBuildContextOptions(folder, buildContextOptions),
+				)
+				await vectorizeCodeAgent.deleteFiles(folderFilePaths)
+			} catch (error) {
+				console.error("deleteFromCodeIndex", "Error removing files from the code index:", error)
+			}
+		}
+	}
+
+	/**
+	 * Folders added to a multi-root workspace get a file watcher and are indexed, the indexes of
+	 * the other folders are up to date and only pass the hash check.
+	 */
+	private updateWorkspaceFolders() {
+		const workspaceFolders = getWorkspaceFolderPaths()
+		for (const [folder, watcher] of this.fileSystemWatchers) {
+			if (!workspaceFolders.includes(folder)) {
+				watcher.dispose()
+				this.fileSystemWatchers.delete(folder)
+			}
+		}
+		const addedFolders = workspaceFolders.filter((folder) => !this.fileSystemWatchers.has(folder))
+		this.workspaceFolderFsPaths = workspaceFolders
+		if (!this.vsCodeWorkSpaceFolderFsPath) {
+			return
+		}
+		for (const folder of addedFolders) {
+			this.fileSystemWatchers.set(folder, new HaiFileSystemWatcher(this, folder))
+		}
+		if (addedFolders.length > 0) {
+			this.codeIndexBackground()
+		}
+	}
+
+	/**
+	 * Code index options of a workspace folder, `hai.codeIndex.excludeFolders` can be set per folder
+	 * and is added to the exclusions of the HAI settings.
+	 */
+	private getWorkspaceFolderBuildContextOptions(
+		folder: string,
+		buildContextOptions: HaiBuildContextOptions,
+	): HaiBuildContextOptions {
+		const folderExcludes = vscode.workspace
+			.getConfiguration("hai.codeIndex", vscode.Uri.file(folder))
+			.get<string[]>("excludeFolders", [])
+		if (folderExcludes.length === 0) {
+			return buildContextOptions
+		}
+		return {
+			...buildContextOptions,
+			excludeFolders: [buildContextOptions.excludeFolders, ...folderExcludes].filter(Boolean).join(","),
+		}
+	}
+
+	private async getCodeIndexConfiguration() {
+		if (!this.vsCodeWorkSpaceFolderFsPath) {
+			throw new Error("Open a workspace folder to use its code index.")
+		}
+		const { buildContextOptions, embeddingConfiguration } = await getAllExtensionState(this.context, this.workspaceId)
+		if (!buildContextOptions) {
+			throw new Error("The code index is not configured, enable it in the HAI settings.")
+		}
+		const embeddingConfigurationError = validateEmbeddingConfiguration(embeddingConfiguration)
+		if (embeddingConfigurationError) {
+			throw new Error(embeddingConfigurationError)
+		}
+		// each folder of a multi-root workspace has its own index
+		const srcFolders =
+			this.workspaceFolderFsPaths.length > 0 ? this.workspaceFolderFsPaths : [this.vsCodeWorkSpaceFolderFsPath]
+		return { srcFolders, buildContextOptions, embeddingConfiguration }
+	}
+
+	private async getCodeIndexInspector(): Promise<CodeIndexInspector> {
+		const { srcFolders, embeddingConfiguration, buildContextOptions } = await this.getCodeIndexConfiguration()
+		return new CodeIndexInspector(srcFolders, embeddingConfiguration, buildContextOptions)
+	}
+
+	async exportCodeIndexSnapshot(snapshotFile: string): Promise<CodeIndexSnapshotManifest> {
+		if (this.isCodeIndexInProgress) {
+			throw new Error("Wait for the running indexing job to finish before exporting the code index.")
+		}
+		const { srcFolders, embeddingConfiguration, buildContextOptions } = await this.getCodeIndexConfiguration()
+		return exportCodeIndexSnapshot(srcFolders, embeddingConfiguration, buildContextOptions, snapshotFile)
+	}
+
+	/**
+	 * Imports a teammate's code index snapshot, then runs the indexing job so only the files that
+	 * differ from the snapshot are re-embedded.
+	 */
+	async importCodeIndexSnapshot(snapshotFile: string): Promise<CodeIndexSnapshotManifest> {
+		if (this.isCodeIndexInProgress) {
+			throw new Error("Stop the running indexing job before importing a code index snapshot.")
+		}
+		const { srcFolders, embeddingConfiguration, buildContextOptions } = await this.getCodeIndexConfiguration()
+		const manifest = await importCodeIndexSnapshot(srcFolders, embeddingConfiguration, buildContextOptions, snapshotFile)
+		if (buildContextOptions.useIndex) {
+			await this.handleWebviewMessage({ type: "startIndex" })
+		}
+		return manifest
+	}
+
+	async postCodeIndexReport() {
+		try {
+			const codeIndexReport = await (await this.getCodeIndexInspector()).getReport()
+			await this.postMessageToWebview({ type: "codeIndexReport", codeIndexReport })
+		} catch (error) {
+			await this.postMessageToWebview({ type: "codeIndexReport", error: error.message })
+		}
+	}
+
+	async queryCodeIndex(query: string, limit?: number): Promise<CodeIndexSearchResult[]> {
+		if (!query.trim()) {
+			return []
+		}
+		return (await this.getCodeIndexInspector()).query(query, limit)
+	}
+
 	async readHaiTaskList(url: string): Promise<IHaiStory[]> {
+		return (await this.getHaiTaskList(url)).stories
+	}
+
+	/**
+	 * Task list of a folder as it was last loaded. It is only loaded again when the task list is reloaded or its
+	 * files change, reading the Specifai MCP server on every lookup would be slow and changes its project path.
+	 */
+	async getHaiTaskList(url: string): Promise<HaiTaskList> {
+		return this.haiTaskLists.get(url) ?? (await this.loadHaiTaskList(url))
+	}
+
+	async loadHaiTaskList(url: string): Promise<HaiTaskList> {
+		const taskList = await this.readHaiTaskSources(url)
+		this.haiTaskLists.set(url, taskList)
+		return taskList
+	}
+
+	/**
+	 * Reads the stories from the Specifai MCP server when it is connected, from the PRD folder otherwise
+	 * or when the server can't be read. `source` is the name of the MCP server the stories were read from.
+	 */
+	private async readHaiTaskSources(url: string): Promise<HaiTaskList> {
+		const fallbackErrors: HaiTaskSourceError[] = []
+		const specifMcpSource = this.mcpHub && new SpecifMcpTaskSource(this.mcpHub)
+		if (specifMcpSource?.getServer()) {
+			try {
+				const { stories, errors } = await specifMcpSource.load(url)
+				errors.forEach(({ file, message }) => console.error(`Error reading hai task list ${file}: ${message}`))
+				return { stories, errors, source: specifMcp.name }
+			} catch (error) {
+				console.error(`Error reading hai task list from ${specifMcp.name}`, error)
+				fallbackErrors.push({
+					file: specifMcp.name,
+					message: `${error.message}, the tasks were loaded from the PRD folder instead`,
+				})
+			}
+		}
+
+		const { stories, errors } = await loadTaskSources(path.join(url, "PRD"))
+		errors.forEach(({ file, message }) => console.error(`Error reading hai task list ${file}: ${message}`))
+		return { stories, errors: [...fallbackErrors, ...errors] }
+	}
+
+	async getHaiTaskStatuses(): Promise<HaiTaskStatusMap> {
+		return ((await getWorkspaceState(this.context, "haiTaskStatuses")) as HaiTaskStatusMap | undefined) ?? {}
+	}
+
+	async updateHaiTaskStatus(reference: HaiTaskReference, status: HaiTaskStatus, historyTaskId?: string) {
+		const statuses = setHaiTaskStatus(await this.getHaiTaskStatuses(), reference, status, historyTaskId)
+		await updateWorkspaceState(this.context, "haiTaskStatuses", statuses)
+		await this.postStateToWebview()
+	}
+
+	/**
+	 * Updates the status of the HAI task a history task was started from, if any.
+	 * With `fromStatuses` the status is only changed when the task currently has one of them.
+	 */
+	async updateHaiTaskStatusByHistoryTaskId(
+		historyTaskId: string,
+		status: HaiTaskStatus,
+		fromStatuses?: HaiTaskStatus[],
+	): Promise<boolean> {
+		const statuses = await this.getHaiTaskStatuses()
+		const key = findHaiTaskStatusKeyByHistoryTaskId(statuses, historyTaskId)
+		if (!key || (fromStatuses && !fromStatuses.includes(statuses[key].status))) {
+			return false
+		}
+		await updateWorkspaceState(this.context, "haiTaskStatuses", setHaiTaskStatusByKey(statuses, key, status))
+		await this.postStateToWebview()
+		return true
+	}
+
+	/**
+	 * Writes the outcome of the HAI task a history task was started from back to its PRD folder, when enabled
+	 * with the `hai.taskSync.mode` setting. Tasks read from an MCP server are not written back, the PRD folder
+	 * does not hold them. Failures are reported without interrupting the task.
+	 */
+	async writeBackHaiTaskOutcome(historyTaskId: string, outcome: Omit<TaskOutcome, "historyTaskId" | "updatedAt">) {
+		const mode = vscode.workspace.getConfiguration("hai").get<TaskOutcomeSyncMode>("taskSync.mode") ?? "off"
+		const key = findHaiTaskStatusKeyByHistoryTaskId(await this.getHaiTaskStatuses(), historyTaskId)
+		if (mode === "off" || !key) {
+			return
+		}
+		const reference = parseHaiTaskStatusKey(key)
+		const haiTask = await this.findHaiTask(reference)
+		if (!haiTask) {
+			return
+		}
+		if (haiTask.source) {
+			console.log(`The outcome of ${haiTask.story.id}-${haiTask.task.id} is not written back to ${haiTask.source}`)
+			return
+		}
 		try {
-			const fs = require("fs")
-			const path = require("path")
-			let haiTaskList: IHaiStory[] = []
-			const files = fs.readdirSync(`${url}/PRD`)
-			files
-				.filter((file: string) => file.match(/\-feature.json$/))
-				.forEach((file: string) => {
-					const content = fs.readFileSync(path.join(`${url}/PRD`, file), "utf-8")
-					haiTaskList = [...haiTaskList, ...JSON.parse(content).features]
+			const written = await writeBackTaskOutcome(
+				path.join(reference.folder, "PRD"),
+				haiTask.story.id,
+				haiTask.task.id,
+				{ ...outcome, historyTaskId, updatedAt: new Date().toISOString() },
+				mode,
+			)
+			console.log(`Wrote the outcome of ${haiTask.story.id}-${haiTask.task.id} to ${written.join(", ") || "no file"}`)
+		} catch (error) {
+			vscode.window.showWarningMessage(`Failed to write the task outcome to the PRD folder: ${error.message}`)
+		}
+	}
+
+	/**
+	 * Story and task of a HAI task reference, from the task list of its folder. `source` is the name of
+	 * the MCP server the task list was read from, as returned by `loadHaiTaskList`.
+	 */
+	async findHaiTask({
+		folder,
+		taskId,
+	}: HaiTaskReference): Promise<{ story: IHaiStory; task: IHaiTask; source?: string } | undefined> {
+		const { stories, source } = await this.getHaiTaskList(folder)
+		for (const story of stories) {
+			const task = story.tasks.find((task) => getHaiTaskId(story.id, task.id) === taskId)
+			if (task) {
+				return { story, task, source }
+			}
+		}
+		return undefined
+	}
+
+	/**
+	 * Story and task of the HAI task a history task was started from, if any.
+	 */
+	async findHaiTaskByHistoryTaskId(historyTaskId: string): Promise<{ story: IHaiStory; task: IHaiTask } | undefined> {
+		const key = findHaiTaskStatusKeyByHistoryTaskId(await this.getHaiTaskStatuses(), historyTaskId)
+		return key ? this.findHaiTask(parseHaiTaskStatusKey(key)) : undefined
+	}
+
+	/**
+	 * Warns when a HAI task is started before the tasks it depends on are completed, the task still runs.
+	 */
+	private async warnAboutIncompleteHaiTaskDependencies(folder: string, { story, task }: { story: IHaiStory; task: IHaiTask }) {
+		const statuses = await this.getHaiTaskStatuses()
+		const blockers = getIncompleteHaiTaskDependencies(
+			task,
+			(taskId) => getHaiTaskStatus(statuses, { folder, taskId: getHaiTaskId(story.id, taskId) }) === "completed",
+		)
+		if (blockers.length > 0) {
+			vscode.window.showWarningMessage(
+				`${getHaiTaskId(story.id, task.id)} depends on ${blockers.join(", ")}, which ${blockers.length === 1 ? "is" : "are"} not completed yet.`,
+			)
+		}
+	}
+
+	async getHaiTaskAcceptance(historyTaskId: string): Promise<string | undefined> {
+		return (await this.findHaiTaskByHistoryTaskId(historyTaskId))?.task.acceptance
+	}
+
+	async updateHaiTaskAcceptanceChecks(historyTaskId: string, acceptanceChecks: HaiAcceptanceCheck[]) {
+		const statuses = await this.getHaiTaskStatuses()
+		const key = findHaiTaskStatusKeyByHistoryTaskId(statuses, historyTaskId)
+		if (!key) {
+			return
+		}
+		await updateWorkspaceState(this.context, "haiTaskStatuses", setHaiTaskAcceptanceChecks(statuses, key, acceptanceChecks))
+		await this.postStateToWebview()
+	}
+
+	/**
+	 * Offers to create or switch to the branch named from the ticket ids of a HAI task, unless the
+	 * current branch already references them.
+	 */
+	async offerHaiTaskBranch(ticketIds: string[], summary: string) {
+		const cwd = this.vsCodeWorkSpaceFolderFsPath
+		const branch = getHaiTaskBranchName(ticketIds, summary)
+		const currentBranch = cwd && branch ? await getCurrentBranch(cwd) : undefined
+		if (!branch || !currentBranch || ticketIds.every((id) => currentBranch.includes(id.replace(/^#/, "")))) {
+			return
+		}
+
+		const action = await vscode.window.showInformationMessage(
+			`Work on ${ticketIds.join(", ")} in the branch "${branch}"? The current branch is "${currentBranch}".`,
+			"Switch Branch",
+			"Not Now",
+		)
+		if (action !== "Switch Branch") {
+			return
+		}
+		try {
+			const result = await switchToBranch(cwd, branch)
+			vscode.window.showInformationMessage(
+				`${result === "created" ? "Created and switched to" : "Switched to"} the branch "${branch}"`,
+			)
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to switch to the branch "${branch}": ${error.message}`)
+		}
+	}
+
+	/**
+	 * Commits only the files edited by the current task, with the ticket ids of its HAI task in the suggested message.
+	 */
+	async commitTaskChanges() {
+		if (!this.task) {
+			return
+		}
+		const filesByFolder = [
+			...groupFilesByWorkspaceFolder(this.task.getFilesEditedByAI(), this.workspaceFolderFsPaths).entries(),
+		].filter(([, files]) => files.length > 0)
+		if (filesByFolder.length === 0) {
+			vscode.window.showInformationMessage("No files in the workspace were edited by this task")
+			return
+		}
+
+		const haiTask = await this.findHaiTaskByHistoryTaskId(this.task.taskId)
+		const completionResult = findLast(this.task.clineMessages, (m) => m.say === "completion_result")?.text ?? ""
+		const suggestion = getHaiTaskCommitMessage(
+			haiTask
+				? getHaiTaskTicketIds({
+						storyTicketId: haiTask.story.storyTicketId,
+						subTaskTicketId: haiTask.task.subTaskTicketId,
+					})
+				: [],
+			haiTask?.task.list ?? completionResult.replace(COMPLETION_RESULT_CHANGES_FLAG, ""),
+		)
+		const fileCount = filesByFolder.reduce((count, [, files]) => count + files.length, 0)
+		const message = await vscode.window.showInputBox({
+			title: "Commit Task Changes",
+			prompt: `Commit message for the ${fileCount} file(s) edited by the task, other changes are not committed`,
+			value: suggestion,
+			validateInput: (value) => (value.trim() ? undefined : "The commit message is required"),
+		})
+		if (!message) {
+			return
+		}
+
+		for (const [folder, files] of filesByFolder) {
+			try {
+				const hash = await commitFiles(folder, files, message.trim())
+				vscode.window.showInformationMessage(
+					hash
+						? `Committed the task changes in ${path.basename(folder)} (${hash})`
+						: `Nothing to commit in ${path.basename(folder)}, the files edited by the task are unchanged`,
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to commit the task changes in ${path.basename(folder)}: ${error.message}`)
+			}
+		}
+	}
+
+	/**
+	 * Exports the stories of a HAI task folder with the status, history tasks, metrics and changed files of every task.
+	 */
+	async exportHaiStoryReport(folder: string) {
+		const format = await vscode.window.showQuickPick(
+			[
+				{ label: "Markdown", format: "markdown" as const },
+				{ label: "HTML", format: "html" as const },
+			],
+			{ title: "Export Story Progress Report", placeHolder: "Format of the report" },
+		)
+		if (!format) {
+			return
+		}
+
+		const statuses = await this.getHaiTaskStatuses()
+		const history = ((await customGetState(this.context, "taskHistory")) as HistoryItem[] | undefined) || []
+		const getRun = async (historyTaskId: string): Promise<HaiStoryReportRun> => {
+			const historyItem = history.find((item) => item.id === historyTaskId)
+			const uiMessagesFilePath = path.join(
+				this.context.globalStorageUri.fsPath,
+				"tasks",
+				historyTaskId,
+				GlobalFileNames.uiMessages,
+			)
+			let filesChanged: string[] = []
+			if (await fileExistsAtPath(uiMessagesFilePath)) {
+				try {
+					filesChanged = getChangedFiles(JSON.parse(await fs.readFile(uiMessagesFilePath, "utf8")))
+				} catch (error) {
+					console.error(`Failed to read the messages of the task ${historyTaskId}`, error)
+				}
+			}
+			return {
+				historyTaskId,
+				ts: historyItem?.ts,
+				tokensIn: historyItem?.tokensIn ?? 0,
+				tokensOut: historyItem?.tokensOut ?? 0,
+				cacheWrites: historyItem?.cacheWrites ?? 0,
+				cacheReads: historyItem?.cacheReads ?? 0,
+				totalCost: historyItem?.totalCost ?? 0,
+				filesChanged,
+			}
+		}
+
+		const report: HaiStoryReport = { folder, generatedAt: Date.now(), stories: [] }
+		for (const story of await this.readHaiTaskList(folder)) {
+			const tasks = []
+			for (const task of story.tasks) {
+				const record = statuses[getHaiTaskStatusKey({ folder, taskId: getHaiTaskId(story.id, task.id) })]
+				tasks.push({
+					id: task.id,
+					list: task.list,
+					subTaskTicketId: task.subTaskTicketId,
+					status: record?.status ?? "not-started",
+					acceptanceChecks: record?.acceptanceChecks,
+					runs: await Promise.all((record?.historyTaskIds ?? []).map(getRun)),
 				})
-			return haiTaskList
-		} catch (e) {
-			console.error("Error reading hai task list", e)
+			}
+			report.stories.push({ ...story, tasks })
+		}
+		await downloadHaiStoryReport(report, format.format)
+	}
+
+	async getHaiStoryRun(): Promise<HaiStoryRun | undefined> {
+		return (await getWorkspaceState(this.context, "haiStoryRun")) as HaiStoryRun | undefined
+	}
+
+	async updateHaiStoryRun(run?: HaiStoryRun) {
+		await updateWorkspaceState(this.context, "haiStoryRun", run)
+		await this.postStateToWebview()
+	}
+
+	async runHaiStory(folder: string, storyId: string) {
+		const story = (await this.readHaiTaskList(folder)).find((story) => story.id === storyId)
+		if (!story?.tasks.length) {
+			vscode.window.showErrorMessage(`No tasks found for the story ${storyId}`)
+			return
+		}
+		await this.updateHaiStoryRun(createHaiStoryRun(folder, story))
+		// not awaited, the tasks of the run share the branch of the story ticket
+		this.offerHaiTaskBranch(getHaiTaskTicketIds({ storyTicketId: story.storyTicketId }), story.name)
+		await this.startHaiStoryRunTask()
+	}
+
+	async resumeHaiStoryRun() {
+		const run = await this.getHaiStoryRun()
+		if (run?.status !== "paused") {
+			return
+		}
+		await this.updateHaiStoryRun({ ...run, status: "running", pauseReason: undefined, updatedAt: Date.now() })
+		await this.startHaiStoryRunTask()
+	}
+
+	/**
+	 * Starts the current task of the story run as a new task, or finishes the run when all its tasks are done.
+	 */
+	async startHaiStoryRunTask() {
+		const run = await this.getHaiStoryRun()
+		if (run?.status !== "running") {
+			return
+		}
+		const haiTask = run.tasks[run.currentIndex]
+		if (!haiTask) {
+			await this.updateHaiStoryRun({ ...run, status: "completed", updatedAt: Date.now() })
+			return
+		}
+
+		await this.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
+		await this.initClineWithTask(getHaiStoryRunTaskPrompt(run))
+		if (this.task) {
+			await this.updateHaiStoryRun(setHaiStoryRunHistoryTaskId(run, this.task.taskId))
+			await this.updateHaiTaskStatus({ folder: run.folder, taskId: haiTask.taskId }, "in-progress", this.task.taskId)
+		}
+	}
+
+	/**
+	 * Records the result of a story run task and starts the next one unless the run was paused.
+	 */
+	async completeHaiStoryRunTask(historyTaskId: string, result: string, checkpointHash?: string) {
+		const run = await this.getHaiStoryRun()
+		if (!isCurrentHaiStoryRunTask(run, historyTaskId)) {
+			return
+		}
+		const updatedRun = completeHaiStoryRunTask(run, result, checkpointHash)
+		await this.updateHaiStoryRun(updatedRun)
+		if (updatedRun.status === "completed") {
+			vscode.window.showInformationMessage(`All tasks of the story ${updatedRun.storyId} are completed`)
+		} else {
+			await this.startHaiStoryRunTask()
+		}
+	}
+
+	async pauseHaiStoryRun(historyTaskId: string, reason: string) {
+		const run = await this.getHaiStoryRun()
+		if (run?.status !== "running" || !isCurrentHaiStoryRunTask(run, historyTaskId)) {
+			return
+		}
+		await this.updateHaiStoryRun(pauseHaiStoryRun(run, reason))
+	}
+
+	/**
+	 * A running story run does not survive a reload of the window, it is paused so it can be resumed from the HAI task list.
+	 */
+	async pauseInterruptedHaiStoryRun() {
+		const run = await this.getHaiStoryRun()
+		if (run?.status === "running") {
+			await this.updateHaiStoryRun(pauseHaiStoryRun(run, "VS Code was reloaded"))
 		}
-		return []
 	}
 
 	fetchTaskFromSelectedFolder(path: string, ts: string) {
-		this.readHaiTaskList(path).then((res: IHaiStory[]) => {
-			// this.haiTaskList = res
-			if (res.length === 0) {
+		this.watchHaiTaskFolder(path)
+		const previousTaskList = this.haiTaskLists.get(path)
+		this.loadHaiTaskList(path).then(({ stories, errors, source }) => {
+			const changes = previousTaskList ? diffHaiStories(previousTaskList.stories, stories) : undefined
+			if (stories.length === 0) {
 				vscode.window.showInformationMessage("No tasks found in the selected folder")
 			}
+			if (errors.length > 0) {
+				vscode.window.showWarningMessage(
+					`${errors.length} problem(s) found while reading the task files, see the HAI task list for details`,
+				)
+			}
 			this.postMessageToWebview({
 				type: "haiTaskData",
-				haiTaskData: { tasks: res, folder: path, ts },
+				haiTaskData: { tasks: stories, folder: path, ts, errors, changes, source },
 			}).then()
 		})
 	}
 
+	reloadHaiTaskList(path: string) {
+		const ts = getFormattedDateTime()
+		this.fetchTaskFromSelectedFolder(path, ts)
+		updateWorkspaceState(this.context, "haiConfig", { folder: path, ts })
+	}
+
+	private watchHaiTaskFolder(path: string) {
+		if (this.haiTaskFolderWatcher?.folder === path) {
+			return
+		}
+		this.unwatchHaiTaskFolder()
+		this.haiTaskFolderWatcher = new HaiTaskFolderWatcher(this, path)
+	}
+
+	private unwatchHaiTaskFolder() {
+		if (this.haiTaskFolderWatcher) {
+			// without a watcher the task list of the folder is not kept up to date
+			this.haiTaskLists.delete(this.haiTaskFolderWatcher.folder)
+			this.haiTaskFolderWatcher.dispose()
+		}
+		this.haiTaskFolderWatcher = undefined
+	}
+
 	chooseHaiProject(path?: string) {
 		if (!path) {
 			const options: vscode.OpenDialogOptions = {
@@ -2473,15 +3240,11 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 				if (fileUri && fileUri[0]) {
 					console.log("Selected file: " + fileUri[0].fsPath)
 
-					const ts = getFormattedDateTime()
-					this.fetchTaskFromSelectedFolder(fileUri[0].fsPath, ts)
-					updateWorkspaceState(this.context, "haiConfig", { folder: fileUri[0].fsPath, ts })
+					this.reloadHaiTaskList(fileUri[0].fsPath)
 				}
 			})
 		} else {
-			const ts = getFormattedDateTime()
-			this.fetchTaskFromSelectedFolder(path, ts)
-			updateWorkspaceState(this.context, "haiConfig", { folder: path, ts })
+			this.reloadHaiTaskList(path)
 		}
 	}
 
@@ -2498,6 +3261,34 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 				}
 				await this.postStateToWebview()
 				break
+			case "requestCodeIndexReport":
+				await this.postCodeIndexReport()
+				break
+			case "queryCodeIndex":
+				try {
+					const codeIndexQueryResults = await this.queryCodeIndex(message.text ?? "", message.number)
+					await this.postMessageToWebview({ type: "codeIndexQueryResults", codeIndexQueryResults })
+				} catch (error) {
+					await this.postMessageToWebview({ type: "codeIndexQueryResults", error: error.message })
+				}
+				break
+			case "runHaiStory":
+				await this.runHaiStory(message.text!, message.storyId!)
+				break
+			case "resumeHaiStoryRun":
+				await this.resumeHaiStoryRun()
+				break
+			case "stopHaiStoryRun":
+				await this.updateHaiStoryRun(undefined)
+				break
+			case "commitTaskChanges":
+				await this.commitTaskChanges()
+				break
+			case "exportHaiStoryReport":
+				if (message.text) {
+					await this.exportHaiStoryReport(message.text)
+				}
+				break
 		}
 	}
 
@@ -2516,15 +3307,47 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		}
 	}
 
-	async updateExpertPrompt(prompt?: string) {
+	async updateExpertPrompt(prompt?: string, name?: string) {
 		// User may be clearing the field
 		await customUpdateState(this.context, "expertPrompt", prompt || undefined)
+		await customUpdateState(this.context, "expertName", (prompt && name) || undefined)
 		if (this.task) {
 			this.task.expertPrompt = prompt || undefined
+			this.task.updateExpertProfile(await this.getActiveExpertProfile())
+			this.task.activeExpert = await this.getActiveExpert()
 		}
 		await this.postStateToWebview()
 	}
 
+	/**
+	 * The selected expert with the version of its prompt, recorded in the history of the tasks.
+	 */
+	async getActiveExpert(): Promise<HistoryItemExpert | undefined> {
+		const expertName = (await customGetState(this.context, "expertName")) as string | undefined
+		const expertPrompt = (await customGetState(this.context, "expertPrompt")) as string | undefined
+		if (!expertName || !expertPrompt) {
+			return undefined
+		}
+		try {
+			const version = await this.expertManager.getExpertVersion(this.vsCodeWorkSpaceFolderFsPath, expertName, expertPrompt)
+			return { name: expertName, version: version?.version }
+		} catch (error) {
+			console.error(`Failed to get the version of ${expertName}:`, error)
+			return { name: expertName }
+		}
+	}
+
+	/**
+	 * Profile of the selected custom expert: its tool restrictions, model and auto-approval settings.
+	 */
+	async getActiveExpertProfile(): Promise<ExpertProfile | undefined> {
+		const expertName = (await customGetState(this.context, "expertName")) as string | undefined
+		if (!expertName) {
+			return undefined
+		}
+		return this.expertManager.getExpertProfile(this.vsCodeWorkSpaceFolderFsPath, expertName)
+	}
+
 	async resetIndex() {
 		await customUpdateState(this.context, "buildIndexProgress", {
 			progress: 0,
@@ -2534,6 +3357,163 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		await this.postStateToWebview()
 	}
 
+	/**
+	 * Passages of the reference documents of the active expert relevant to the query, undefined when the
+	 * expert has no documents or the embedding provider is not configured.
+	 */
+	async getExpertKnowledge(query: string): Promise<{ expertName: string; passages: ExpertKnowledgePassage[] } | undefined> {
+		const expertName = (await customGetState(this.context, "expertName")) as string | undefined
+		if (!expertName || !query.trim()) {
+			return undefined
+		}
+		const expertDir = await this.expertManager.getExpertDirectory(this.vsCodeWorkSpaceFolderFsPath, expertName)
+		if (!expertDir || (await listExpertDocuments(path.join(expertDir, expertDocumentsFolder))).length === 0) {
+			return undefined
+		}
+
+		const { embeddingConfiguration } = await getAllExtensionState(this.context, this.workspaceId)
+		if (validateEmbeddingConfiguration(embeddingConfiguration)) {
+			console.warn(`The reference documents of ${expertName} are not used, the embedding provider is not configured`)
+			return undefined
+		}
+		const embeddings = buildEmbeddingHandler(embeddingConfiguration).getClient()
+		const embeddingModel = getEmbeddingModelFingerprint(embeddingConfiguration)
+		const passages = await new ExpertKnowledgeIndex(expertDir, embeddings, embeddingModel).search(query)
+		return passages.length > 0 ? { expertName, passages } : undefined
+	}
+
+	/**
+	 * Show the changes of the prompt of an expert since a version, in a diff editor.
+	 */
+	async compareExpertVersion(expertName: string, version: number) {
+		try {
+			const expertDir = await this.expertManager.getExpertDirectory(this.vsCodeWorkSpaceFolderFsPath, expertName)
+			if (!expertDir) {
+				throw new Error(`Could not find the expert: ${expertName}`)
+			}
+			const encodedContent = Buffer.from(await readExpertVersion(expertDir, version)).toString("base64")
+			const versionUri = vscode.Uri.parse(`${EXPERT_PROMPT_URI_SCHEME}:${expertName}.v${version}.md?${encodedContent}`)
+			await vscode.commands.executeCommand(
+				"vscode.diff",
+				versionUri,
+				vscode.Uri.file(path.join(expertDir, "prompt.md")),
+				`${expertName}: v${version} ↔ Current`,
+			)
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to compare the expert versions: ${error.message}`)
+		}
+	}
+
+	/**
+	 * Restore a version of the prompt of an expert, the selected expert uses the restored prompt.
+	 */
+	async rollbackExpertVersion(expertName: string, version: number) {
+		const answer = await vscode.window.showWarningMessage(
+			`Restore version ${version} of the prompt of "${expertName}"? The current prompt is kept in the history.`,
+			{ modal: true },
+			"Restore",
+		)
+		if (answer !== "Restore") {
+			return
+		}
+		try {
+			const restored = await this.expertManager.rollbackExpert(this.vsCodeWorkSpaceFolderFsPath, expertName, version)
+			if (expertName === (await customGetState(this.context, "expertName"))) {
+				const promptPath = await this.expertManager.getExpertPromptPath(this.vsCodeWorkSpaceFolderFsPath, expertName)
+				if (promptPath) {
+					await this.updateExpertPrompt(await fs.readFile(promptPath, "utf-8"), expertName)
+				}
+			}
+			vscode.window.showInformationMessage(`Expert "${expertName}" restored to version ${version} (v${restored.version}).`)
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to restore the expert version: ${error.message}`)
+		}
+		await this.loadExperts()
+	}
+
+	async exportExpert(expertName: string) {
+		const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir())
+		const archiveUri = await vscode.window.showSaveDialog({
+			title: "Export Expert",
+			defaultUri: vscode.Uri.joinPath(
+				defaultFolder,
+				`${expertName.replace(/[^a-zA-Z0-9_-]/g, "_").toLowerCase()}${expertArchiveExtension}`,
+			),
+			filters: { "HAI expert": ["gz"] },
+		})
+		if (!archiveUri) {
+			return
+		}
+		try {
+			await this.expertManager.exportExpert(this.vsCodeWorkSpaceFolderFsPath, expertName, archiveUri.fsPath)
+			vscode.window.showInformationMessage(`Expert "${expertName}" exported.`)
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to export the expert: ${error.message}`)
+		}
+	}
+
+	async importExpert() {
+		const [archiveUri] =
+			(await vscode.window.showOpenDialog({
+				title: "Import Expert",
+				canSelectMany: false,
+				filters: { "HAI expert": ["gz"] },
+			})) ?? []
+		if (!archiveUri) {
+			return
+		}
+
+		const scopes: (vscode.QuickPickItem & { scope: ExpertScope })[] = [
+			{ label: "Global", description: "Available in every workspace", scope: "global" },
+		]
+		if (this.vsCodeWorkSpaceFolderFsPath) {
+			scopes.unshift({ label: "Workspace", description: "Only available in this workspace", scope: "workspace" })
+		}
+		const target = await vscode.window.showQuickPick(scopes, { title: "Import the expert into" })
+		if (!target) {
+			return
+		}
+
+		try {
+			const expertName = await this.expertManager.importExpert(
+				this.vsCodeWorkSpaceFolderFsPath,
+				archiveUri.fsPath,
+				target.scope,
+				async (expertName) =>
+					(await vscode.window.showWarningMessage(
+						`A ${target.scope} expert named "${expertName}" already exists. Replace it?`,
+						{ modal: true },
+						"Replace",
+					)) === "Replace",
+			)
+			if (expertName) {
+				vscode.window.showInformationMessage(`Expert "${expertName}" imported.`)
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to import the expert: ${error.message}`)
+		}
+		await this.loadExperts()
+	}
+
+	/**
+	 * Send the technologies of the workspace and the custom experts, the webview suggests the experts
+	 * matching the new task. Not awaited, the suggestion doesn't block the task.
+	 */
+	private async sendExpertSuggestionContext(task?: string) {
+		if (!task?.trim()) {
+			return
+		}
+		try {
+			const technologies = this.vsCodeWorkSpaceFolderFsPath
+				? await detectWorkspaceTechnologies(this.vsCodeWorkSpaceFolderFsPath)
+				: []
+			await this.loadExperts()
+			await this.postMessageToWebview({ type: "workspaceTechnologies", text: task, technologies })
+		} catch (error) {
+			console.error("Failed to suggest experts:", error)
+		}
+	}
+
 	async loadExperts() {
 		const experts = await this.expertManager.readExperts(this.vsCodeWorkSpaceFolderFsPath)
 		await this.postMessageToWebview({
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { existsSync, lstatSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { exportExpertArchive, extractExpertArchive, mergeExpertsByPrecedence } from "./ExpertArchive"
+
+describe("ExpertArchive", () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "expert-archive-"))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should round trip the metadata, prompt and documents without the knowledge index", async () => {
+		const expertDir = join(directory, "expert")
+		mkdirSync(join(expertDir, "docs"), { recursive: true })
+		mkdirSync(join(expertDir, ".index"))
+		writeFileSync(join(expertDir, "metadata.json"), JSON.stringify({ name: "API Expert" }))
+		writeFileSync(join(expertDir, "prompt.md"), "Design REST APIs")
+		writeFileSync(join(expertDir, "docs", "style.md"), "Use kebab-case paths")
+		writeFileSync(join(expertDir, ".index", "manifest.json"), "{}")
+
+		const archiveFile = join(directory, "api.hai-expert.tar.gz")
+		await exportExpertArchive(expertDir, archiveFile)
+		const importDir = join(directory, "import")
+		mkdirSync(importDir)
+
+		const name = await extractExpertArchive(archiveFile, importDir)
+		name.should.equal("API Expert")
+		readFileSync(join(importDir, "docs", "style.md"), "utf-8").should.equal("Use kebab-case paths")
+		existsSync(join(importDir, ".index")).should.be.false()
+	})
+
+	it("should skip the links of an archive", async () => {
+		const expertDir = join(directory, "expert")
+		mkdirSync(join(expertDir, "docs"), { recursive: true })
+		writeFileSync(join(expertDir, "metadata.json"), JSON.stringify({ name: "Linked Expert" }))
+		writeFileSync(join(expertDir, "prompt.md"), "Review the code")
+		writeFileSync(join(directory, "id_rsa"), "private key")
+		symlinkSync(join(directory, "id_rsa"), join(expertDir, "docs", "key.md"))
+
+		const archiveFile = join(directory, "linked.hai-expert.tar.gz")
+		await exportExpertArchive(expertDir, archiveFile)
+		lstatSync(join(expertDir, "docs", "key.md"))
+			.isSymbolicLink()
+			.should.be.true()
+		const importDir = join(directory, "import")
+		mkdirSync(importDir)
+
+		await extractExpertArchive(archiveFile, importDir)
+		existsSync(join(importDir, "docs")).should.be.true()
+		existsSync(join(importDir, "docs", "key.md")).should.be.false()
+	})
+
+	it("should reject archives without an expert", async () => {
+		const sourceDir = join(directory, "source")
+		mkdirSync(sourceDir)
+		writeFileSync(join(sourceDir, "metadata.json"), JSON.stringify({ name: "No prompt" }))
+		const archiveFile = join(directory, "broken.tar.gz")
+		await exportExpertArchive(sourceDir, archiveFile)
+		const importDir = join(directory, "import")
+		mkdirSync(importDir)
+
+		await extractExpertArchive(archiveFile, importDir).should.be.rejectedWith("The file is not a HAI expert archive.")
+	})
+
+	it("should hide the experts of lower scopes with the same name", () => {
+		mergeExpertsByPrecedence([
+			[{ name: "Reviewer", scope: "workspace" }],
+			[
+				{ name: "reviewer", scope: "team" },
+				{ name: "Architect", scope: "team" },
+			],
+			[
+				{ name: "Architect", scope: "global" },
+				{ name: "Writer", scope: "global" },
+			],
+		]).should.eql([
+			{ name: "Reviewer", scope: "workspace" },
+			{ name: "Architect", scope: "team" },
+			{ name: "Writer", scope: "global" },
+		])
+	})
+})
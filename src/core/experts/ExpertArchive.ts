@@ -0,0 +1,60 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import { c as createArchive, x as extract } from "tar"
+import { expertIndexFolder } from "./ExpertKnowledge"
+
+// extension of expert archives, shown in the save and open dialogs
+export const expertArchiveExtension = ".hai-expert.tar.gz"
+
+/**
+ * Packages an expert folder (metadata, prompt and reference documents) into a `.tar.gz` archive. The
+ * knowledge index is left out, it is rebuilt with the embedding model of the machine importing it.
+ */
+export async function exportExpertArchive(expertDir: string, archiveFile: string): Promise<void> {
+	const entries = readdirSync(expertDir).filter((entry) => entry !== expertIndexFolder)
+	await createArchive({ gzip: true, file: archiveFile, cwd: expertDir, portable: true }, entries)
+}
+
+// entry types extracted from expert archives
+const extractedEntryTypes = ["File", "OldFile", "Directory"]
+
+/**
+ * Extracts an archive exported by `exportExpertArchive` into an empty directory and returns the name of
+ * the expert. Entries outside of the directory are never written, and links are skipped: a shared archive
+ * could otherwise link a reference document to a private file that would be sent to the embedding provider.
+ */
+export async function extractExpertArchive(archiveFile: string, directory: string): Promise<string> {
+	await extract({
+		file: archiveFile,
+		cwd: directory,
+		filter: (_path, entry) => "type" in entry && extractedEntryTypes.includes(entry.type),
+	})
+
+	const metadataPath = join(directory, "metadata.json")
+	let name: unknown
+	try {
+		name = existsSync(metadataPath) ? JSON.parse(readFileSync(metadataPath, "utf-8")).name : undefined
+	} catch (error) {
+		name = undefined
+	}
+	if (typeof name !== "string" || !name.trim() || !existsSync(join(directory, "prompt.md"))) {
+		throw new Error("The file is not a HAI expert archive.")
+	}
+	return name
+}
+
+/**
+ * Experts of every scope with the hidden ones left out, `expertsByScope` is in order of precedence and
+ * names are compared case insensitively.
+ */
+export function mergeExpertsByPrecedence<T extends { name: string }>(expertsByScope: T[][]): T[] {
+	const names = new Set<string>()
+	return expertsByScope.flat().filter(({ name }) => {
+		const key = name.toLowerCase()
+		if (names.has(key)) {
+			return false
+		}
+		names.add(key)
+		return true
+	})
+}
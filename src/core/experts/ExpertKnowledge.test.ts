@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { ExpertKnowledgeIndex, formatExpertKnowledge, splitExpertDocument } from "./ExpertKnowledge"
+
+describe("ExpertKnowledge", () => {
+	let expertDir: string
+	let embeddedTexts: string[]
+
+	// embeds text as letter counts for a, b and c, which is enough to get predictable neighbours
+	const embed = (text: string) => ["a", "b", "c"].map((letter) => text.split(letter).length - 1)
+	const embeddings: EmbeddingsInterface = {
+		embedQuery: async (text: string) => embed(text),
+		embedDocuments: async (texts: string[]) => {
+			embeddedTexts.push(...texts)
+			return texts.map(embed)
+		},
+	}
+
+	beforeEach(() => {
+		expertDir = mkdtempSync(join(tmpdir(), "expert-knowledge-"))
+		mkdirSync(join(expertDir, "docs", "api"), { recursive: true })
+		embeddedTexts = []
+	})
+
+	afterEach(() => {
+		rmSync(expertDir, { recursive: true, force: true })
+	})
+
+	it("should split documents at headings and at the maximum length", () => {
+		splitExpertDocument("Intro\n\n# Style\naaaa\nbbbb\ncccc\n## Naming\n\nxyz", 14).should.eql([
+			{ startLine: 1, endLine: 2, content: "Intro" },
+			{ startLine: 3, endLine: 4, content: "# Style\naaaa" },
+			{ startLine: 5, endLine: 6, content: "bbbb\ncccc" },
+			{ startLine: 7, endLine: 9, content: "## Naming\n\nxyz" },
+		])
+	})
+
+	it("should retrieve the closest passages and only re-embed the changed documents", async () => {
+		writeFileSync(join(expertDir, "docs", "style.md"), "# A\naaaa\n# B\nbbbb")
+		writeFileSync(join(expertDir, "docs", "api", "spec.yaml"), "cccc")
+		writeFileSync(join(expertDir, "docs", "logo.png"), "bbbbbbbb")
+
+		const index = new ExpertKnowledgeIndex(expertDir, embeddings, "test-model")
+		const passages = await index.search("bb", 2)
+		passages
+			.map(({ source, startLine, endLine }) => ({ source, startLine, endLine }))
+			.should.eql([
+				{ source: "style.md", startLine: 3, endLine: 4 },
+				{ source: "api/spec.yaml", startLine: 1, endLine: 1 },
+			])
+		embeddedTexts.should.have.length(3)
+
+		writeFileSync(join(expertDir, "docs", "api", "spec.yaml"), "bbbbb")
+		rmSync(join(expertDir, "docs", "style.md"))
+		embeddedTexts = []
+		const next = await new ExpertKnowledgeIndex(expertDir, embeddings, "test-model").search("bb", 2)
+		next.map(({ source, content }) => `${source}: ${content}`).should.eql(["api/spec.yaml: bbbbb"])
+		embeddedTexts.should.eql(["bbbbb"])
+
+		embeddedTexts = []
+		await new ExpertKnowledgeIndex(expertDir, embeddings, "other-model").sync()
+		embeddedTexts.should.eql(["bbbbb"])
+	})
+
+	it("should format the passages for the prompt", () => {
+		formatExpertKnowledge("API Expert", [
+			{ source: "api.md", startLine: 3, endLine: 5, score: 0.5, content: "Use kebab-case paths" },
+		]).should.equal(
+			"<expert_knowledge>\nPassages of the reference documents of the API Expert expert that are relevant to this request, follow them when they apply:\n\n[api.md, lines 3-5]\nUse kebab-case paths\n</expert_knowledge>",
+		)
+	})
+})
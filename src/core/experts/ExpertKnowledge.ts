@@ -0,0 +1,170 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { createHash } from "node:crypto"
+import { existsSync } from "node:fs"
+import fs from "node:fs/promises"
+import { extname, join, relative, sep } from "node:path"
+import { ExpertKnowledgePassage } from "../../shared/customApi"
+import { FlatCodeVectorStore } from "../../integrations/code-prep/vector-store/flat"
+
+// folders of an expert directory, next to metadata.json and prompt.md
+export const expertDocumentsFolder = "docs"
+export const expertIndexFolder = ".index"
+const manifestFileName = "manifest.json"
+
+export const expertDocumentExtensions = [".md", ".mdx", ".markdown", ".txt", ".rst", ".adoc", ".json", ".yaml", ".yml"]
+
+const maxPassageLength = 1500
+const maxQueryLength = 2000
+
+interface ExpertKnowledgeManifest {
+	// see `getEmbeddingModelFingerprint`, the index is rebuilt when the embedding model changes
+	embeddingModel: string
+	// content hash of every indexed document, by path relative to the documents folder
+	files: Record<string, string>
+}
+
+/**
+ * Splits a reference document into passages of at most `maxLength` characters, a new passage starts at
+ * every Markdown heading so sections stay together. Line numbers are 1-based and inclusive.
+ */
+export function splitExpertDocument(
+	content: string,
+	maxLength = maxPassageLength,
+): Pick<ExpertKnowledgePassage, "startLine" | "endLine" | "content">[] {
+	const passages: Pick<ExpertKnowledgePassage, "startLine" | "endLine" | "content">[] = []
+	let lines: string[] = []
+	let startLine = 1
+
+	const flush = () => {
+		const text = lines.join("\n").trim()
+		if (text) {
+			passages.push({ startLine, endLine: startLine + lines.length - 1, content: text })
+		}
+		startLine += lines.length
+		lines = []
+	}
+
+	content.split(/\r?\n/).forEach((line) => {
+		const length = lines.reduce((total, current) => total + current.length + 1, 0)
+		if (lines.length > 0 && (/^#{1,6}\s/.test(line) || length + line.length > maxLength)) {
+			flush()
+		}
+		lines.push(line)
+	})
+	flush()
+	return passages
+}
+
+/**
+ * Prompt section with the passages retrieved for the current request.
+ */
+export function formatExpertKnowledge(expertName: string, passages: ExpertKnowledgePassage[]): string {
+	const sections = passages.map(
+		({ source, startLine, endLine, content }) => `[${source}, lines ${startLine}-${endLine}]\n${content}`,
+	)
+	return `<expert_knowledge>\nPassages of the reference documents of the ${expertName} expert that are relevant to this request, follow them when they apply:\n\n${sections.join("\n\n")}\n</expert_knowledge>`
+}
+
+/**
+ * Vector index of the reference documents of one expert, stored in its `.index` folder. Documents are
+ * re-embedded only when their content changed since the last sync.
+ */
+export class ExpertKnowledgeIndex {
+	private readonly documentsDir: string
+	private readonly indexDir: string
+
+	constructor(
+		expertDir: string,
+		private readonly embeddings: EmbeddingsInterface,
+		private readonly embeddingModel: string,
+	) {
+		this.documentsDir = join(expertDir, expertDocumentsFolder)
+		this.indexDir = join(expertDir, expertIndexFolder)
+	}
+
+	async search(query: string, limit = 4): Promise<ExpertKnowledgePassage[]> {
+		const store = await this.sync()
+		const results = await store.similaritySearchWithScore(query.slice(0, maxQueryLength), limit)
+		return results.map(([document, distance]) => ({
+			source: document.metadata.source,
+			startLine: document.metadata.startLine,
+			endLine: document.metadata.endLine,
+			score: 1 / (1 + distance),
+			content: document.pageContent,
+		}))
+	}
+
+	async sync(): Promise<FlatCodeVectorStore> {
+		const manifestPath = join(this.indexDir, manifestFileName)
+		let manifest: ExpertKnowledgeManifest = { embeddingModel: this.embeddingModel, files: {} }
+		let store = new FlatCodeVectorStore(this.embeddings)
+		if (existsSync(manifestPath)) {
+			try {
+				const saved = JSON.parse(await fs.readFile(manifestPath, "utf-8")) as ExpertKnowledgeManifest
+				if (saved.embeddingModel === this.embeddingModel) {
+					manifest = saved
+					store = await FlatCodeVectorStore.load(this.indexDir, this.embeddings)
+				}
+			} catch (error) {
+				console.error("Failed to read the expert knowledge manifest, rebuilding the index", error)
+			}
+		}
+
+		const hashes = new Map<string, string>()
+		for (const filePath of await listExpertDocuments(this.documentsDir)) {
+			const content = await fs.readFile(filePath, "utf-8")
+			hashes.set(relative(this.documentsDir, filePath).split(sep).join("/"), hash(content))
+		}
+
+		const staleFiles = Object.keys(manifest.files).filter((source) => hashes.get(source) !== manifest.files[source])
+		const newFiles = [...hashes.keys()].filter((source) => manifest.files[source] !== hashes.get(source))
+		if (staleFiles.length === 0 && newFiles.length === 0) {
+			return store
+		}
+
+		await store.deleteFiles(staleFiles)
+		for (const source of newFiles) {
+			const content = await fs.readFile(join(this.documentsDir, source), "utf-8")
+			await store.addDocuments(
+				splitExpertDocument(content).map(({ startLine, endLine, content }) => ({
+					id: source,
+					pageContent: content,
+					metadata: { source, startLine, endLine },
+				})),
+			)
+		}
+		await store.save(this.indexDir)
+		await fs.writeFile(
+			manifestPath,
+			JSON.stringify({
+				embeddingModel: this.embeddingModel,
+				files: Object.fromEntries(hashes),
+			} satisfies ExpertKnowledgeManifest),
+		)
+		return store
+	}
+}
+
+/**
+ * Reference documents of an expert, searched recursively, files of other types are ignored.
+ */
+export async function listExpertDocuments(documentsDir: string): Promise<string[]> {
+	if (!existsSync(documentsDir)) {
+		return []
+	}
+	const entries = await fs.readdir(documentsDir, { withFileTypes: true })
+	const files: string[] = []
+	for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+		const entryPath = join(documentsDir, entry.name)
+		if (entry.isDirectory()) {
+			files.push(...(await listExpertDocuments(entryPath)))
+		} else if (entry.isFile() && expertDocumentExtensions.includes(extname(entry.name).toLowerCase())) {
+			files.push(entryPath)
+		}
+	}
+	return files
+}
+
+function hash(content: string): string {
+	return createHash("sha1").update(content).digest("hex")
+}
@@ -1,32 +1,75 @@
 import fs from "fs/promises"
+import * as os from "os"
 import * as path from "path"
 import * as vscode from "vscode"
-import { ExpertData, ExpertDataSchema } from "../../../webview-ui/src/types/experts"
+import {
+	ExpertData,
+	ExpertDataSchema,
+	ExpertProfile,
+	ExpertProfileSchema,
+	ExpertScope,
+} from "../../../webview-ui/src/types/experts"
+import { ExpertVersion } from "../../shared/customApi"
 import { fileExistsAtPath, createDirectoriesForFile } from "../../utils/fs"
 import { GlobalFileNames } from "../../global-constants"
+import { exportExpertArchive, extractExpertArchive, mergeExpertsByPrecedence } from "./ExpertArchive"
+import { expertDocumentsFolder, listExpertDocuments } from "./ExpertKnowledge"
+import { findUnknownExpertTools } from "./ExpertProfile"
+import { findExpertVersion, listExpertVersions, recordExpertVersion, rollbackExpertVersion } from "./ExpertVersions"
+
+export interface ExpertsDirectory {
+	scope: ExpertScope
+	directory: string
+}
 
 export class ExpertManager {
 	/**
-	 * Save an expert to the .hai-experts directory
+	 * @param globalStoragePath The global storage path of the extension, global experts are stored in its experts folder
+	 */
+	constructor(private readonly globalStoragePath?: string) {}
+
+	/**
+	 * Get the folders experts are read from, in order of precedence
+	 * @param workspacePath The workspace path, there are no workspace experts without one
+	 * @returns The experts folder of every available scope
+	 */
+	getExpertsDirectories(workspacePath?: string): ExpertsDirectory[] {
+		const directories: ExpertsDirectory[] = []
+		if (workspacePath) {
+			directories.push({ scope: "workspace", directory: path.join(workspacePath, GlobalFileNames.experts) })
+		}
+
+		// Team experts are read from a shared folder, relative to the workspace
+		const sharedFolder = vscode.workspace.getConfiguration("hai").get<string>("experts.sharedFolder")?.trim()
+		if (sharedFolder) {
+			const expandedFolder = sharedFolder.replace(/^~(?=$|[\\/])/, os.homedir())
+			directories.push({ scope: "team", directory: path.resolve(workspacePath || os.homedir(), expandedFolder) })
+		}
+
+		if (this.globalStoragePath) {
+			directories.push({ scope: "global", directory: path.join(this.globalStoragePath, "experts") })
+		}
+		return directories
+	}
+
+	/**
+	 * Save an expert to the experts folder of its scope, the workspace by default
 	 * @param workspacePath The workspace path
 	 * @param expert The expert data to save
 	 */
 	async saveExpert(workspacePath: string, expert: ExpertData): Promise<void> {
-		if (!workspacePath) {
-			throw new Error("No workspace path provided")
-		}
-
 		// Validate expert data with Zod schema
 		const validationResult = ExpertDataSchema.safeParse(expert)
 		if (!validationResult.success) {
 			throw new Error(`Invalid expert data: ${validationResult.error.message}`)
 		}
-
-		// Create a sanitized folder name from the expert name
-		const sanitizedName = expert.name.replace(/[^a-zA-Z0-9_-]/g, "_").toLowerCase()
+		if (expert.profile) {
+			assertKnownTools(expert.profile)
+		}
 
 		// Create the expert directory
-		const expertDir = path.join(workspacePath, GlobalFileNames.experts, sanitizedName)
+		const expertsDir = this.getWritableExpertsDirectory(workspacePath, expert.scope ?? "workspace")
+		const expertDir = path.join(expertsDir, getExpertFolderName(expert.name))
 		await createDirectoriesForFile(path.join(expertDir, "placeholder.txt"))
 
 		// Create metadata file
@@ -35,25 +78,37 @@ export class ExpertManager {
 			name: expert.name,
 			isDefault: expert.isDefault,
 			createdAt: expert.createdAt || Date.now(),
+			profile: expert.profile,
+			tags: expert.tags,
 		}
 		await fs.writeFile(metadataFilePath, JSON.stringify(metadata, null, 2))
 
 		// Create prompt file
 		const promptFilePath = path.join(expertDir, "prompt.md")
 		await fs.writeFile(promptFilePath, expert.prompt)
+		await recordExpertVersion(expertDir)
 	}
 
 	/**
-	 * Read all experts from the .hai-experts directory
+	 * Read the experts of every scope, an expert hides the experts with the same name in the scopes after it
 	 * @param workspacePath The workspace path
 	 * @returns Array of expert data
 	 */
 	async readExperts(workspacePath: string): Promise<ExpertData[]> {
-		if (!workspacePath) {
-			return []
+		const expertsByScope: ExpertData[][] = []
+		for (const { scope, directory } of this.getExpertsDirectories(workspacePath)) {
+			expertsByScope.push(await this.readExpertsDirectory(directory, scope))
 		}
+		return mergeExpertsByPrecedence(expertsByScope)
+	}
 
-		const expertsDir = path.join(workspacePath, GlobalFileNames.experts)
+	/**
+	 * Read all experts from an experts folder
+	 * @param expertsDir The experts folder
+	 * @param scope The scope of the folder
+	 * @returns Array of expert data
+	 */
+	private async readExpertsDirectory(expertsDir: string, scope: ExpertScope): Promise<ExpertData[]> {
 		if (!(await fileExistsAtPath(expertsDir))) {
 			return []
 		}
@@ -79,11 +134,22 @@ export class ExpertManager {
 							// Read prompt
 							const promptContent = await fs.readFile(promptPath, "utf-8")
 
+							// List the reference documents
+							const documentsDir = path.join(expertDir, expertDocumentsFolder)
+							const documents = (await listExpertDocuments(documentsDir)).map((filePath) =>
+								path.relative(documentsDir, filePath).split(path.sep).join("/"),
+							)
+
 							const expertData = {
 								name: metadata.name,
 								isDefault: metadata.isDefault,
 								prompt: promptContent,
 								createdAt: metadata.createdAt,
+								documents,
+								scope,
+								profile: metadata.profile,
+								tags: metadata.tags,
+								versions: await listExpertVersions(expertDir),
 							}
 
 							// Validate expert data with Zod schema
@@ -104,32 +170,88 @@ export class ExpertManager {
 
 			return experts
 		} catch (error) {
-			console.error("Failed to read experts directory:", error)
+			console.error(`Failed to read the ${scope} experts directory:`, error)
 			return []
 		}
 	}
 
 	/**
-	 * Delete an expert from the .hai-experts directory
+	 * Delete an expert, team experts are read-only
 	 * @param workspacePath The workspace path
 	 * @param expertName The name of the expert to delete
 	 */
 	async deleteExpert(workspacePath: string, expertName: string): Promise<void> {
-		if (!workspacePath) {
-			throw new Error("No workspace path provided")
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			return
+		}
+		assertWritable(expert.scope)
+
+		// Delete the entire expert directory
+		await fs.rm(expert.directory, { recursive: true, force: true })
+	}
+
+	/**
+	 * Get the path to the prompt.md file for a given expert
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @returns The path to the prompt.md file, or null if not found
+	 */
+	async getExpertPromptPath(workspacePath: string, expertName: string): Promise<string | null> {
+		const expertDir = await this.getExpertDirectory(workspacePath, expertName)
+		if (!expertDir) {
+			return null
+		}
+
+		const promptPath = path.join(expertDir, "prompt.md")
+		if (await fileExistsAtPath(promptPath)) {
+			return promptPath
 		}
+		return null
+	}
 
+	/**
+	 * Get the directory of a custom expert, in the first scope that has an expert with this name
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @returns The expert directory, or null if not found
+	 */
+	async getExpertDirectory(workspacePath: string, expertName: string): Promise<string | null> {
+		return (await this.findExpert(workspacePath, expertName))?.directory ?? null
+	}
+
+	/**
+	 * Find a custom expert, in the first scope that has an expert with this name
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @returns The scope and directory of the expert, or undefined if not found
+	 */
+	async findExpert(workspacePath: string, expertName: string): Promise<ExpertsDirectory | undefined> {
 		// Validate expert name
 		if (!expertName || typeof expertName !== "string") {
 			throw new Error("Expert name must be a non-empty string")
 		}
 
-		const expertsDir = path.join(workspacePath, GlobalFileNames.experts)
+		for (const { scope, directory } of this.getExpertsDirectories(workspacePath)) {
+			const expertDir = await this.findExpertInDirectory(directory, expertName)
+			if (expertDir) {
+				return { scope, directory: expertDir }
+			}
+		}
+		return undefined
+	}
+
+	/**
+	 * Find an expert folder by reading the metadata files of an experts folder
+	 * @param expertsDir The experts folder
+	 * @param expertName The name of the expert
+	 * @returns The expert directory, or null if not found
+	 */
+	private async findExpertInDirectory(expertsDir: string, expertName: string): Promise<string | null> {
 		if (!(await fileExistsAtPath(expertsDir))) {
-			return
+			return null
 		}
 
-		// Find the expert folder by reading metadata files
 		const expertFolders = await fs.readdir(expertsDir)
 
 		for (const folder of expertFolders) {
@@ -144,9 +266,7 @@ export class ExpertManager {
 						const metadata = JSON.parse(metadataContent)
 
 						if (metadata.name === expertName) {
-							// Delete the entire expert directory
-							await fs.rm(expertDir, { recursive: true, force: true })
-							return
+							return expertDir
 						}
 					} catch (error) {
 						console.error(`Failed to read metadata from ${folder}:`, error)
@@ -154,58 +274,238 @@ export class ExpertManager {
 				}
 			}
 		}
+
+		return null
 	}
 
 	/**
-	 * Get the path to the prompt.md file for a given expert
+	 * Copy reference documents into the docs folder of an expert, existing documents with the same name are replaced
 	 * @param workspacePath The workspace path
 	 * @param expertName The name of the expert
-	 * @returns The path to the prompt.md file, or null if not found
+	 * @param filePaths The documents to copy
 	 */
-	async getExpertPromptPath(workspacePath: string, expertName: string): Promise<string | null> {
-		if (!workspacePath) {
-			throw new Error("No workspace path provided")
+	async addExpertDocuments(workspacePath: string, expertName: string, filePaths: string[]): Promise<void> {
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			throw new Error(`Could not find the expert: ${expertName}`)
 		}
+		assertWritable(expert.scope)
 
-		// Validate expert name
-		if (!expertName || typeof expertName !== "string") {
-			throw new Error("Expert name must be a non-empty string")
+		const documentsDir = path.join(expert.directory, expertDocumentsFolder)
+		await fs.mkdir(documentsDir, { recursive: true })
+		for (const filePath of filePaths) {
+			await fs.copyFile(filePath, path.join(documentsDir, path.basename(filePath)))
 		}
+	}
 
-		const expertsDir = path.join(workspacePath, GlobalFileNames.experts)
-		if (!(await fileExistsAtPath(expertsDir))) {
-			return null
+	/**
+	 * Delete a reference document of an expert
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @param document The document, relative to the docs folder of the expert
+	 */
+	async deleteExpertDocument(workspacePath: string, expertName: string, document: string): Promise<void> {
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			return
 		}
+		assertWritable(expert.scope)
 
-		// Find the expert folder by reading metadata files
-		const expertFolders = await fs.readdir(expertsDir)
+		const documentsDir = path.join(expert.directory, expertDocumentsFolder)
+		const documentPath = path.resolve(documentsDir, document)
+		// Never delete files outside of the docs folder
+		if (!documentPath.startsWith(documentsDir + path.sep)) {
+			throw new Error(`Invalid document path: ${document}`)
+		}
+		await fs.rm(documentPath, { force: true })
+	}
 
-		for (const folder of expertFolders) {
-			const expertDir = path.join(expertsDir, folder)
-			const stats = await fs.stat(expertDir)
+	/**
+	 * Get the profile of a custom expert
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @returns The profile, or undefined if the expert is not found or has no valid profile
+	 */
+	async getExpertProfile(workspacePath: string, expertName: string): Promise<ExpertProfile | undefined> {
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			return undefined
+		}
+		try {
+			const metadata = JSON.parse(await fs.readFile(path.join(expert.directory, "metadata.json"), "utf-8"))
+			const validationResult = ExpertProfileSchema.safeParse(metadata.profile)
+			return validationResult.success ? (validationResult.data as ExpertProfile | undefined) : undefined
+		} catch (error) {
+			console.error(`Failed to read the profile of ${expertName}:`, error)
+			return undefined
+		}
+	}
 
-			if (stats.isDirectory()) {
-				const metadataPath = path.join(expertDir, "metadata.json")
-				if (await fileExistsAtPath(metadataPath)) {
-					try {
-						const metadataContent = await fs.readFile(metadataPath, "utf-8")
-						const metadata = JSON.parse(metadataContent)
+	/**
+	 * Save the profile of a custom expert to its metadata file, team experts are read-only
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @param profile The profile, an empty profile removes it
+	 */
+	async saveExpertProfile(workspacePath: string, expertName: string, profile: ExpertProfile): Promise<void> {
+		const validationResult = ExpertProfileSchema.safeParse(profile)
+		if (!validationResult.success) {
+			throw new Error(`Invalid expert profile: ${validationResult.error.message}`)
+		}
+		assertKnownTools(profile)
 
-						if (metadata.name === expertName) {
-							// Return the path to the prompt.md file
-							const promptPath = path.join(expertDir, "prompt.md")
-							if (await fileExistsAtPath(promptPath)) {
-								return promptPath
-							}
-							return null
-						}
-					} catch (error) {
-						console.error(`Failed to read metadata from ${folder}:`, error)
-					}
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			throw new Error(`Could not find the expert: ${expertName}`)
+		}
+		assertWritable(expert.scope)
+
+		const metadataFilePath = path.join(expert.directory, "metadata.json")
+		const metadata = JSON.parse(await fs.readFile(metadataFilePath, "utf-8"))
+		metadata.profile = Object.values(profile).some((value) => value !== undefined) ? profile : undefined
+		await fs.writeFile(metadataFilePath, JSON.stringify(metadata, null, 2))
+	}
+
+	/**
+	 * Get the version of a prompt of a custom expert, the prompt.md file is recorded first when it was changed
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @param prompt The prompt, usually the prompt of the selected expert
+	 * @returns The version, or undefined if the expert is not found or the prompt was never recorded
+	 */
+	async getExpertVersion(workspacePath: string, expertName: string, prompt: string): Promise<ExpertVersion | undefined> {
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			return undefined
+		}
+		// Team experts are read-only, their versions are recorded by the team
+		if (expert.scope !== "team") {
+			await recordExpertVersion(expert.directory)
+		}
+		return findExpertVersion(expert.directory, prompt)
+	}
+
+	/**
+	 * Restore the prompt of a version of a custom expert, team experts are read-only
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @param version The version to restore
+	 * @returns The new version with the restored prompt
+	 */
+	async rollbackExpert(workspacePath: string, expertName: string, version: number): Promise<ExpertVersion> {
+		const expert = await this.findExpert(workspacePath, expertName)
+		if (!expert) {
+			throw new Error(`Could not find the expert: ${expertName}`)
+		}
+		assertWritable(expert.scope)
+		return rollbackExpertVersion(expert.directory, version)
+	}
+
+	/**
+	 * Record a version of the prompt of a custom expert after it was edited
+	 * @param workspacePath The workspace path
+	 * @param filePath A saved file, ignored unless it is the prompt.md file of a workspace or global expert
+	 * @returns Whether a prompt of an expert was saved
+	 */
+	async recordExpertPromptChange(workspacePath: string, filePath: string): Promise<boolean> {
+		if (path.basename(filePath) !== "prompt.md") {
+			return false
+		}
+		const expertDir = path.dirname(filePath)
+		const isExpertPrompt = this.getExpertsDirectories(workspacePath).some(
+			({ scope, directory }) => scope !== "team" && path.dirname(expertDir) === directory,
+		)
+		if (!isExpertPrompt || !(await fileExistsAtPath(path.join(expertDir, "metadata.json")))) {
+			return false
+		}
+		await recordExpertVersion(expertDir)
+		return true
+	}
+
+	/**
+	 * Export an expert with its prompt and reference documents to a single archive
+	 * @param workspacePath The workspace path
+	 * @param expertName The name of the expert
+	 * @param archiveFile The archive to write
+	 */
+	async exportExpert(workspacePath: string, expertName: string, archiveFile: string): Promise<void> {
+		const expertDir = await this.getExpertDirectory(workspacePath, expertName)
+		if (!expertDir) {
+			throw new Error(`Could not find the expert: ${expertName}`)
+		}
+		await exportExpertArchive(expertDir, archiveFile)
+	}
+
+	/**
+	 * Import an expert archive into the experts folder of a scope
+	 * @param workspacePath The workspace path
+	 * @param archiveFile The archive exported by exportExpert
+	 * @param scope The scope to import the expert into, the workspace or global
+	 * @param confirmReplace Asked when the scope already has an expert with the same name
+	 * @returns The name of the imported expert, or undefined if the replacement was declined
+	 */
+	async importExpert(
+		workspacePath: string,
+		archiveFile: string,
+		scope: ExpertScope,
+		confirmReplace: (expertName: string) => Promise<boolean>,
+	): Promise<string | undefined> {
+		const expertsDir = this.getWritableExpertsDirectory(workspacePath, scope)
+		const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), "hai-expert-"))
+		try {
+			const expertName = await extractExpertArchive(archiveFile, stagingDir)
+
+			const existingDir = await this.findExpertInDirectory(expertsDir, expertName)
+			if (existingDir) {
+				if (!(await confirmReplace(expertName))) {
+					return undefined
 				}
+				await fs.rm(existingDir, { recursive: true, force: true })
+			}
+
+			// Don't overwrite another expert whose name maps to the same folder
+			let expertDir = path.join(expertsDir, getExpertFolderName(expertName))
+			for (let index = 2; await fileExistsAtPath(expertDir); index++) {
+				expertDir = path.join(expertsDir, `${getExpertFolderName(expertName)}_${index}`)
 			}
+			await fs.mkdir(expertsDir, { recursive: true })
+			await fs.cp(stagingDir, expertDir, { recursive: true })
+			return expertName
+		} finally {
+			await fs.rm(stagingDir, { recursive: true, force: true })
 		}
+	}
 
-		return null
+	/**
+	 * Get the experts folder new experts of a scope are written to
+	 * @param workspacePath The workspace path
+	 * @param scope The scope of the experts
+	 * @returns The experts folder
+	 */
+	private getWritableExpertsDirectory(workspacePath: string, scope: ExpertScope): string {
+		assertWritable(scope)
+		const directory = this.getExpertsDirectories(workspacePath).find((directory) => directory.scope === scope)?.directory
+		if (!directory) {
+			throw new Error(scope === "workspace" ? "No workspace path provided" : "The global storage is not available")
+		}
+		return directory
+	}
+}
+
+// Create a sanitized folder name from the expert name
+function getExpertFolderName(expertName: string): string {
+	return expertName.replace(/[^a-zA-Z0-9_-]/g, "_").toLowerCase()
+}
+
+function assertWritable(scope: ExpertScope) {
+	if (scope === "team") {
+		throw new Error("Team experts are read-only, change them in the shared experts folder")
+	}
+}
+
+function assertKnownTools(profile: ExpertProfile) {
+	const unknownTools = findUnknownExpertTools(profile)
+	if (unknownTools.length > 0) {
+		throw new Error(`Unknown tools in the expert profile: ${unknownTools.join(", ")}`)
 	}
 }
@@ -0,0 +1,72 @@
+import { describe, it } from "mocha"
+import "should"
+import { DEFAULT_AUTO_APPROVAL_SETTINGS } from "../../shared/AutoApprovalSettings"
+import {
+	applyExpertAutoApproval,
+	applyExpertModel,
+	findUnknownExpertTools,
+	formatExpertToolRestrictions,
+	isToolAllowedByExpert,
+} from "./ExpertProfile"
+
+describe("ExpertProfile", () => {
+	it("should let forbidden tools take precedence over the allowed tools", () => {
+		const reviewer = { allowedTools: ["read_file", "write_to_file", "search_files"], forbiddenTools: ["write_to_file"] }
+
+		isToolAllowedByExpert(reviewer, "read_file").should.be.true()
+		isToolAllowedByExpert(reviewer, "write_to_file").should.be.false()
+		isToolAllowedByExpert(reviewer, "execute_command").should.be.false()
+		isToolAllowedByExpert(reviewer, "attempt_completion").should.be.true()
+		isToolAllowedByExpert({ forbiddenTools: ["execute_command"] }, "browser_action").should.be.true()
+		isToolAllowedByExpert(undefined, "write_to_file").should.be.true()
+	})
+
+	it("should report the unknown tools and describe the unavailable ones", () => {
+		findUnknownExpertTools({ allowedTools: ["read_file", "write_file"], forbiddenTools: ["write_file"] }).should.eql([
+			"write_file",
+		])
+		formatExpertToolRestrictions({ forbiddenTools: ["write_to_file", "replace_in_file"] })!.should.containEql(
+			"any use of them is rejected: write_to_file, replace_in_file.",
+		)
+		;(formatExpertToolRestrictions({ forbiddenTools: ["attempt_completion"] }) === undefined).should.be.true()
+	})
+
+	it("should store the model of the profile in the field of its provider", () => {
+		const apiConfiguration = { apiProvider: "anthropic" as const, apiModelId: "claude-3-7-sonnet-20250219" }
+
+		applyExpertModel(apiConfiguration, { apiProvider: "openrouter", apiModelId: "openai/gpt-4o" }).should.eql({
+			apiProvider: "openrouter",
+			apiModelId: "claude-3-7-sonnet-20250219",
+			openRouterModelId: "openai/gpt-4o",
+			openRouterModelInfo: undefined,
+		})
+		applyExpertModel(apiConfiguration, { apiModelId: "claude-3-5-haiku-20241022" }).should.eql({
+			apiProvider: "anthropic",
+			apiModelId: "claude-3-5-haiku-20241022",
+		})
+		applyExpertModel(apiConfiguration, { forbiddenTools: ["write_to_file"] }).should.equal(apiConfiguration)
+	})
+
+	it("should only let the profile narrow the auto-approval settings of the user", () => {
+		const settings = {
+			...DEFAULT_AUTO_APPROVAL_SETTINGS,
+			enabled: true,
+			actions: { ...DEFAULT_AUTO_APPROVAL_SETTINGS.actions, readFiles: true, editFiles: true },
+		}
+
+		applyExpertAutoApproval(settings, {
+			actions: { editFiles: false, executeCommands: true, readFiles: undefined },
+			maxRequests: 50,
+		}).should.eql({
+			enabled: true,
+			actions: { readFiles: true, editFiles: false, executeCommands: false, useBrowser: false, useMcp: false },
+			maxRequests: 20,
+			enableNotifications: false,
+		})
+		applyExpertAutoApproval(DEFAULT_AUTO_APPROVAL_SETTINGS, {
+			enabled: true,
+			actions: { executeCommands: true },
+		}).enabled.should.be.false()
+		applyExpertAutoApproval(settings, { maxRequests: 5 }).maxRequests.should.equal(5)
+	})
+})
@@ -0,0 +1,103 @@
+import { ApiConfiguration } from "../../shared/api"
+import { AutoApprovalSettings } from "../../shared/AutoApprovalSettings"
+import { ExpertAutoApprovalSettings, ExpertProfile } from "../../shared/customApi"
+import { toolUseNames } from "../assistant-message"
+
+// tools ending or steering the conversation, an expert can't forbid them
+const conversationTools = ["ask_followup_question", "plan_mode_respond", "attempt_completion"]
+
+/**
+ * Whether the selected expert lets the model use a tool: forbidden tools take precedence over the allowed
+ * tools, and every tool is allowed when the profile has no allowed tools.
+ */
+export function isToolAllowedByExpert(profile: ExpertProfile | undefined, toolName: string): boolean {
+	if (!profile || conversationTools.includes(toolName)) {
+		return true
+	}
+	if (profile.forbiddenTools?.includes(toolName)) {
+		return false
+	}
+	return !profile.allowedTools?.length || profile.allowedTools.includes(toolName)
+}
+
+/**
+ * Tools of the profile that don't exist, to reject the typos of hand written profiles.
+ */
+export function findUnknownExpertTools(profile: ExpertProfile): string[] {
+	const tools = [...(profile.allowedTools ?? []), ...(profile.forbiddenTools ?? [])]
+	return [...new Set(tools.filter((tool) => !(toolUseNames as readonly string[]).includes(tool)))]
+}
+
+/**
+ * Tool restrictions of the profile for the system prompt, so the model doesn't plan around tools it can't use.
+ */
+export function formatExpertToolRestrictions(profile: ExpertProfile | undefined): string | undefined {
+	const unavailableTools = toolUseNames.filter((tool) => !isToolAllowedByExpert(profile, tool))
+	if (unavailableTools.length === 0) {
+		return undefined
+	}
+	return `\n\n====\n\nEXPERT TOOL RESTRICTIONS\n\nThe selected expert is not allowed to use the following tools, any use of them is rejected: ${unavailableTools.join(", ")}. Accomplish the task with the other tools, or explain to the user what is needed.`
+}
+
+/**
+ * API configuration with the provider and model of the profile. The model is stored in the field of its
+ * provider, the model of the user settings is kept when the profile only sets the provider.
+ */
+export function applyExpertModel(apiConfiguration: ApiConfiguration, profile: ExpertProfile | undefined): ApiConfiguration {
+	if (!profile?.apiProvider && !profile?.apiModelId) {
+		return apiConfiguration
+	}
+	const apiProvider = profile.apiProvider ?? apiConfiguration.apiProvider
+	const configuration: ApiConfiguration = { ...apiConfiguration, apiProvider }
+	if (!profile.apiModelId) {
+		return configuration
+	}
+	switch (apiProvider) {
+		case "openrouter":
+		case "cline":
+			// the model info of the user settings describes another model
+			return { ...configuration, openRouterModelId: profile.apiModelId, openRouterModelInfo: undefined }
+		case "openai":
+			return { ...configuration, openAiModelId: profile.apiModelId }
+		case "ollama":
+			return { ...configuration, ollamaModelId: profile.apiModelId }
+		case "lmstudio":
+			return { ...configuration, lmStudioModelId: profile.apiModelId }
+		case "litellm":
+			return { ...configuration, liteLlmModelId: profile.apiModelId }
+		case "requesty":
+			return { ...configuration, requestyModelId: profile.apiModelId }
+		case "together":
+			return { ...configuration, togetherModelId: profile.apiModelId }
+		case "vscode-lm":
+			// the model is a selector, not an id
+			return configuration
+		default:
+			return { ...configuration, apiModelId: profile.apiModelId }
+	}
+}
+
+/**
+ * Auto-approval settings of the user restricted by the profile. Profiles of workspace and team experts come from
+ * other people, so a profile can only turn auto-approval or actions off and lower the max requests, never widen them.
+ */
+export function applyExpertAutoApproval(
+	settings: AutoApprovalSettings,
+	override: ExpertAutoApprovalSettings | undefined,
+): AutoApprovalSettings {
+	if (!override) {
+		return settings
+	}
+	const actions = Object.fromEntries(
+		Object.entries(settings.actions).map(([action, isEnabled]) => [
+			action,
+			isEnabled && override.actions?.[action as keyof AutoApprovalSettings["actions"]] !== false,
+		]),
+	) as AutoApprovalSettings["actions"]
+	return {
+		enabled: settings.enabled && override.enabled !== false,
+		actions,
+		maxRequests: Math.min(settings.maxRequests, override.maxRequests ?? settings.maxRequests),
+		enableNotifications: override.enableNotifications ?? settings.enableNotifications,
+	}
+}
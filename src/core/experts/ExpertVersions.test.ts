@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import {
+	findExpertVersion,
+	listExpertVersions,
+	readExpertVersion,
+	recordExpertVersion,
+	rollbackExpertVersion,
+} from "./ExpertVersions"
+
+describe("ExpertVersions", () => {
+	let expertDir: string
+
+	beforeEach(() => {
+		expertDir = mkdtempSync(join(tmpdir(), "expert-versions-"))
+		writeFileSync(join(expertDir, "prompt.md"), "Review the code")
+	})
+
+	afterEach(() => {
+		rmSync(expertDir, { recursive: true, force: true })
+	})
+
+	it("should only record a version when the prompt changed", async () => {
+		;(await recordExpertVersion(expertDir)).version.should.equal(1)
+		;(await recordExpertVersion(expertDir)).version.should.equal(1)
+
+		writeFileSync(join(expertDir, "prompt.md"), "Review the code and the tests")
+		;((await findExpertVersion(expertDir, "Review the code and the tests")) === undefined).should.be.true()
+		;(await recordExpertVersion(expertDir)).version.should.equal(2)
+		;(await listExpertVersions(expertDir)).map(({ version }) => version).should.eql([1, 2])
+		;(await readExpertVersion(expertDir, 1)).should.equal("Review the code")
+		;(await findExpertVersion(expertDir, "Review the code"))!.version.should.equal(1)
+	})
+
+	it("should roll back to a version by recording it again", async () => {
+		await recordExpertVersion(expertDir)
+		writeFileSync(join(expertDir, "prompt.md"), "Review the code and the tests")
+
+		const restored = await rollbackExpertVersion(expertDir, 1)
+
+		restored.version.should.equal(3)
+		readFileSync(join(expertDir, "prompt.md"), "utf-8").should.equal("Review the code")
+		;(await readExpertVersion(expertDir, 2)).should.equal("Review the code and the tests")
+		await rollbackExpertVersion(expertDir, 9).should.be.rejectedWith("Version 9 of the expert does not exist")
+	})
+})
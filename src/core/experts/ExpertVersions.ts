@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto"
+import { existsSync } from "node:fs"
+import fs from "node:fs/promises"
+import { join } from "node:path"
+import { findLast } from "../../shared/array"
+import { ExpertVersion } from "../../shared/customApi"
+
+// prompt of every version of an expert, next to its metadata
+export const expertVersionsFolder = ".versions"
+const versionsFileName = "versions.json"
+
+/**
+ * Versions of the prompt of an expert, the oldest first. Experts created before versioning have none
+ * until their prompt is recorded.
+ */
+export async function listExpertVersions(expertDir: string): Promise<ExpertVersion[]> {
+	const versionsPath = join(expertDir, expertVersionsFolder, versionsFileName)
+	if (!existsSync(versionsPath)) {
+		return []
+	}
+	try {
+		const versions = JSON.parse(await fs.readFile(versionsPath, "utf-8"))
+		return Array.isArray(versions) ? versions : []
+	} catch (error) {
+		console.error(`Failed to read the versions of the expert at ${expertDir}:`, error)
+		return []
+	}
+}
+
+/**
+ * Saves the current prompt of an expert as a new version when it differs from the latest version, and
+ * returns the version of the current prompt.
+ */
+export async function recordExpertVersion(expertDir: string): Promise<ExpertVersion> {
+	const prompt = await fs.readFile(join(expertDir, "prompt.md"), "utf-8")
+	const versions = await listExpertVersions(expertDir)
+	const latest = versions.at(-1)
+	if (latest?.hash === hashPrompt(prompt)) {
+		return latest
+	}
+
+	const version: ExpertVersion = { version: (latest?.version ?? 0) + 1, createdAt: Date.now(), hash: hashPrompt(prompt) }
+	await fs.mkdir(join(expertDir, expertVersionsFolder), { recursive: true })
+	await fs.writeFile(join(expertDir, expertVersionsFolder, `${version.version}.md`), prompt)
+	await fs.writeFile(join(expertDir, expertVersionsFolder, versionsFileName), JSON.stringify([...versions, version], null, 2))
+	return version
+}
+
+/**
+ * Latest version of an expert with this prompt, the prompt of a selected expert is a copy of its
+ * prompt.md file at the time it was selected. Undefined when the prompt was never recorded.
+ */
+export async function findExpertVersion(expertDir: string, prompt: string): Promise<ExpertVersion | undefined> {
+	const hash = hashPrompt(prompt)
+	return findLast(await listExpertVersions(expertDir), (version) => version.hash === hash)
+}
+
+export async function readExpertVersion(expertDir: string, version: number): Promise<string> {
+	const versionPath = join(expertDir, expertVersionsFolder, `${version}.md`)
+	if (!Number.isInteger(version) || !existsSync(versionPath)) {
+		throw new Error(`Version ${version} of the expert does not exist`)
+	}
+	return fs.readFile(versionPath, "utf-8")
+}
+
+/**
+ * Restores the prompt of a version. The restored prompt is recorded as a new version, so that the
+ * history is never rewritten.
+ */
+export async function rollbackExpertVersion(expertDir: string, version: number): Promise<ExpertVersion> {
+	// keep the current prompt if it was changed since the latest version
+	await recordExpertVersion(expertDir)
+	await fs.writeFile(join(expertDir, "prompt.md"), await readExpertVersion(expertDir, version))
+	return recordExpertVersion(expertDir)
+}
+
+function hashPrompt(prompt: string): string {
+	return createHash("sha1").update(prompt).digest("hex")
+}
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { detectWorkspaceTechnologies } from "./WorkspaceTechnologies"
+
+describe("detectWorkspaceTechnologies", () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "workspace-technologies-"))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should detect the languages and frameworks of the manifest files", async () => {
+		writeFileSync(
+			join(directory, "package.json"),
+			JSON.stringify({ dependencies: { react: "^18.0.0" }, devDependencies: { typescript: "^5.0.0" } }),
+		)
+		writeFileSync(join(directory, "requirements.txt"), "Django==5.0\nrequests\n")
+		writeFileSync(join(directory, "Api.csproj"), "<Project />")
+		writeFileSync(join(directory, "main.tf"), "")
+
+		const technologies = await detectWorkspaceTechnologies(directory)
+
+		technologies
+			.sort()
+			.should.eql(["csharp", "django", "dotnet", "javascript", "node", "python", "react", "terraform", "typescript"])
+		;(await detectWorkspaceTechnologies(join(directory, "missing"))).should.eql([])
+	})
+})
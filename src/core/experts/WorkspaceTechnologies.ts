@@ -0,0 +1,98 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+// technologies of the manifest files at the root of the workspace
+const manifestTechnologies: Record<string, string[]> = {
+	"package.json": ["node", "javascript"],
+	"tsconfig.json": ["typescript"],
+	"pom.xml": ["java", "maven"],
+	"build.gradle": ["java", "gradle"],
+	"build.gradle.kts": ["kotlin", "gradle"],
+	"go.mod": ["golang"],
+	"Cargo.toml": ["rust"],
+	"requirements.txt": ["python"],
+	"pyproject.toml": ["python"],
+	Pipfile: ["python"],
+	Gemfile: ["ruby"],
+	"composer.json": ["php"],
+	"pubspec.yaml": ["dart", "flutter"],
+	Dockerfile: ["docker"],
+	"docker-compose.yml": ["docker"],
+	"docker-compose.yaml": ["docker"],
+}
+
+// technologies of the files with these extensions at the root of the workspace
+const extensionTechnologies: Record<string, string[]> = {
+	".csproj": ["dotnet", "csharp"],
+	".fsproj": ["dotnet", "fsharp"],
+	".sln": ["dotnet"],
+	".tf": ["terraform"],
+}
+
+// frameworks of the dependencies of a package.json file
+const packageFrameworks: Record<string, string> = {
+	react: "react",
+	next: "nextjs",
+	vue: "vue",
+	"@angular/core": "angular",
+	svelte: "svelte",
+	express: "express",
+	"@nestjs/core": "nestjs",
+	typescript: "typescript",
+}
+
+// frameworks of the content of other manifest files
+const contentFrameworks: { file: string; pattern: RegExp; technology: string }[] = [
+	{ file: "pom.xml", pattern: /spring-boot/, technology: "spring" },
+	{ file: "build.gradle", pattern: /spring-boot/, technology: "spring" },
+	{ file: "build.gradle.kts", pattern: /spring-boot/, technology: "spring" },
+	{ file: "requirements.txt", pattern: /^django\b/im, technology: "django" },
+	{ file: "requirements.txt", pattern: /^flask\b/im, technology: "flask" },
+	{ file: "requirements.txt", pattern: /^fastapi\b/im, technology: "fastapi" },
+	{ file: "pyproject.toml", pattern: /\bdjango\b/i, technology: "django" },
+	{ file: "pyproject.toml", pattern: /\bflask\b/i, technology: "flask" },
+	{ file: "pyproject.toml", pattern: /\bfastapi\b/i, technology: "fastapi" },
+]
+
+/**
+ * Languages and frameworks of a workspace, detected from the manifest files at its root
+ * (package.json, pom.xml, go.mod...). Only the root is read so that the detection stays fast on
+ * large repositories.
+ */
+export async function detectWorkspaceTechnologies(workspacePath: string): Promise<string[]> {
+	let entries: string[]
+	try {
+		entries = await fs.readdir(workspacePath)
+	} catch (error) {
+		return []
+	}
+
+	const technologies = new Set<string>()
+	for (const entry of entries) {
+		manifestTechnologies[entry]?.forEach((technology) => technologies.add(technology))
+		extensionTechnologies[path.extname(entry)]?.forEach((technology) => technologies.add(technology))
+	}
+
+	if (entries.includes("package.json")) {
+		try {
+			const { dependencies, devDependencies } = JSON.parse(
+				await fs.readFile(path.join(workspacePath, "package.json"), "utf-8"),
+			)
+			const packages = Object.keys({ ...dependencies, ...devDependencies })
+			packages.forEach((name) => packageFrameworks[name] && technologies.add(packageFrameworks[name]))
+		} catch (error) {
+			console.warn("Failed to read the dependencies of package.json:", error)
+		}
+	}
+
+	for (const file of new Set(contentFrameworks.map(({ file }) => file))) {
+		if (!entries.includes(file)) {
+			continue
+		}
+		const content = await fs.readFile(path.join(workspacePath, file), "utf-8").catch(() => "")
+		contentFrameworks
+			.filter((framework) => framework.file === file && framework.pattern.test(content))
+			.forEach(({ technology }) => technologies.add(technology))
+	}
+	return [...technologies]
+}
@@ -1,3 +1,5 @@
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+
 export const customToolsPrompt = (enabled: boolean) =>
 	!enabled
 		? ""
@@ -13,6 +15,19 @@ Usage:
     <task>User's given task here</task>
 </find_relevant_files>
 
+## semantic_search
+Description: Request to search the code index for the code most related to a natural language query. Returns the best matching code chunks, each with its file path, line range, match score and the code itself, so you can often answer questions or plan changes without reading whole files. Use this to find where something is implemented or how it is used when you don't know the exact names to search for with \`search_files\`. Read the file with \`read_file\` when you need more than the returned lines.
+Parameters:
+- query: (required) A natural language description of the code you are looking for, e.g. "where are user sessions validated".
+- path: (optional) The path of a file or directory (relative to the current working directory, or starting with the name of another workspace folder) to restrict the search to.
+- limit: (optional) The maximum number of chunks to return. Defaults to ${HaiBuildDefaults.defaultSemanticSearchLimit}.
+Usage:
+<semantic_search>
+<query>Description of the code here</query>
+<path>Directory path here (optional)</path>
+<limit>Number of results here (optional)</limit>
+</semantic_search>
+
 ## code_security_scan
 Description: Request to perform a security scan on the generated code for OWASP Top 10 vulnerabilities and security issues. This tool will analyze all the files that are modified for potential security risks and provide a report. The tool is specialized in scanning code for security vulnerabilities, so use it wisely don't assume that that the code is free from vulnerabilities.
 Usage:
@@ -32,6 +47,7 @@ export const customCapabilitiesPrompt = (enabled: boolean) =>
 		: `
 - The initial list of of all filepaths given to you inside environment_details is not-exhaustive; it may not include all possible files or directories. So when the user initially gives you a task, you should consider using the \`find_relevant_files\` tool to locate the relevant files, so the probability of finding the most relevant files apart from the initial list of filepaths provided is higher since the initial list may not cover all possibilities.
 - You should always use the \`find_relevant_files\` tool when the user initially provide the task. Even though the initial list of filepaths given inside the environment_details may sufficient to get the tak done, you should prioritize finding the most relevant files for the task at hand before using any other tools. This ensures that you are working with the most accurate and up-to-date information available, which can lead to better outcomes for the user's task. If \`find_relevant_files\` the tool returns an empty list of files, you can ignore the result and continue with the task.
+- You can use the \`semantic_search\` tool to look up the parts of the codebase related to a question or a step of the task. It returns only the matching code with its line ranges, which saves reading large files in full; use \`read_file\` afterwards only when you need the surrounding code.
 - You should always use the \`code_security_scan\` tool before whenever you use the tool \`attempt_completion\` to ensure the generated code is secure and free from vulnerabilities, don't assume that the code is free from vulnerabilities you should prioritize security scan before attempting to complete the task. If there any vulnerabilities found, you must address them before completing the task. Before fixing the vulnerabilities, you should always get the user's approval before proceeding with the fixing process.
 - Always ensure that the code you generate adheres to best practices and security standards to minimize risks and vulnerabilities.
 `
@@ -11,6 +11,9 @@ export const formatResponse = {
 	clineIgnoreError: (path: string) =>
 		`Access to ${path} is blocked by the .haiignore file settings. You must try to continue in the task without using this file, or ask the user to update the .haiignore file.`,
 
+	expertToolForbiddenError: (toolName: string) =>
+		`The selected expert is not allowed to use the ${toolName} tool. You must try to continue in the task without using this tool, or ask the user to select another expert.`,
+
 	noToolsUsed: () =>
 		`[ERROR] You did not use a tool in your previous response! Please retry with a tool use.
 
@@ -39,6 +39,7 @@ export type GlobalStateKey =
 	| "lastShownAnnouncementId"
 	| "customInstructions"
 	| "expertPrompt"
+	| "expertName"
 	| "taskHistory"
 	| "openAiBaseUrl"
 	| "openAiModelId"
@@ -173,6 +173,7 @@ export async function getAllExtensionState(context: vscode.ExtensionContext, wor
 		lastShownAnnouncementId,
 		customInstructions,
 		expertPrompt,
+		expertName,
 		taskHistory,
 		autoApprovalSettings,
 		browserSettings,
@@ -260,6 +261,7 @@ export async function getAllExtensionState(context: vscode.ExtensionContext, wor
 		customGetState(context, "lastShownAnnouncementId") as Promise<string | undefined>,
 		customGetState(context, "customInstructions") as Promise<string | undefined>,
 		customGetState(context, "expertPrompt") as Promise<string | undefined>,
+		customGetState(context, "expertName") as Promise<string | undefined>,
 		customGetState(context, "taskHistory") as Promise<HistoryItem[] | undefined>,
 		customGetState(context, "autoApprovalSettings") as Promise<AutoApprovalSettings | undefined>,
 		customGetState(context, "browserSettings") as Promise<BrowserSettings | undefined>,
@@ -425,6 +427,7 @@ export async function getAllExtensionState(context: vscode.ExtensionContext, wor
 		lastShownAnnouncementId,
 		customInstructions,
 		expertPrompt,
+		expertName,
 		isHaiRulesPresent,
 		taskHistory,
 		buildContextOptions: buildContextOptions ?? {
@@ -47,16 +47,17 @@ import {
 	ClinePlanModeResponse,
 	ClineSay,
 	ClineSayBrowserAction,
+	ClineSayExpertKnowledge,
 	ClineSayTool,
 	COMPLETION_RESULT_CHANGES_FLAG,
 } from "../../shared/ExtensionMessage"
 import { getApiMetrics } from "../../shared/getApiMetrics"
-import { HistoryItem } from "../../shared/HistoryItem"
+import { HistoryItem, HistoryItemExpert } from "../../shared/HistoryItem"
 import { DEFAULT_LANGUAGE_SETTINGS, getLanguageKey, LanguageDisplay } from "../../shared/Languages"
 import { ClineAskResponse, ClineCheckpointRestore } from "../../shared/WebviewMessage"
 import { calculateApiCostAnthropic } from "../../utils/cost"
 import { fileExistsAtPath, isDirectory } from "../../utils/fs"
-import { arePathsEqual, getReadablePath } from "../../utils/path"
+import { arePathsEqual, getReadablePath, getWorkspaceFolderPaths } from "../../utils/path"
 import { fixModelHtmlEscaping, removeInvalidChars } from "../../utils/string"
 import { AssistantMessageContent, parseAssistantMessage, ToolParamName, ToolUse, ToolUseName } from ".././assistant-message"
 import { constructNewFileContent } from ".././assistant-message/diff"
@@ -77,13 +78,25 @@ import {
 	saveApiConversationHistory,
 	saveClineMessages,
 } from "../storage/disk"
-import { HaiBuildContextOptions } from "../../shared/customApi"
+import { ExpertProfile, HaiAcceptanceCheck, HaiBuildContextOptions } from "../../shared/customApi"
 import { EmbeddingConfiguration } from "../../shared/embeddings"
 import { haiSystemPrompt } from "../prompts/system.hai"
 import { isCommandIncludedInSecretScanning, isSecretFile } from "../../integrations/secret-scanning"
 import { FindFilesToEditAgent } from "../../integrations/code-prep/FindFilesToEditAgent"
+import { groupFilesByWorkspaceFolder } from "../../integrations/code-prep/helper"
+import { isSummaryContextMode, readRepoSummary } from "../../integrations/code-prep/CodeSummary"
+import { formatSemanticSearchResults, SemanticSearchAgent } from "../../integrations/code-prep/SemanticSearchAgent"
 import { buildTreeString } from "../../utils/customFs"
 import { CodeScanner } from "../../integrations/security/code-scan"
+import { formatDiffSet, parseAcceptanceCriteria, verifyAcceptanceCriteria } from "../../integrations/acceptance-verification"
+import { getChangedFiles } from "../../integrations/misc/hai-story-report"
+import { formatExpertKnowledge } from "../experts/ExpertKnowledge"
+import {
+	applyExpertAutoApproval,
+	applyExpertModel,
+	formatExpertToolRestrictions,
+	isToolAllowedByExpert,
+} from "../experts/ExpertProfile"
 
 const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0) ?? path.join(os.homedir(), "Desktop") // may or may not exist but fs checking existence would immediately ask for permission which would be bad UX, need to come up with a better solution
 
@@ -100,7 +113,7 @@ export class Task {
 	contextManager: ContextManager
 	private didEditFile: boolean = false
 	customInstructions?: string
-	autoApprovalSettings: AutoApprovalSettings
+	private userAutoApprovalSettings: AutoApprovalSettings
 	browserSettings: BrowserSettings
 	chatSettings: ChatSettings
 	apiConversationHistory: Anthropic.MessageParam[] = []
@@ -140,6 +153,9 @@ export class Task {
 
 	// HAI variables
 	expertPrompt?: string
+	expertProfile?: ExpertProfile
+	activeExpert?: HistoryItemExpert
+	private expertsUsed: HistoryItemExpert[] = []
 	buildContextOptions?: HaiBuildContextOptions
 	private task?: string
 	private apiConfiguration: ApiConfiguration
@@ -155,6 +171,8 @@ export class Task {
 		embeddingConfiguration: EmbeddingConfiguration,
 		customInstructions?: string,
 		expertPrompt?: string,
+		expertProfile?: ExpertProfile,
+		activeExpert?: HistoryItemExpert,
 		task?: string,
 		images?: string[],
 		historyItem?: HistoryItem,
@@ -171,12 +189,14 @@ export class Task {
 		this.contextManager = new ContextManager()
 		this.diffViewProvider = new DiffViewProvider(cwd)
 		this.customInstructions = customInstructions
-		this.autoApprovalSettings = autoApprovalSettings
+		this.userAutoApprovalSettings = autoApprovalSettings
 		this.browserSettings = browserSettings
 		this.chatSettings = chatSettings
 
 		// HAI variable initialization
 		this.expertPrompt = expertPrompt
+		this.expertProfile = expertProfile
+		this.activeExpert = activeExpert
 		this.apiConfiguration = apiConfiguration
 		this.embeddingConfiguration = embeddingConfiguration
 
@@ -184,6 +204,7 @@ export class Task {
 		if (historyItem) {
 			this.taskId = historyItem.id
 			this.conversationHistoryDeletedRange = historyItem.conversationHistoryDeletedRange
+			this.expertsUsed = historyItem.experts ?? []
 		} else if (task || images) {
 			this.taskId = Date.now().toString()
 		} else {
@@ -192,7 +213,7 @@ export class Task {
 
 		// Now that taskId is initialized, we can build the API handler
 		this.api = buildApiHandler({
-			...apiConfiguration,
+			...applyExpertModel(apiConfiguration, expertProfile),
 			taskId: this.taskId,
 		})
 
@@ -212,6 +233,39 @@ export class Task {
 		}
 	}
 
+	// The auto-approval settings of the user, with the override of the selected expert
+	get autoApprovalSettings(): AutoApprovalSettings {
+		return applyExpertAutoApproval(this.userAutoApprovalSettings, this.expertProfile?.autoApprovalSettings)
+	}
+
+	set autoApprovalSettings(autoApprovalSettings: AutoApprovalSettings) {
+		this.userAutoApprovalSettings = autoApprovalSettings
+	}
+
+	updateApiConfiguration(apiConfiguration: ApiConfiguration) {
+		this.apiConfiguration = apiConfiguration
+		this.api = buildApiHandler({
+			...applyExpertModel(apiConfiguration, this.expertProfile),
+			taskId: this.taskId,
+		})
+	}
+
+	updateExpertProfile(expertProfile?: ExpertProfile) {
+		this.expertProfile = expertProfile
+		this.updateApiConfiguration(this.apiConfiguration)
+	}
+
+	// Record the expert used by a request, once per change of expert or version
+	private trackActiveExpert() {
+		const lastExpert = this.expertsUsed.at(-1)
+		if (
+			this.activeExpert &&
+			(lastExpert?.name !== this.activeExpert.name || lastExpert?.version !== this.activeExpert.version)
+		) {
+			this.expertsUsed.push(this.activeExpert)
+		}
+	}
+
 	// While a task is ref'd by a controller, it will always have access to the extension context
 	// This error is thrown if the controller derefs the task after e.g., aborting the task
 	private getContext(): vscode.ExtensionContext {
@@ -280,6 +334,7 @@ export class Task {
 				size: taskDirSize,
 				shadowGitConfigWorkTree: await this.checkpointTracker?.getShadowGitConfigWorkTree(),
 				conversationHistoryDeletedRange: this.conversationHistoryDeletedRange,
+				experts: this.expertsUsed.length > 0 ? this.expertsUsed : undefined,
 			})
 		} catch (error) {
 			console.error("Failed to save cline messages:", error)
@@ -865,6 +920,8 @@ export class Task {
 
 		await this.overwriteClineMessages(modifiedClineMessages)
 		this.clineMessages = await getSavedClineMessages(this.getContext(), this.taskId)
+		// the files edited before the task was resumed, so their changes can still be committed
+		getChangedFiles(this.clineMessages).forEach((file) => this.filesEditedByAI.add(path.resolve(cwd, file)))
 
 		// Now present the cline messages to the user and ask if they want to resume (NOTE: we ran into a bug before where the apiconversationhistory wouldnt be initialized when opening a old task, and it was because we were waiting for resume)
 		// This is important in case the user deletes messages without resuming the task first
@@ -1210,9 +1267,11 @@ export class Task {
 			supportsCodeIndex,
 			mcpHub,
 			this.browserSettings,
-			this.buildContextOptions?.systemPromptVersion,
+			this.expertProfile?.systemPromptVersion ?? this.buildContextOptions?.systemPromptVersion,
 			this.expertPrompt,
 		)
+		systemPrompt += formatExpertToolRestrictions(this.expertProfile) ?? ""
+		this.trackActiveExpert()
 		let settingsCustomInstructions = this.customInstructions?.trim()
 		const preferredLanguage = getLanguageKey(
 			vscode.workspace.getConfiguration("hai").get<LanguageDisplay>("preferredLanguage"),
@@ -1345,6 +1404,7 @@ export class Task {
 
 				const errorMessage = this.formatErrorWithStatusCode(error)
 
+				await this.pauseHaiStoryRun("The API request failed")
 				const { response } = await this.ask("api_req_failed", errorMessage)
 
 				if (response !== "yesButtonClicked") {
@@ -1554,6 +1614,7 @@ export class Task {
 							await this.say("user_feedback", text, images)
 						}
 						this.didRejectTool = true // Prevent further tool uses in this message
+						await this.pauseHaiStoryRun("An action was rejected")
 						return false
 					} else {
 						// User hit the approve button, and may have provided feedback
@@ -1613,6 +1674,14 @@ export class Task {
 					return text.replace(tagRegex, "")
 				}
 
+				if (!isToolAllowedByExpert(this.expertProfile, block.name)) {
+					if (!block.partial) {
+						await this.say("error", `The selected expert is not allowed to use the ${block.name} tool.`)
+						pushToolResult(formatResponse.toolError(formatResponse.expertToolForbiddenError(block.name)))
+					}
+					break
+				}
+
 				if (block.name !== "browser_action") {
 					await this.browserSession.closeBrowser()
 				}
@@ -1820,6 +1889,7 @@ export class Task {
 										}
 										this.didRejectTool = true
 										didApprove = false
+										await this.pauseHaiStoryRun("An action was rejected")
 										telemetryService.captureToolUsage(this.taskId, block.name, false, false)
 									} else {
 										// User hit the approve button, and may have provided feedback
@@ -1839,6 +1909,7 @@ export class Task {
 								const { newProblemsMessage, userEdits, autoFormattingEdits, finalContent } =
 									await this.diffViewProvider.saveChanges()
 								this.didEditFile = true // used to determine if we should wait for busy terminal to update before sending api request
+								this.filesEditedByAI.add(path.resolve(cwd, relPath))
 								if (userEdits) {
 									await this.say(
 										"user_feedback_diff",
@@ -2931,6 +3002,9 @@ export class Task {
 									await addNewChangesFlagToLastCompletionResultMessage()
 									telemetryService.captureTaskCompleted(this.taskId)
 								}
+								// after the command of the completion ran, its output is evidence for the acceptance criteria
+								// and the next task of a story run must not start while the command waits for approval
+								await this.onHaiTaskCompleted(result)
 
 								// we already sent completion_result says, an empty string asks relinquishes control over button and field
 								const { response, text, images } = await this.ask("completion_result", "", false)
@@ -3021,6 +3095,7 @@ export class Task {
 					message: "HAI is having trouble. Would you like to continue the task?",
 				})
 			}
+			await this.pauseHaiStoryRun("HAI is having trouble completing the task")
 			const { response, text, images } = await this.ask(
 				"mistake_limit_reached",
 				this.api.getModel().id.includes("claude")
@@ -3107,8 +3182,13 @@ export class Task {
 			}
 		}
 
+		const expertKnowledge = await this.getExpertKnowledge(userContent)
 		const [parsedUserContent, environmentDetails] = await this.loadContext(userContent, includeFileDetails)
 		userContent = parsedUserContent
+		if (expertKnowledge) {
+			userContent.push({ type: "text", text: formatExpertKnowledge(expertKnowledge.expertName, expertKnowledge.passages) })
+			await this.say("expert_knowledge", JSON.stringify(expertKnowledge satisfies ClineSayExpertKnowledge))
+		}
 		// add environment details as its own text block, separate from tool results
 		userContent.push({ type: "text", text: environmentDetails })
 
@@ -3328,7 +3408,7 @@ export class Task {
 					embeddingProvider: this.embeddingConfiguration.provider,
 					...this.api.getModel().info,
 				},
-				this.buildContextOptions?.systemPromptVersion,
+				this.expertProfile?.systemPromptVersion ?? this.buildContextOptions?.systemPromptVersion,
 			)
 
 			// need to call here in case the stream was aborted
@@ -3412,6 +3492,32 @@ export class Task {
 		}
 	}
 
+	/**
+	 * Passages of the reference documents of the active expert relevant to what the user wrote, requests
+	 * with only tool results don't retrieve anything.
+	 */
+	private async getExpertKnowledge(userContent: UserContent): Promise<ClineSayExpertKnowledge | undefined> {
+		const query = userContent
+			.flatMap((block) =>
+				block.type === "text"
+					? Array.from(
+							block.text.matchAll(/<(task|feedback|answer|user_message)>([\s\S]*?)<\/\1>/g),
+							(match) => match[2],
+						)
+					: [],
+			)
+			.join("\n")
+		if (!query.trim()) {
+			return undefined
+		}
+		try {
+			return await this.controllerRef.deref()?.getExpertKnowledge(query)
+		} catch (error) {
+			console.error("Failed to retrieve the reference documents of the expert", error)
+			return undefined
+		}
+	}
+
 	async loadContext(userContent: UserContent, includeFileDetails: boolean = false) {
 		return await Promise.all([
 			// This is a temporary solution to dynamically load context mentions from tool results. It checks for the presence of tags that indicate that the tool was rejected and feedback was provided (see formatToolDeniedFeedback, attemptCompletion, executeCommand, and consecutiveMistakeCount >= 3) or "<answer>" (see askFollowupQuestion), we place all user generated content in these tags so they can effectively be used as markers for when we should parse mentions). However if we allow multiple tools responses in the future, we will need to parse mentions specifically within the user content tags.
@@ -3593,6 +3699,13 @@ export class Task {
 				const result = formatResponse.formatFilesList(cwd, files, didHitLimit, this.clineIgnoreController)
 				details += result
 			}
+
+			// rolled up from the file and directory summaries of the code context
+			const repoSummary =
+				this.buildContextOptions && isSummaryContextMode(this.buildContextOptions) ? readRepoSummary(cwd) : undefined
+			if (repoSummary) {
+				details += `\n\n# Repository Summary\n${repoSummary}`
+			}
 		}
 
 		details += "\n\n# Current Mode"
@@ -3607,12 +3720,81 @@ export class Task {
 
 	// HAI functions
 
+	private async onHaiTaskCompleted(result: string) {
+		const controller = this.controllerRef.deref()
+		await controller?.updateHaiTaskStatusByHistoryTaskId(this.taskId, "completed")
+		// not awaited, the verification is a request to the model of its own, the completion is shown without waiting for it
+		const verification = this.verifyHaiTaskAcceptance(result)
+			.then(async (acceptanceChecks) => {
+				if (acceptanceChecks) {
+					await controller?.updateHaiTaskAcceptanceChecks(this.taskId, acceptanceChecks)
+				}
+			})
+			.catch((error) => console.error("Failed to verify the acceptance criteria of the HAI task", error))
+		await controller?.writeBackHaiTaskOutcome(this.taskId, {
+			status: "completed",
+			summary: result,
+			filesChanged: getChangedFiles(this.clineMessages),
+		})
+		const checkpointHash = findLast(this.clineMessages, (m) => m.say === "completion_result")?.lastCheckpointHash
+		// the next task of a story run replaces this task, it only starts once the verification has updated the messages of this task
+		verification.then(() => controller?.completeHaiStoryRunTask(this.taskId, result, checkpointHash))
+	}
+
+	/**
+	 * Checks the acceptance criteria of the HAI task this task was started from against the changes of the task
+	 * and the output of its commands, the checklist is shown in the completion row.
+	 */
+	private async verifyHaiTaskAcceptance(result: string): Promise<HaiAcceptanceCheck[] | undefined> {
+		const acceptance = await this.controllerRef.deref()?.getHaiTaskAcceptance(this.taskId)
+		const criteria = parseAcceptanceCriteria(acceptance ?? "")
+		const completionMessage = findLast(this.clineMessages, (m) => m.say === "completion_result")
+		if (criteria.length === 0 || !completionMessage) {
+			return undefined
+		}
+
+		let diff: string | undefined
+		const firstCheckpointHash = this.clineMessages.find((m) => m.say === "checkpoint_created")?.lastCheckpointHash
+		if (this.checkpointTracker && firstCheckpointHash) {
+			try {
+				diff = formatDiffSet(
+					await this.checkpointTracker.getDiffSet(firstCheckpointHash, completionMessage.lastCheckpointHash),
+				)
+			} catch (error) {
+				console.error("Failed to get the diff of the task for the acceptance criteria", error)
+			}
+		}
+		const commandOutputs = combineCommandSequences(this.clineMessages)
+			.filter((m) => m.ask === "command" || m.say === "command")
+			.map((m) => m.text ?? "")
+
+		const acceptanceChecks = await verifyAcceptanceCriteria(this.api, { criteria, result, diff, commandOutputs })
+		if (this.abort) {
+			// the task was closed or replaced while the model verified it, its messages are saved already
+			return undefined
+		}
+		completionMessage.acceptanceChecks = acceptanceChecks
+		await this.saveClineMessagesAndUpdateHistory()
+		await this.controllerRef.deref()?.postStateToWebview()
+		return acceptanceChecks
+	}
+
+	getFilesEditedByAI(): string[] {
+		return Array.from(this.filesEditedByAI)
+	}
+
+	private async pauseHaiStoryRun(reason: string) {
+		await this.controllerRef.deref()?.pauseHaiStoryRun(this.taskId, reason)
+	}
+
 	customToolUseDescriptionHandlers(block: ToolUse) {
 		switch (block.name) {
 			case "find_relevant_files":
 				return `[${block.name} for '${block.params.path}']`
 			case "code_security_scan":
 				return `[${block.name}']`
+			case "semantic_search":
+				return `[${block.name} for '${block.params.query}']`
 			default:
 				return ""
 		}
@@ -3646,21 +3828,48 @@ export class Task {
 						break
 					} else {
 						if (this.buildContextOptions && this.task) {
+							const workspaceFolders = getWorkspaceFolderPaths()
 							const findFilesAgent = new FindFilesToEditAgent(
-								cwd.toPosix(),
+								workspaceFolders.length > 1 ? workspaceFolders : [cwd.toPosix()],
 								this.apiConfiguration,
 								this.embeddingConfiguration,
 								this.buildContextOptions,
 								this.task,
 							)
 							const relevantFiles = await findFilesAgent.start()
-							await this.say(
-								"tool",
-								completeMessage(`Found ${relevantFiles.length} files\n\n` + buildTreeString(relevantFiles, cwd)),
-								undefined,
-								false,
-							)
-							pushToolResult(relevantFiles.toString())
+							if (workspaceFolders.length > 1) {
+								// label the files with their workspace folder, each folder has its own index
+								const filesByFolder = groupFilesByWorkspaceFolder(relevantFiles, workspaceFolders)
+								const folderTrees = Array.from(filesByFolder)
+									.filter(([, files]) => files.length > 0)
+									.map(([folder, files]) => `${path.basename(folder)}\n${buildTreeString(files, folder)}`)
+								await this.say(
+									"tool",
+									completeMessage(`Found ${relevantFiles.length} files\n\n` + folderTrees.join("\n")),
+									undefined,
+									false,
+								)
+								const folderNames = new Map(
+									Array.from(filesByFolder).flatMap(([folder, files]) =>
+										files.map((file) => [file, path.basename(folder)] as const),
+									),
+								)
+								pushToolResult(
+									relevantFiles
+										.map((file) => (folderNames.has(file) ? `[${folderNames.get(file)}] ${file}` : file))
+										.join("\n"),
+								)
+							} else {
+								await this.say(
+									"tool",
+									completeMessage(
+										`Found ${relevantFiles.length} files\n\n` + buildTreeString(relevantFiles, cwd),
+									),
+									undefined,
+									false,
+								)
+								pushToolResult(relevantFiles.toString())
+							}
 						} else {
 							await this.say("tool", completeMessage("No relevant files found"), undefined, false)
 							pushToolResult("No files found")
@@ -3717,6 +3926,61 @@ export class Task {
 					break
 				}
 			}
+			case "semantic_search": {
+				const query: string | undefined = block.params.query
+				const relPath: string | undefined = block.params.path
+				const sharedMessageProps: ClineSayTool = {
+					tool: "semanticSearch",
+					path: getReadablePath(cwd, block.partial ? undefined : relPath),
+				}
+				const completeMessage = (content: string) =>
+					JSON.stringify({
+						...sharedMessageProps,
+						content: content,
+					} satisfies ClineSayTool)
+				try {
+					if (block.partial) {
+						await this.ask("tool", completeMessage(""), block.partial).catch(() => {})
+						break
+					}
+					if (!query) {
+						this.consecutiveMistakeCount++
+						pushToolResult(await this.sayAndCreateMissingParamError("semantic_search", "query"))
+						break
+					}
+					this.consecutiveMistakeCount = 0
+					if (!this.buildContextOptions?.useIndex) {
+						const message = "The code index is disabled, use `search_files` or `read_file` instead."
+						await this.say("tool", completeMessage(message), undefined, false)
+						pushToolResult(message)
+						break
+					}
+					const limit = parseInt(block.params.limit ?? "", 10)
+					const workspaceFolders = getWorkspaceFolderPaths()
+					const semanticSearchAgent = new SemanticSearchAgent(
+						workspaceFolders.length > 1 ? workspaceFolders : [cwd.toPosix()],
+						this.embeddingConfiguration,
+						this.buildContextOptions,
+					)
+					const results = await semanticSearchAgent.search(query, {
+						limit: limit > 0 ? limit : undefined,
+						path: relPath,
+						isAccessible: (filePath) => this.clineIgnoreController.validateAccess(filePath),
+					})
+					const resultString = formatSemanticSearchResults(results, cwd)
+					await this.say(
+						"tool",
+						completeMessage(`Found ${results.length} code chunks matching '${query}'\n\n` + resultString),
+						undefined,
+						false,
+					)
+					pushToolResult(resultString)
+					break
+				} catch (error) {
+					await handleError("searching the code index", error)
+					break
+				}
+			}
 		}
 	}
 }
@@ -137,6 +137,10 @@ export class WebviewProvider implements vscode.WebviewViewProvider {
 						// Update state when marketplace tab setting changes
 						await this.controller.postStateToWebview()
 					}
+					if (e && e.affectsConfiguration("hai.experts.sharedFolder")) {
+						// Reload the experts from the new team folder
+						await this.controller.loadExperts()
+					}
 				},
 				null,
 				this.disposables,
@@ -37,6 +37,7 @@ export function activate(context: vscode.ExtensionContext) {
 	Logger.log("HAI extension activated")
 
 	const sidebarWebview = new WebviewProvider(context, outputChannel)
+	sidebarWebview.controller.pauseInterruptedHaiStoryRun()
 
 	vscode.commands.executeCommand("setContext", "hai.isDevMode", IS_DEV && IS_DEV === "true")
 
@@ -291,6 +292,148 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 	)
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand("hai.index.inspect", async (webview: any) => {
+			const openCodeIndex = async (instance?: WebviewProvider) => {
+				await instance?.controller.postMessageToWebview({
+					type: "action",
+					action: "codeIndexButtonClicked",
+				})
+			}
+			const isSidebar = !webview
+			if (isSidebar) {
+				await vscode.commands.executeCommand("hai.SidebarProvider.focus")
+				openCodeIndex(WebviewProvider.getSidebarInstance())
+			} else {
+				WebviewProvider.getTabInstances().forEach(openCodeIndex)
+			}
+		}),
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("hai.index.query", async () => {
+			const controller = (WebviewProvider.getVisibleInstance() ?? WebviewProvider.getSidebarInstance())?.controller
+			if (!controller) {
+				return
+			}
+			const query = await vscode.window.showInputBox({
+				title: "Query Code Index",
+				prompt: "Describe the code you are looking for, the closest chunks in the code index are listed",
+			})
+			if (!query) {
+				return
+			}
+			try {
+				const results = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: "HAI: Querying the code index..." },
+					() => controller.queryCodeIndex(query),
+				)
+				if (results.length === 0) {
+					vscode.window.showInformationMessage("No matching code found in the code index.")
+					return
+				}
+				const selected = await vscode.window.showQuickPick(
+					results.map((result) => ({
+						label: `${vscode.workspace.asRelativePath(result.path)}${result.startLine ? `:${result.startLine}-${result.endLine}` : ""}`,
+						description: `score ${result.score.toFixed(3)}${result.symbolName ? ` · ${result.symbolKind} ${result.symbolName}` : ""}`,
+						detail: result.snippet
+							.split("\n")
+							.find((line) => line.trim())
+							?.trim(),
+						result,
+					})),
+					{ title: `Code index results for "${query}"`, matchOnDescription: true, matchOnDetail: true },
+				)
+				if (selected) {
+					const { path, startLine, endLine } = selected.result
+					const selection = startLine
+						? new vscode.Range(startLine - 1, 0, (endLine ?? startLine) - 1, Number.MAX_SAFE_INTEGER)
+						: undefined
+					await vscode.window.showTextDocument(vscode.Uri.file(path), { preview: true, selection })
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to query the code index: ${error.message}`)
+			}
+		}),
+	)
+
+	const registerIndexCommand = (command: string, type: "startIndex" | "stopIndex" | "resetIndex") =>
+		context.subscriptions.push(
+			vscode.commands.registerCommand(command, async () => {
+				const controller = (WebviewProvider.getVisibleInstance() ?? WebviewProvider.getSidebarInstance())?.controller
+				await controller?.handleWebviewMessage({ type })
+			}),
+		)
+	registerIndexCommand("hai.index.start", "startIndex")
+	registerIndexCommand("hai.index.stop", "stopIndex")
+	registerIndexCommand("hai.index.reindex", "resetIndex")
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("hai.index.export", async () => {
+			const controller = (WebviewProvider.getVisibleInstance() ?? WebviewProvider.getSidebarInstance())?.controller
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+			if (!controller || !workspaceFolder) {
+				return
+			}
+			const snapshotUri = await vscode.window.showSaveDialog({
+				title: "Export Code Index Snapshot",
+				defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, `${workspaceFolder.name}.hai-index.tar.gz`),
+				filters: { "Code index snapshot": ["gz"] },
+			})
+			if (!snapshotUri) {
+				return
+			}
+			try {
+				const manifest = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: "HAI: Exporting the code index..." },
+					() => controller.exportCodeIndexSnapshot(snapshotUri.fsPath),
+				)
+				vscode.window.showInformationMessage(
+					`Code index exported (${manifest.embeddingModel}${manifest.commit ? `, commit ${manifest.commit.slice(0, 7)}` : ""}).`,
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to export the code index: ${error.message}`)
+			}
+		}),
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("hai.index.import", async () => {
+			const controller = (WebviewProvider.getVisibleInstance() ?? WebviewProvider.getSidebarInstance())?.controller
+			if (!controller) {
+				return
+			}
+			const [snapshotUri] =
+				(await vscode.window.showOpenDialog({
+					title: "Import Code Index Snapshot",
+					canSelectMany: false,
+					filters: { "Code index snapshot": ["gz"] },
+				})) ?? []
+			if (!snapshotUri) {
+				return
+			}
+			const confirmation = await vscode.window.showWarningMessage(
+				"Importing a snapshot replaces the code index of this workspace. Files that differ from the snapshot are re-embedded afterwards.",
+				"Import",
+				"Cancel",
+			)
+			if (confirmation !== "Import") {
+				return
+			}
+			try {
+				const manifest = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: "HAI: Importing the code index..." },
+					() => controller.importCodeIndexSnapshot(snapshotUri.fsPath),
+				)
+				vscode.window.showInformationMessage(
+					`Code index imported (${manifest.embeddingModel}${manifest.commit ? `, exported at commit ${manifest.commit.slice(0, 7)}` : ""}).`,
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to import the code index: ${error.message}`)
+			}
+		}),
+	)
+
 	// Register size testing commands in development mode
 	if (IS_DEV && IS_DEV === "true") {
 		// Use dynamic import to avoid loading the module in production
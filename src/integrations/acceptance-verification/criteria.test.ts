@@ -0,0 +1,45 @@
+import { describe, it } from "mocha"
+import "should"
+import { buildAcceptanceVerificationPrompt, formatDiffSet, parseAcceptanceChecks, parseAcceptanceCriteria } from "./criteria"
+
+describe("acceptance verification", () => {
+	it("should split the acceptance text into criteria", () => {
+		parseAcceptanceCriteria(
+			["- The form validates the email", "  and shows the errors", "* [x] It logs in", "", "2) It remembers the user"].join(
+				"\n",
+			),
+		).should.eql(["The form validates the email and shows the errors", "It logs in", "It remembers the user"])
+		parseAcceptanceCriteria("Returns a token\nExpires after an hour").should.eql(["Returns a token", "Expires after an hour"])
+		parseAcceptanceCriteria("  ").should.eql([])
+	})
+
+	it("should build the prompt from the evidence", () => {
+		const diff = formatDiffSet([{ relativePath: "src/login.ts", before: "a\n", after: "b\n" }])
+		diff.should.containEql("--- src/login.ts").and.containEql("-a\n+b")
+		formatDiffSet([{ relativePath: "a.ts", before: "", after: "x".repeat(100) }], 10).should.endWith("(diff truncated)")
+
+		const prompt = buildAcceptanceVerificationPrompt({
+			criteria: ["It logs in", "It logs out"],
+			result: "Added the login",
+			diff,
+			commandOutputs: [],
+		})
+		prompt.should.containEql("1. It logs in\n2. It logs out")
+		prompt.should.containEql("(no commands were run)")
+	})
+
+	it("should read the verdicts and default the others to unknown", () => {
+		const criteria = ["It logs in", "It logs out", "It remembers the user"]
+		parseAcceptanceChecks(
+			'Here you go: [{"index": 2, "status": "fail", "evidence": "npm test fails"}, {"index": 1, "status": "pass"}, {"index": 3, "status": "maybe"}]',
+			criteria,
+		).should.eql([
+			{ criterion: "It logs in", status: "pass", evidence: undefined },
+			{ criterion: "It logs out", status: "fail", evidence: "npm test fails" },
+			{ criterion: "It remembers the user", status: "unknown" },
+		])
+		parseAcceptanceChecks("not json", criteria)
+			.map(({ status }) => status)
+			.should.eql(["unknown", "unknown", "unknown"])
+	})
+})
@@ -0,0 +1,94 @@
+import * as diff from "diff"
+import { HaiAcceptanceCheck, HaiAcceptanceCheckStatus } from "../../shared/customApi"
+
+export type AcceptanceEvidence = {
+	criteria: string[]
+	result: string
+	// unified diff of the task changes, undefined when checkpoints are not available
+	diff?: string
+	// commands run by the task, each followed by its output
+	commandOutputs: string[]
+}
+
+const maxDiffLength = 40_000
+const maxCommandOutputLength = 4_000
+const maxCommandOutputs = 10
+
+const statuses: HaiAcceptanceCheckStatus[] = ["pass", "fail", "unknown"]
+
+/**
+ * Splits the acceptance text of a HAI task into criteria: one per line, without list markers.
+ * Continuation lines indented below a list item are joined to it.
+ */
+export function parseAcceptanceCriteria(acceptance: string): string[] {
+	const criteria: string[] = []
+	let isListItem = false
+	for (const line of acceptance.split(/\r?\n/)) {
+		if (!line.trim()) {
+			continue
+		}
+		const item = line.match(/^\s*(?:[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)(.*)$/)
+		if (item) {
+			criteria.push(item[1].trim())
+			isListItem = true
+		} else if (isListItem && /^\s/.test(line)) {
+			criteria[criteria.length - 1] += ` ${line.trim()}`
+		} else {
+			criteria.push(line.trim())
+			isListItem = false
+		}
+	}
+	return criteria.filter(Boolean)
+}
+
+export function formatDiffSet(
+	diffSet: { relativePath: string; before: string; after: string }[],
+	maxLength: number = maxDiffLength,
+): string {
+	const patch = diffSet
+		.map(({ relativePath, before, after }) => diff.createTwoFilesPatch(relativePath, relativePath, before, after))
+		.join("\n")
+	return patch.length > maxLength ? `${patch.slice(0, maxLength)}\n... (diff truncated)` : patch
+}
+
+export function buildAcceptanceVerificationPrompt({ criteria, result, diff, commandOutputs }: AcceptanceEvidence): string {
+	const outputs = commandOutputs
+		.slice(-maxCommandOutputs)
+		.map((output) => (output.length > maxCommandOutputLength ? `... ${output.slice(-maxCommandOutputLength)}` : output))
+	return [
+		`<acceptance_criteria>\n${criteria.map((criterion, index) => `${index + 1}. ${criterion}`).join("\n")}\n</acceptance_criteria>`,
+		`<completion_summary>\n${result}\n</completion_summary>`,
+		`<diff>\n${diff || "(no diff available)"}\n</diff>`,
+		`<command_outputs>\n${outputs.join("\n\n") || "(no commands were run)"}\n</command_outputs>`,
+	].join("\n\n")
+}
+
+/**
+ * Reads the verdicts of the model, criteria without a valid verdict are "unknown".
+ */
+export function parseAcceptanceChecks(response: string, criteria: string[]): HaiAcceptanceCheck[] {
+	const checks: HaiAcceptanceCheck[] = criteria.map((criterion) => ({ criterion, status: "unknown" }))
+	const json = response.match(/\[[\s\S]*\]/)?.[0]
+	let verdicts: unknown
+	try {
+		verdicts = json ? JSON.parse(json) : undefined
+	} catch {
+		verdicts = undefined
+	}
+	if (!Array.isArray(verdicts)) {
+		return checks.map((check) => ({ ...check, evidence: "The verification response could not be read" }))
+	}
+
+	verdicts.forEach((verdict, position) => {
+		const index = typeof verdict?.index === "number" ? verdict.index - 1 : position
+		if (!checks[index] || !statuses.includes(verdict?.status)) {
+			return
+		}
+		checks[index] = {
+			criterion: checks[index].criterion,
+			status: verdict.status,
+			evidence: typeof verdict.evidence === "string" && verdict.evidence.trim() ? verdict.evidence.trim() : undefined,
+		}
+	})
+	return checks
+}
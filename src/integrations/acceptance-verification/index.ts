@@ -0,0 +1,28 @@
+import { ApiHandler } from "../../api"
+import { HaiAcceptanceCheck } from "../../shared/customApi"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { getApiStreamResponse } from "../code-prep/helper"
+import { AcceptanceEvidence, buildAcceptanceVerificationPrompt, parseAcceptanceChecks } from "./criteria"
+
+export * from "./criteria"
+
+/**
+ * Asks the model of the task whether the acceptance criteria are met, all criteria are "unknown" when the request fails.
+ */
+export async function verifyAcceptanceCriteria(api: ApiHandler, evidence: AcceptanceEvidence): Promise<HaiAcceptanceCheck[]> {
+	try {
+		const response = await getApiStreamResponse(
+			api.createMessage(HaiBuildDefaults.defaultAcceptanceVerificationSystemPrompt, [
+				{ role: "user", content: buildAcceptanceVerificationPrompt(evidence) },
+			]),
+		)
+		return parseAcceptanceChecks(response, evidence.criteria)
+	} catch (error) {
+		console.error("Failed to verify the acceptance criteria", error)
+		return evidence.criteria.map((criterion) => ({
+			criterion,
+			status: "unknown",
+			evidence: `The verification failed: ${error instanceof Error ? error.message : String(error)}`,
+		}))
+	}
+}
@@ -0,0 +1,71 @@
+import { describe, it } from "mocha"
+import "should"
+import { chunkCodeBySymbols } from "./CodeChunker"
+
+const source = [
+	'import { join } from "path"', // 1
+	"", // 2
+	"export class Greeter {", // 3
+	"	greet(name: string) {", // 4
+	"		return `Hello ${name}`", // 5
+	"	}", // 6
+	"", // 7
+	"	wave() {", // 8
+	'		return "o/"', // 9
+	"	}", // 10
+	"}", // 11
+	"", // 12
+	"export function main() {", // 13
+	'	return new Greeter().greet("world")', // 14
+	"}", // 15
+].join("\n")
+
+const symbols = [
+	{ name: "Greeter", kind: "class", startLine: 2, endLine: 10 },
+	{ name: "greet", kind: "method", startLine: 3, endLine: 5 },
+	{ name: "wave", kind: "method", startLine: 7, endLine: 9 },
+	{ name: "main", kind: "function", startLine: 12, endLine: 14 },
+]
+
+describe("chunkCodeBySymbols", () => {
+	it("should emit one chunk per top level symbol when it fits", () => {
+		const chunks = chunkCodeBySymbols(source, symbols, 1000)
+		chunks
+			.map(({ startLine, endLine, symbolName }) => ({ startLine, endLine, symbolName }))
+			.should.eql([
+				{ startLine: 1, endLine: 2, symbolName: undefined },
+				{ startLine: 3, endLine: 11, symbolName: "Greeter" },
+				{ startLine: 13, endLine: 15, symbolName: "main" },
+			])
+		chunks[1].symbolKind!.should.equal("class")
+	})
+
+	it("should split an oversized class on its methods", () => {
+		const chunks = chunkCodeBySymbols(source, symbols, 80)
+		chunks
+			.map(({ startLine, endLine, symbolName }) => `${symbolName ?? "-"}:${startLine}-${endLine}`)
+			.should.eql(["-:1-2", "Greeter:3-3", "greet:4-6", "wave:8-10", "Greeter:11-11", "main:13-15"])
+	})
+
+	it("should fall back to line based chunks without symbols", () => {
+		const chunks = chunkCodeBySymbols(source, [], 100)
+		chunks.length.should.be.above(1)
+		chunks.forEach((chunk) => chunk.text.length.should.be.belowOrEqual(100))
+		chunks
+			.map((chunk) => chunk.text)
+			.join("\n")
+			.should.equal(source)
+	})
+
+	it("should cut lines longer than the chunk size", () => {
+		const chunks = chunkCodeBySymbols("x".repeat(25), [], 10)
+		chunks.map((chunk) => chunk.text.length).should.eql([10, 10, 5])
+		chunks.forEach((chunk) => chunk.startLine.should.equal(1))
+	})
+
+	it("should skip blank gaps", () => {
+		chunkCodeBySymbols("\n\nfunction a() {}\n\n", [{ name: "a", kind: "function", startLine: 2, endLine: 2 }], 100)
+			.map((chunk) => chunk.symbolName)
+			.should.eql(["a"])
+	})
+})
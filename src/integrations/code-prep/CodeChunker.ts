@@ -0,0 +1,141 @@
+import type { SourceCodeSymbol } from "../../services/tree-sitter"
+
+export interface CodeChunk {
+	text: string
+	// 1-based, inclusive
+	startLine: number
+	endLine: number
+	symbolName?: string
+	symbolKind?: string
+}
+
+/**
+ * Splits a file into chunks that follow its function, method and class boundaries.
+ *
+ * Every top level symbol becomes its own chunk when it fits in `maxChunkSize` characters.
+ * Larger symbols are split on their nested symbols (i.e. a class on its methods) and, failing
+ * that, on line boundaries. Code between symbols (imports, top level statements) is chunked
+ * on line boundaries. Without symbols this is a plain line based splitter, so it also serves
+ * as the fallback for languages tree-sitter can't parse.
+ *
+ * @param fileContent - The content of the file to split.
+ * @param symbols - Symbols from `parseSourceCodeSymbols`, with 0-based line numbers.
+ * @param maxChunkSize - The maximum number of characters in a chunk.
+ * @returns The chunks in file order, with 1-based line ranges.
+ */
+export function chunkCodeBySymbols(fileContent: string, symbols: SourceCodeSymbol[], maxChunkSize: number): CodeChunk[] {
+	const lines = fileContent.split("\n")
+	const sortedSymbols = [...symbols]
+		.filter((symbol) => symbol.startLine >= 0 && symbol.endLine < lines.length && symbol.startLine <= symbol.endLine)
+		.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine)
+
+	return chunkRange(lines, 0, lines.length - 1, sortedSymbols, maxChunkSize)
+}
+
+function chunkRange(
+	lines: string[],
+	startLine: number,
+	endLine: number,
+	symbols: SourceCodeSymbol[],
+	maxChunkSize: number,
+	parent?: SourceCodeSymbol,
+): CodeChunk[] {
+	const chunks: CodeChunk[] = []
+	let cursor = startLine
+	let index = 0
+
+	while (index < symbols.length) {
+		const symbol = symbols[index]
+		// symbols nested in this one are handled when (and if) this symbol is split
+		const nested: SourceCodeSymbol[] = []
+		index++
+		while (index < symbols.length && symbols[index].startLine <= symbol.endLine) {
+			if (symbols[index].endLine <= symbol.endLine) {
+				nested.push(symbols[index])
+			}
+			index++
+		}
+
+		if (symbol.startLine < cursor) {
+			// overlaps with the previous symbol, i.e. a decorator captured twice
+			continue
+		}
+
+		if (symbol.startLine > cursor) {
+			chunks.push(...splitLines(lines, cursor, symbol.startLine - 1, maxChunkSize, parent))
+		}
+
+		const text = lines.slice(symbol.startLine, symbol.endLine + 1).join("\n")
+		if (text.length <= maxChunkSize) {
+			chunks.push(toChunk(text, symbol.startLine, symbol.endLine, symbol))
+		} else if (nested.length > 0) {
+			chunks.push(...chunkRange(lines, symbol.startLine, symbol.endLine, nested, maxChunkSize, symbol))
+		} else {
+			chunks.push(...splitLines(lines, symbol.startLine, symbol.endLine, maxChunkSize, symbol))
+		}
+		cursor = symbol.endLine + 1
+	}
+
+	if (cursor <= endLine) {
+		chunks.push(...splitLines(lines, cursor, endLine, maxChunkSize, parent))
+	}
+
+	return chunks
+}
+
+function splitLines(
+	lines: string[],
+	startLine: number,
+	endLine: number,
+	maxChunkSize: number,
+	symbol?: SourceCodeSymbol,
+): CodeChunk[] {
+	const chunks: CodeChunk[] = []
+	let buffer: string[] = []
+	let bufferStart = startLine
+	let bufferSize = 0
+
+	const flush = (lastLine: number) => {
+		const text = buffer.join("\n")
+		if (text.trim()) {
+			chunks.push(toChunk(text, bufferStart, lastLine, symbol))
+		}
+		buffer = []
+		bufferSize = 0
+	}
+
+	for (let line = startLine; line <= endLine; line++) {
+		const text = lines[line]
+		if (bufferSize > 0 && bufferSize + text.length + 1 > maxChunkSize) {
+			flush(line - 1)
+		}
+		if (bufferSize === 0) {
+			bufferStart = line
+		}
+		if (text.length > maxChunkSize) {
+			// a single minified or generated line, cut it into pieces on the same line number
+			for (let offset = 0; offset < text.length; offset += maxChunkSize) {
+				buffer.push(text.slice(offset, offset + maxChunkSize))
+				flush(line)
+				bufferStart = line
+			}
+			continue
+		}
+		buffer.push(text)
+		bufferSize += text.length + 1
+	}
+	if (bufferSize > 0) {
+		flush(endLine)
+	}
+
+	return chunks
+}
+
+function toChunk(text: string, startLine: number, endLine: number, symbol?: SourceCodeSymbol): CodeChunk {
+	return {
+		text,
+		startLine: startLine + 1,
+		endLine: endLine + 1,
+		...(symbol ? { symbolName: symbol.name, symbolKind: symbol.kind } : {}),
+	}
+}
@@ -1,14 +1,27 @@
-import { appendFileSync, createWriteStream, existsSync, readFileSync, writeFileSync } from "node:fs"
-import { basename, dirname, extname, join } from "node:path"
+import { appendFileSync, createWriteStream, existsSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { basename, dirname, extname, join, relative, sep } from "node:path"
 import EventEmitter from "node:events"
 import { isBinaryFileSync } from "isbinaryfile"
 import { ApiConfiguration } from "../../shared/api"
 import { HaiBuildContextOptions } from "../../shared/customApi"
 import { ApiStreamChunk } from "../../api/transform/stream"
 import { buildApiHandler } from "../../api"
-import { createDirectoryIfNotExists, ensureGitignorePattern, exponentialBackoff, getCodeFiles } from "./helper"
+import {
+	createDirectoryIfNotExists,
+	ensureGitignorePattern,
+	exponentialBackoff,
+	getApiStreamResponse,
+	getCodeFiles,
+} from "./helper"
 import { HaiBuildDefaults } from "../../shared/haiDefaults"
 import { createHash } from "node:crypto"
+import {
+	collectDirectorySummaryInputs,
+	formatDirectorySummaryInputs,
+	getDirectorySummaryPath,
+	getFileSummaryPath,
+	isSummaryContextMode,
+} from "./CodeSummary"
 
 export class CodeContextAdditionAgent extends EventEmitter {
 	private srcFolder!: string
@@ -112,6 +125,16 @@ export class CodeContextAdditionAgent extends EventEmitter {
 			return
 		}
 
+		const fileContent = readFileSync(codeFilePath, "utf-8")
+
+		const fileContentHashMD5 = this.hashFileContent(fileContent, codeFilePath)
+
+		const llmApi = buildApiHandler(this.llmApiConfig)
+
+		if (isSummaryContextMode(this.buildContextOptions)) {
+			return this.summarizeFile(codeFilePath, fileContent, fileContentHashMD5, llmApi)
+		}
+
 		// Destination folder path
 		const destinationFolderPath = join(this.srcFolder, this.contextDir)
 
@@ -122,19 +145,11 @@ export class CodeContextAdditionAgent extends EventEmitter {
 
 		const fileName = basename(codeFilePath, extname(codeFilePath))
 
-		const fileContent = readFileSync(codeFilePath, "utf-8")
-
-		const fileContentHashMD5 = createHash("md5")
-			.update(JSON.stringify({ fileContent, filePath: codeFilePath }))
-			.digest("hex")
-
 		const userPrompt = `
         Application content: ${this.buildContextOptions.appContext}
         File name: ${fileName} 
         <CODE>${fileContent}</CODE>`
 
-		const llmApi = buildApiHandler(this.llmApiConfig)
-
 		createDirectoryIfNotExists(dirname(destinationFilePath))
 
 		// TODO: Figure out the way to calculate the token based on the selected model
@@ -144,8 +159,7 @@ export class CodeContextAdditionAgent extends EventEmitter {
 		// const encoding = encodingForModel("gpt-4o")
 		// const tokenLength = encoding.encode(fileContent).length
 
-		// TODO: `4096` is arbitrary, we need to figure out the optimal value for this. incase of `getModel` returns `null`
-		const maxToken = llmApi.getModel().info.maxTokens ?? 4096 * 4 // 1 token ~= 4 char
+		const maxToken = this.getMaxInputLength(llmApi)
 
 		if (fileContent.length > maxToken) {
 			console.log(`Skipping ${fileName} as it exceeds max token length of ${maxToken}`)
@@ -167,6 +181,146 @@ export class CodeContextAdditionAgent extends EventEmitter {
 		await this.processStream(iterator, destinationFilePath, fileContentHashMD5, codeFilePath)
 	}
 
+	private hashFileContent(fileContent: string, codeFilePath: string) {
+		// summaries and commented files share the repo hash, switching the mode regenerates the context
+		const contextMode = isSummaryContextMode(this.buildContextOptions) ? { contextMode: "summary" } : {}
+		return createHash("md5")
+			.update(JSON.stringify({ fileContent, filePath: codeFilePath, ...contextMode }))
+			.digest("hex")
+	}
+
+	private getMaxInputLength(llmApi: ReturnType<typeof buildApiHandler>) {
+		// TODO: `4096` is arbitrary, we need to figure out the optimal value for this. incase of `getModel` returns `null`
+		return llmApi.getModel().info.maxTokens ?? 4096 * 4 // 1 token ~= 4 char
+	}
+
+	/**
+	 * Writes a short structured summary of a file. The whole summary is generated before it is
+	 * written, so a failed or aborted request never leaves a partial summary behind.
+	 */
+	private async summarizeFile(
+		codeFilePath: string,
+		fileContent: string,
+		fileContentHashMD5: string,
+		llmApi: ReturnType<typeof buildApiHandler>,
+	) {
+		const summaryPath = getFileSummaryPath(this.srcFolder, codeFilePath, this.contextDir)
+		console.log(`Summarizing ${codeFilePath} -> ${summaryPath}`)
+
+		// large files are summarized from their beginning instead of being skipped
+		const maxInputLength = this.getMaxInputLength(llmApi)
+		const content =
+			fileContent.length > maxInputLength ? `${fileContent.slice(0, maxInputLength)}\n... (truncated)` : fileContent
+
+		const userPrompt = `
+        Application content: ${this.buildContextOptions.appContext}
+        File path: ${relative(this.srcFolder, codeFilePath)}
+        <CODE>${content}</CODE>`
+
+		try {
+			const summary = await getApiStreamResponse(
+				llmApi.createMessage(HaiBuildDefaults.defaultFileSummarySystemPrompt, [{ role: "user", content: userPrompt }]),
+			)
+			if (this.abortController.signal.aborted || !this.running || !summary.trim()) {
+				return
+			}
+			createDirectoryIfNotExists(dirname(summaryPath))
+			writeFileSync(summaryPath, `${summary.trim()}\n`)
+			exponentialBackoff(() => this.updateRepoHash(fileContentHashMD5, codeFilePath))
+		} catch (error) {
+			this.emit("error", { message: error })
+		} finally {
+			this.emitProgress(1)
+		}
+	}
+
+	/**
+	 * Rolls the file summaries up into directory summaries, up to the repo summary. Only the given
+	 * directories and their ancestors are summarized again, and only when their input changed.
+	 */
+	private async summarizeDirectories(directories: Set<string>) {
+		const pending = new Set<string>()
+		for (const directory of directories) {
+			let current = directory
+			while (current === this.srcFolder || current.startsWith(`${this.srcFolder}${sep}`)) {
+				pending.add(current)
+				if (current === this.srcFolder) {
+					break
+				}
+				current = dirname(current)
+			}
+		}
+
+		// deepest directories first, a directory summary is built from the summaries of its sub directories
+		const levels = new Map<number, string[]>()
+		for (const directory of pending) {
+			const depth = relative(this.srcFolder, directory).split(sep).filter(Boolean).length
+			levels.set(depth, [...(levels.get(depth) ?? []), directory])
+		}
+		const depths = Array.from(levels.keys()).sort((a, b) => b - a)
+
+		const llmApi = buildApiHandler(this.llmApiConfig)
+		for (const depth of depths) {
+			const level = levels.get(depth)!
+			for (let index = 0; index < level.length; index += this.concurrency) {
+				if (this.abortController.signal.aborted || !this.running) {
+					return
+				}
+				await Promise.all(
+					level.slice(index, index + this.concurrency).map((directory) => this.summarizeDirectory(directory, llmApi)),
+				)
+			}
+		}
+	}
+
+	private async summarizeDirectory(directoryPath: string, llmApi: ReturnType<typeof buildApiHandler>) {
+		const summaryPath = getDirectorySummaryPath(this.srcFolder, directoryPath, this.contextDir)
+		const inputs = collectDirectorySummaryInputs(this.srcFolder, directoryPath, this.contextDir)
+		if (inputs.length === 0) {
+			// nothing left to summarize, e.g. every file of the directory was deleted
+			rmSync(summaryPath, { force: true })
+			return
+		}
+
+		const maxInputLength = this.getMaxInputLength(llmApi)
+		const formattedInputs = formatDirectorySummaryInputs(inputs)
+		const input =
+			formattedInputs.length > maxInputLength
+				? `${formattedInputs.slice(0, maxInputLength)}\n... (truncated)`
+				: formattedInputs
+		const inputHashMD5 = createHash("md5")
+			.update(JSON.stringify({ input, contextMode: "summary" }))
+			.digest("hex")
+		if (existsSync(summaryPath) && this.readRepoHash()[summaryPath] === inputHashMD5) {
+			return
+		}
+
+		const isRepo = directoryPath === this.srcFolder
+		const userPrompt = `
+        Application content: ${this.buildContextOptions.appContext}
+        ${isRepo ? "Repository" : "Directory"}: ${isRepo ? basename(this.srcFolder) : relative(this.srcFolder, directoryPath)}
+        <SUMMARIES>${input}</SUMMARIES>`
+
+		try {
+			const summary = await getApiStreamResponse(
+				llmApi.createMessage(
+					isRepo
+						? HaiBuildDefaults.defaultRepoSummarySystemPrompt
+						: HaiBuildDefaults.defaultDirectorySummarySystemPrompt,
+					[{ role: "user", content: userPrompt }],
+				),
+			)
+			if (this.abortController.signal.aborted || !this.running || !summary.trim()) {
+				return
+			}
+			createDirectoryIfNotExists(dirname(summaryPath))
+			writeFileSync(summaryPath, `${summary.trim()}\n`)
+			exponentialBackoff(() => this.updateRepoHash(inputHashMD5, summaryPath))
+		} catch (error) {
+			this.emit("error", { message: error })
+		}
+	}
+
 	private async processStream(
 		iterator: AsyncGenerator<ApiStreamChunk, any, any>,
 		destinationFilePath: string,
@@ -201,7 +355,7 @@ export class CodeContextAdditionAgent extends EventEmitter {
 		}
 	}
 
-	private updateRepoHash(fileContentHashMD5: string, filePath: string) {
+	private readRepoHash(): Record<string, string> {
 		const repoHashFilePath = join(this.srcFolder, this.contextDir, HaiBuildDefaults.defaultRepoHashFileName)
 		let hashMap: Record<string, string> = {}
 		if (existsSync(repoHashFilePath)) {
@@ -214,7 +368,12 @@ export class CodeContextAdditionAgent extends EventEmitter {
 				console.error("Error reading hash file:", error)
 			}
 		}
+		return hashMap
+	}
 
+	private updateRepoHash(fileContentHashMD5: string, filePath: string) {
+		const repoHashFilePath = join(this.srcFolder, this.contextDir, HaiBuildDefaults.defaultRepoHashFileName)
+		const hashMap = this.readRepoHash()
 		hashMap[filePath] = fileContentHashMD5
 		writeFileSync(repoHashFilePath, JSON.stringify(hashMap, null, 2))
 	}
@@ -283,6 +442,9 @@ export class CodeContextAdditionAgent extends EventEmitter {
 
 		this.stats.total = codeFiles.size
 
+		// directories whose summaries may be outdated, unchanged files are skipped below
+		const summarizedDirectories = new Set(Array.from(codeFiles, (codeFilePath) => dirname(codeFilePath)))
+
 		const repoHashFilePath = join(this.srcFolder, this.contextDir, HaiBuildDefaults.defaultRepoHashFileName)
 		let skippedFilesCount = 0
 
@@ -305,9 +467,7 @@ export class CodeContextAdditionAgent extends EventEmitter {
 					continue
 				}
 				const fileContent = readFileSync(codeFilePath, "utf-8")
-				const fileContentHashMD5 = createHash("md5")
-					.update(JSON.stringify({ fileContent, filePath: codeFilePath }))
-					.digest("hex")
+				const fileContentHashMD5 = this.hashFileContent(fileContent, codeFilePath)
 				if (hashMap[codeFilePath] === fileContentHashMD5) {
 					codeFiles.delete(codeFilePath)
 					skippedFilesCount += 1
@@ -325,16 +485,23 @@ export class CodeContextAdditionAgent extends EventEmitter {
 
 		console.log("Remaining codeFiles", Array.from(codeFiles))
 
-		return await this.processFilesConcurrently(codeFiles).finally(() => {
-			this.emit("progress", {
-				type: "progress",
-				value: 100,
+		return await this.processFilesConcurrently(codeFiles)
+			.then(async () => {
+				// directory and repo summaries roll up the file summaries once they are all written
+				if (isSummaryContextMode(this.buildContextOptions)) {
+					await this.summarizeDirectories(summarizedDirectories)
+				}
 			})
-			this.emit("progress", {
-				type: "done",
-				done: true,
+			.finally(() => {
+				this.emit("progress", {
+					type: "progress",
+					value: 100,
+				})
+				this.emit("progress", {
+					type: "done",
+					done: true,
+				})
 			})
-		})
 	}
 
 	public start(filePaths?: string[], reIndex: boolean = false) {
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { CodeIndexSkipReason } from "../../shared/customApi"
+import { readCodeIndexRunReport, summarizeIndexedFiles, writeCodeIndexRunReport } from "./CodeIndexInspector"
+
+describe("CodeIndexInspector", () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "code-index-inspector-"))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should count chunks per file and flag files modified after indexing", () => {
+		const fresh = join(directory, "fresh.ts")
+		const stale = join(directory, "stale.ts")
+		writeFileSync(fresh, "fresh")
+		writeFileSync(stale, "stale")
+		utimesSync(fresh, new Date(1000), new Date(1000))
+		utimesSync(stale, new Date(5000), new Date(5000))
+
+		const files = summarizeIndexedFiles(directory, [
+			{ id: "stale.ts", pageContent: "a", metadata: { indexedAt: 2000 } },
+			{ id: "fresh.ts", pageContent: "b", metadata: { indexedAt: 2000 } },
+			{ id: "fresh.ts", pageContent: "c", metadata: { indexedAt: 3000 } },
+			{ id: "legacy.ts", pageContent: "d", metadata: {} },
+		])
+
+		files.should.eql([
+			{ path: fresh, chunks: 2, indexedAt: 3000, isStale: false },
+			{ path: join(directory, "legacy.ts"), chunks: 1, isStale: true },
+			{ path: stale, chunks: 1, indexedAt: 2000, isStale: true },
+		])
+	})
+
+	it("should round trip the run report", () => {
+		writeCodeIndexRunReport(
+			directory,
+			new Map<string, CodeIndexSkipReason>([
+				["b.ts", "unchanged"],
+				["logo.png", "binary"],
+				["dist/a.js", "excluded"],
+			]),
+		)
+
+		const report = readCodeIndexRunReport(directory)!
+		report.skippedFiles.should.eql([
+			{ path: "logo.png", reason: "binary" },
+			{ path: "dist/a.js", reason: "excluded" },
+			{ path: "b.ts", reason: "unchanged" },
+		])
+		report.omittedSkippedFiles.should.equal(0)
+		report.lastRunAt.should.be.a.Number()
+	})
+
+	it("should ignore a missing or unreadable run report", () => {
+		const missing = readCodeIndexRunReport(directory)
+		writeFileSync(join(directory, "index.report.json"), "{")
+		const unreadable = readCodeIndexRunReport(directory)
+		const reports = [missing, unreadable]
+		reports.should.eql([undefined, undefined])
+	})
+})
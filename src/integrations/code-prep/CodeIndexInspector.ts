@@ -0,0 +1,151 @@
+import type { Document } from "@langchain/core/documents"
+import type { OpenAIEmbeddings } from "@langchain/openai"
+import type { BedrockEmbeddings } from "@langchain/aws"
+import type { OllamaEmbeddings } from "@langchain/ollama"
+import { readFileSync, statSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { buildEmbeddingHandler } from "../../embedding"
+import {
+	CodeIndexFileInfo,
+	CodeIndexReport,
+	CodeIndexSearchResult,
+	CodeIndexSkipReason,
+	HaiBuildContextOptions,
+} from "../../shared/customApi"
+import { EmbeddingConfiguration } from "../../shared/embeddings"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { fileExists } from "../../utils/runtime-downloader"
+import { createDirectoryIfNotExists, fromCodeIndexId, getCodeIndexDirectory } from "./helper"
+import { SemanticSearchAgent } from "./SemanticSearchAgent"
+import { codeVectorStoreExists, loadCodeVectorStore, resolveCodeVectorStoreType } from "./vector-store"
+
+interface CodeIndexRunReport {
+	version: 1
+	lastRunAt: number
+	skippedFiles: { path: string; reason: CodeIndexSkipReason }[]
+	omittedSkippedFiles: number
+}
+
+// listed first when the report has to be truncated, "unchanged" files are indexed anyway
+const skipReasonOrder: CodeIndexSkipReason[] = ["binary", "deleted", "excluded", "unchanged"]
+
+/**
+ * Records why files were skipped by the last indexing run, next to the index it describes.
+ */
+export function writeCodeIndexRunReport(directory: string, skippedFiles: Map<string, CodeIndexSkipReason>) {
+	const entries = Array.from(skippedFiles, ([path, reason]) => ({ path, reason })).sort(
+		(a, b) => skipReasonOrder.indexOf(a.reason) - skipReasonOrder.indexOf(b.reason) || a.path.localeCompare(b.path),
+	)
+	const maxEntries = HaiBuildDefaults.defaultIndexReportMaxSkippedFiles
+	const report: CodeIndexRunReport = {
+		version: 1,
+		lastRunAt: Date.now(),
+		skippedFiles: entries.slice(0, maxEntries),
+		omittedSkippedFiles: Math.max(0, entries.length - maxEntries),
+	}
+	createDirectoryIfNotExists(directory)
+	writeFileSync(join(directory, HaiBuildDefaults.defaultIndexReportFileName), JSON.stringify(report))
+}
+
+export function readCodeIndexRunReport(directory: string): CodeIndexRunReport | undefined {
+	const reportPath = join(directory, HaiBuildDefaults.defaultIndexReportFileName)
+	if (!fileExists(reportPath)) {
+		return undefined
+	}
+	try {
+		const report = JSON.parse(readFileSync(reportPath, "utf-8"))
+		return report?.version === 1 ? report : undefined
+	} catch (error) {
+		// a broken report only affects the inspector, the next indexing run rewrites it
+		return undefined
+	}
+}
+
+/**
+ * Groups the chunks of the index by file, flagging files modified since they were indexed.
+ */
+export function summarizeIndexedFiles(srcFolder: string, documents: Document[]): CodeIndexFileInfo[] {
+	const files = new Map<string, CodeIndexFileInfo>()
+	for (const { id, metadata } of documents) {
+		if (!id) {
+			continue
+		}
+		const file = files.get(id) ?? { path: fromCodeIndexId(srcFolder, id), chunks: 0, isStale: false }
+		file.chunks++
+		if (typeof metadata?.indexedAt === "number") {
+			file.indexedAt = Math.max(file.indexedAt ?? 0, metadata.indexedAt)
+		}
+		files.set(id, file)
+	}
+	for (const file of files.values()) {
+		try {
+			const { mtimeMs } = statSync(file.path)
+			file.isStale = file.indexedAt !== undefined && mtimeMs > file.indexedAt
+		} catch (error) {
+			// deleted since it was indexed, the next run compacts it
+			file.isStale = true
+		}
+	}
+	return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Read-only view of a workspace code index, used to debug what is indexed and what is retrieved.
+ * The indexes of the folders of a multi-root workspace are reported together.
+ */
+export class CodeIndexInspector {
+	private srcFolders: string[]
+	private embeddings: OpenAIEmbeddings | BedrockEmbeddings | OllamaEmbeddings
+	private embeddingConfig: EmbeddingConfiguration
+	private buildContextOptions: HaiBuildContextOptions
+	private contextDir: string
+
+	constructor(
+		srcFolders: string[],
+		embeddingConfig: EmbeddingConfiguration,
+		buildContextOptions: HaiBuildContextOptions,
+		contextDir = HaiBuildDefaults.defaultContextDirectory,
+	) {
+		this.srcFolders = srcFolders
+		this.embeddingConfig = embeddingConfig
+		this.embeddings = buildEmbeddingHandler(embeddingConfig).getClient()
+		this.buildContextOptions = buildContextOptions
+		this.contextDir = contextDir
+	}
+
+	async getReport(): Promise<CodeIndexReport> {
+		const report: CodeIndexReport = { files: [], skippedFiles: [], omittedSkippedFiles: 0 }
+		for (const srcFolder of this.srcFolders) {
+			const directory = getCodeIndexDirectory(srcFolder, this.contextDir, this.buildContextOptions.useContext)
+			const runReport = readCodeIndexRunReport(directory)
+			report.skippedFiles.push(
+				...(runReport?.skippedFiles ?? []).map(({ path, reason }) => ({
+					path: fromCodeIndexId(srcFolder, path),
+					reason,
+				})),
+			)
+			report.omittedSkippedFiles += runReport?.omittedSkippedFiles ?? 0
+			if (runReport?.lastRunAt !== undefined) {
+				report.lastRunAt = Math.max(report.lastRunAt ?? 0, runReport.lastRunAt)
+			}
+			if (!codeVectorStoreExists(directory)) {
+				continue
+			}
+			const type = await resolveCodeVectorStoreType(this.buildContextOptions.vectorStore, directory)
+			const vectorStore = await loadCodeVectorStore(directory, this.embeddings, type)
+			report.vectorStore ??= type
+			report.files.push(...summarizeIndexedFiles(srcFolder, vectorStore.getDocuments()))
+		}
+		return report
+	}
+
+	/**
+	 * Runs a similarity query against the index as is, without `.haiignore` filtering or re-ranking.
+	 */
+	async query(query: string, limit?: number): Promise<CodeIndexSearchResult[]> {
+		return new SemanticSearchAgent(this.srcFolders, this.embeddingConfig, this.buildContextOptions, this.contextDir).search(
+			query,
+			{ limit },
+		)
+	}
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { HaiBuildContextOptions } from "../../shared/customApi"
+import { EmbeddingConfiguration } from "../../shared/embeddings"
+import { exportCodeIndexSnapshot, importCodeIndexSnapshot } from "./CodeIndexSnapshot"
+
+describe("CodeIndexSnapshot", () => {
+	const embeddingConfig: EmbeddingConfiguration = {
+		provider: "openai-native",
+		modelId: "text-embedding-3-small",
+		openAiNativeApiKey: "secret",
+	}
+	const buildContextOptions: HaiBuildContextOptions = {
+		useIndex: true,
+		useContext: false,
+		useSyncWithApi: false,
+		useSecretScanning: false,
+		vectorStore: "builtin",
+	}
+	let directory: string
+	let source: string
+	let target: string
+	let snapshotFile: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "code-index-snapshot-"))
+		source = join(directory, "source")
+		target = join(directory, "target")
+		snapshotFile = join(directory, "index.tar.gz")
+		mkdirSync(join(source, ".hai", ".faiss"), { recursive: true })
+		mkdirSync(join(target, ".hai", ".faiss"), { recursive: true })
+		writeFileSync(join(source, ".hai", ".faiss", "hai.documents.json"), '{"ids":["src/a.ts"]}')
+		writeFileSync(join(source, ".hai", ".faiss", "hai.vectors.bin"), "vectors")
+		writeFileSync(join(target, ".hai", ".faiss", "keyword.index.json"), "outdated")
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should replace the index of another workspace with the exported one", async () => {
+		const exported = await exportCodeIndexSnapshot([source], embeddingConfig, buildContextOptions, snapshotFile)
+		exported.embeddingModel.should.equal("openai-native/text-embedding-3-small")
+		exported.vectorStore.should.equal("builtin")
+		JSON.stringify(exported).should.not.containEql("secret")
+
+		const imported = await importCodeIndexSnapshot(
+			[target],
+			{ ...embeddingConfig, openAiNativeApiKey: "other" },
+			buildContextOptions,
+			snapshotFile,
+		)
+		imported.should.eql(JSON.parse(JSON.stringify(exported)))
+		const indexDirectory = join(target, ".hai", ".faiss")
+		readFileSync(join(indexDirectory, "hai.documents.json"), "utf-8").should.equal('{"ids":["src/a.ts"]}')
+		existsSync(join(indexDirectory, "keyword.index.json")).should.be.false()
+		existsSync(join(indexDirectory, "snapshot.json")).should.be.false()
+	})
+
+	it("should import the index of each folder of a multi-root workspace into the folder of the same name", async () => {
+		const library = join(directory, "library")
+		mkdirSync(join(library, ".hai", ".faiss"), { recursive: true })
+		writeFileSync(join(library, ".hai", ".faiss", "hai.documents.json"), '{"ids":["lib/b.ts"]}')
+		writeFileSync(join(library, ".hai", ".faiss", "hai.vectors.bin"), "vectors")
+
+		const exported = await exportCodeIndexSnapshot([source, library], embeddingConfig, buildContextOptions, snapshotFile)
+		exported.folders!.should.eql(["source", "library"])
+
+		const targetLibrary = join(target, "library")
+		await importCodeIndexSnapshot([targetLibrary, join(target, "other")], embeddingConfig, buildContextOptions, snapshotFile)
+		readFileSync(join(targetLibrary, ".hai", ".faiss", "hai.documents.json"), "utf-8").should.equal('{"ids":["lib/b.ts"]}')
+		existsSync(join(target, "other", ".hai")).should.be.false()
+		await importCodeIndexSnapshot(
+			[join(target, "other")],
+			embeddingConfig,
+			buildContextOptions,
+			snapshotFile,
+		).should.be.rejectedWith(/none of them is open/)
+	})
+
+	it("should reject a snapshot embedded with another model", async () => {
+		await exportCodeIndexSnapshot([source], embeddingConfig, buildContextOptions, snapshotFile)
+
+		await importCodeIndexSnapshot(
+			[target],
+			{ ...embeddingConfig, modelId: "text-embedding-3-large" },
+			buildContextOptions,
+			snapshotFile,
+		).should.be.rejectedWith(/text-embedding-3-small/)
+		readFileSync(join(target, ".hai", ".faiss", "keyword.index.json"), "utf-8").should.equal("outdated")
+	})
+})
@@ -0,0 +1,153 @@
+import { cpSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { basename, join } from "node:path"
+import { c as createArchive, x as extract } from "tar"
+import { HaiBuildContextOptions } from "../../shared/customApi"
+import { EmbeddingConfiguration, getEmbeddingModelFingerprint } from "../../shared/embeddings"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { getHeadCommitHash } from "../../utils/git"
+import { fileExists } from "../../utils/runtime-downloader"
+import { createDirectoryIfNotExists, getCodeIndexDirectory } from "./helper"
+import { codeVectorStoreExists, ResolvedCodeVectorStoreType } from "./vector-store"
+import { FaissCodeVectorStore } from "./vector-store/faiss"
+
+export interface CodeIndexSnapshotManifest {
+	version: 1
+	createdAt: number
+	// embedding provider and model the vectors were computed with, see `getEmbeddingModelFingerprint`
+	embeddingModel: string
+	// the index was built from the generated code context instead of the source files
+	useContext: boolean
+	vectorStore: ResolvedCodeVectorStoreType
+	// commit checked out when the snapshot was exported, for single folder snapshots
+	commit?: string
+	// names of the folders of a multi-root workspace, the index of each one is in the directory of its name.
+	// Single folder snapshots have the index at the root of the archive.
+	folders?: string[]
+}
+
+function withTempDirectory<T>(callback: (directory: string) => Promise<T>): Promise<T> {
+	const directory = mkdtempSync(join(tmpdir(), "hai-index-snapshot-"))
+	return callback(directory).finally(() => rmSync(directory, { recursive: true, force: true }))
+}
+
+/**
+ * Packages the code index of a workspace into a `.tar.gz` archive that can be imported on another
+ * machine. Document ids are workspace relative, the archive only depends on the embedding model.
+ * The folders of a multi-root workspace are packaged together, folders without an index are left out.
+ */
+export async function exportCodeIndexSnapshot(
+	srcFolders: string[],
+	embeddingConfig: EmbeddingConfiguration,
+	buildContextOptions: HaiBuildContextOptions,
+	snapshotFile: string,
+	contextDir = HaiBuildDefaults.defaultContextDirectory,
+): Promise<CodeIndexSnapshotManifest> {
+	const indexDirectories = new Map(
+		srcFolders
+			.map(
+				(srcFolder) => [srcFolder, getCodeIndexDirectory(srcFolder, contextDir, buildContextOptions.useContext)] as const,
+			)
+			.filter(([, indexDirectory]) => codeVectorStoreExists(indexDirectory)),
+	)
+	if (indexDirectories.size === 0) {
+		throw new Error("There is no code index to export, index the workspace first.")
+	}
+	const isMultiRoot = srcFolders.length > 1
+	const folders = Array.from(indexDirectories.keys(), (srcFolder) => basename(srcFolder))
+	if (new Set(folders).size !== folders.length) {
+		throw new Error("The workspace folders must have different names to export their code indexes.")
+	}
+	const manifest: CodeIndexSnapshotManifest = {
+		version: 1,
+		createdAt: Date.now(),
+		embeddingModel: getEmbeddingModelFingerprint(embeddingConfig),
+		useContext: buildContextOptions.useContext,
+		vectorStore: Array.from(indexDirectories.values()).some((directory) => FaissCodeVectorStore.exists(directory))
+			? "faiss"
+			: "builtin",
+		...(isMultiRoot ? { folders } : { commit: await getHeadCommitHash(srcFolders[0]) }),
+	}
+	return withTempDirectory(async (stagingDirectory) => {
+		for (const [srcFolder, indexDirectory] of indexDirectories) {
+			cpSync(indexDirectory, isMultiRoot ? join(stagingDirectory, basename(srcFolder)) : stagingDirectory, {
+				recursive: true,
+			})
+		}
+		writeFileSync(join(stagingDirectory, HaiBuildDefaults.defaultIndexSnapshotManifestFileName), JSON.stringify(manifest))
+		await createArchive({ gzip: true, file: snapshotFile, cwd: stagingDirectory }, readdirSync(stagingDirectory))
+		return manifest
+	})
+}
+
+/**
+ * Replaces the code index of a workspace with a snapshot exported by `exportCodeIndexSnapshot`.
+ * The snapshot must be embedded with the configured model, files that differ from the snapshot
+ * are re-embedded by the next indexing run (the content hash doesn't match). The folders of a
+ * multi-root snapshot are imported into the workspace folders of the same name, a single folder
+ * snapshot into the first workspace folder.
+ */
+export async function importCodeIndexSnapshot(
+	srcFolders: string[],
+	embeddingConfig: EmbeddingConfiguration,
+	buildContextOptions: HaiBuildContextOptions,
+	snapshotFile: string,
+	contextDir = HaiBuildDefaults.defaultContextDirectory,
+): Promise<CodeIndexSnapshotManifest> {
+	return withTempDirectory(async (stagingDirectory) => {
+		await extract({ file: snapshotFile, cwd: stagingDirectory })
+
+		const manifestPath = join(stagingDirectory, HaiBuildDefaults.defaultIndexSnapshotManifestFileName)
+		let manifest: CodeIndexSnapshotManifest | undefined
+		try {
+			manifest = fileExists(manifestPath) ? JSON.parse(readFileSync(manifestPath, "utf-8")) : undefined
+		} catch (error) {
+			manifest = undefined
+		}
+		// staged index directory of each workspace folder
+		const imports = new Map<string, string>()
+		if (manifest?.folders) {
+			for (const folder of manifest.folders) {
+				const srcFolder = srcFolders.find((srcFolder) => basename(srcFolder) === folder)
+				if (srcFolder) {
+					imports.set(srcFolder, join(stagingDirectory, folder))
+				}
+			}
+		} else if (srcFolders.length > 0) {
+			imports.set(srcFolders[0], stagingDirectory)
+		}
+		if (manifest?.version !== 1 || !Array.from(imports.values()).every((directory) => codeVectorStoreExists(directory))) {
+			throw new Error("The file is not a HAI code index snapshot.")
+		}
+		if (imports.size === 0) {
+			throw new Error(`The snapshot has the code indexes of ${manifest.folders?.join(", ")}, none of them is open.`)
+		}
+
+		const embeddingModel = getEmbeddingModelFingerprint(embeddingConfig)
+		if (manifest.embeddingModel !== embeddingModel) {
+			throw new Error(
+				`The snapshot was embedded with "${manifest.embeddingModel}" but this workspace uses "${embeddingModel}", switch the embedding model to import it.`,
+			)
+		}
+		if (manifest.useContext !== buildContextOptions.useContext) {
+			throw new Error(
+				`The snapshot was built ${manifest.useContext ? "with" : "without"} the code context, update the HAI settings to match before importing it.`,
+			)
+		}
+		if (
+			manifest.vectorStore === "faiss" &&
+			(buildContextOptions.vectorStore === "builtin" || !(await FaissCodeVectorStore.isAvailable()))
+		) {
+			throw new Error("The snapshot was built with faiss-node, which is not used by the code index on this machine.")
+		}
+
+		rmSync(manifestPath)
+		for (const [srcFolder, stagedDirectory] of imports) {
+			const indexDirectory = getCodeIndexDirectory(srcFolder, contextDir, buildContextOptions.useContext)
+			rmSync(indexDirectory, { recursive: true, force: true })
+			createDirectoryIfNotExists(indexDirectory)
+			cpSync(stagedDirectory, indexDirectory, { recursive: true })
+		}
+		return manifest
+	})
+}
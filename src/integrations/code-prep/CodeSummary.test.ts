@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { dirname, join } from "path"
+import "should"
+import {
+	collectDirectorySummaryInputs,
+	formatDirectorySummaryInputs,
+	getDirectorySummaryPath,
+	getFileSummaryPath,
+	listRollupSummaryFiles,
+	readRepoSummary,
+} from "./CodeSummary"
+
+describe("CodeSummary", () => {
+	let srcFolder: string
+
+	const writeSummary = (summaryPath: string, summary: string) => {
+		mkdirSync(dirname(summaryPath), { recursive: true })
+		writeFileSync(summaryPath, summary)
+	}
+
+	beforeEach(() => {
+		srcFolder = mkdtempSync(join(tmpdir(), "code-summary-"))
+	})
+
+	afterEach(() => {
+		rmSync(srcFolder, { recursive: true, force: true })
+	})
+
+	it("should collect the file and sub directory summaries of a directory", () => {
+		const src = join(srcFolder, "src")
+		writeSummary(getFileSummaryPath(srcFolder, join(src, "index.ts")), "Purpose: entry point\n")
+		writeSummary(getFileSummaryPath(srcFolder, join(src, "empty.ts")), "  \n")
+		writeSummary(getDirectorySummaryPath(srcFolder, join(src, "utils")), "Purpose: helpers")
+		writeSummary(getFileSummaryPath(srcFolder, join(src, "utils", "fs.ts")), "Purpose: file helpers")
+
+		const inputs = collectDirectorySummaryInputs(srcFolder, src)
+
+		inputs.should.eql([
+			{ name: "index.ts", type: "file", summary: "Purpose: entry point" },
+			{ name: "utils/", type: "directory", summary: "Purpose: helpers" },
+		])
+		formatDirectorySummaryInputs(inputs).should.equal("## index.ts\nPurpose: entry point\n\n## utils/\nPurpose: helpers")
+	})
+
+	it("should roll the workspace folder up into the repo summary", () => {
+		writeSummary(getDirectorySummaryPath(srcFolder, join(srcFolder, "src")), "Purpose: sources")
+		writeSummary(getDirectorySummaryPath(srcFolder, srcFolder), "Purpose: the app\n")
+
+		readRepoSummary(srcFolder)!.should.equal("Purpose: the app")
+		listRollupSummaryFiles(srcFolder).should.eql([
+			getDirectorySummaryPath(srcFolder, join(srcFolder, "src")),
+			getDirectorySummaryPath(srcFolder, srcFolder),
+		])
+	})
+})
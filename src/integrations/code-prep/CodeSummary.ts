@@ -0,0 +1,142 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs"
+import { join, relative } from "node:path"
+import { HaiBuildContextOptions } from "../../shared/customApi"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+
+/*
+Layout of the summaries in the context directory, mirroring the workspace:
+- summaries/files/<file path>.md           one summary per source file
+- summaries/directories/<dir path>/index.md rolled up from the summaries of its files and sub directories
+- summaries/repo.md                         rolled up from the top level files and directories
+*/
+const fileSummariesDir = "files"
+const directorySummariesDir = "directories"
+const directorySummaryFileName = "index.md"
+const repoSummaryFileName = "repo.md"
+
+export type CodeSummaryInput = {
+	name: string
+	type: "file" | "directory"
+	summary: string
+}
+
+/**
+ * Code context is written as summaries instead of commented copies of the files.
+ */
+export function isSummaryContextMode(buildContextOptions: HaiBuildContextOptions): boolean {
+	return buildContextOptions.useContext && buildContextOptions.contextMode === "summary"
+}
+
+export function getSummariesDirectory(srcFolder: string, contextDir = HaiBuildDefaults.defaultContextDirectory): string {
+	return join(srcFolder, contextDir, HaiBuildDefaults.defaultSummariesDirectoryName)
+}
+
+export function getFileSummaryPath(
+	srcFolder: string,
+	filePath: string,
+	contextDir = HaiBuildDefaults.defaultContextDirectory,
+): string {
+	return join(getSummariesDirectory(srcFolder, contextDir), fileSummariesDir, `${relative(srcFolder, filePath)}.md`)
+}
+
+/**
+ * Summary of a directory, the summary of the workspace folder itself is the repo summary.
+ */
+export function getDirectorySummaryPath(
+	srcFolder: string,
+	directoryPath: string,
+	contextDir = HaiBuildDefaults.defaultContextDirectory,
+): string {
+	const relativePath = relative(srcFolder, directoryPath)
+	if (!relativePath) {
+		return join(getSummariesDirectory(srcFolder, contextDir), repoSummaryFileName)
+	}
+	return join(getSummariesDirectory(srcFolder, contextDir), directorySummariesDir, relativePath, directorySummaryFileName)
+}
+
+export function readSummary(summaryPath: string): string | undefined {
+	try {
+		return readFileSync(summaryPath, "utf-8").trim() || undefined
+	} catch (error) {
+		return undefined
+	}
+}
+
+export function readRepoSummary(srcFolder: string, contextDir = HaiBuildDefaults.defaultContextDirectory): string | undefined {
+	return readSummary(getDirectorySummaryPath(srcFolder, srcFolder, contextDir))
+}
+
+/**
+ * Summaries of the files and sub directories directly within a directory, the input of its own summary.
+ */
+export function collectDirectorySummaryInputs(
+	srcFolder: string,
+	directoryPath: string,
+	contextDir = HaiBuildDefaults.defaultContextDirectory,
+): CodeSummaryInput[] {
+	const relativePath = relative(srcFolder, directoryPath)
+	const summariesDirectory = getSummariesDirectory(srcFolder, contextDir)
+	const inputs: CodeSummaryInput[] = []
+
+	const fileSummaries = join(summariesDirectory, fileSummariesDir, relativePath)
+	for (const entry of listDirectory(fileSummaries)) {
+		const summary = entry.endsWith(".md") && isFile(join(fileSummaries, entry)) && readSummary(join(fileSummaries, entry))
+		if (summary) {
+			inputs.push({ name: entry.slice(0, -".md".length), type: "file", summary })
+		}
+	}
+
+	const directorySummaries = join(summariesDirectory, directorySummariesDir, relativePath)
+	for (const entry of listDirectory(directorySummaries)) {
+		const summary = readSummary(join(directorySummaries, entry, directorySummaryFileName))
+		if (summary) {
+			inputs.push({ name: `${entry}/`, type: "directory", summary })
+		}
+	}
+
+	return inputs.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function formatDirectorySummaryInputs(inputs: CodeSummaryInput[]): string {
+	return inputs.map(({ name, summary }) => `## ${name}\n${summary}`).join("\n\n")
+}
+
+/**
+ * Directory and repo summaries, they are indexed as documents of their own next to the code.
+ */
+export function listRollupSummaryFiles(srcFolder: string, contextDir = HaiBuildDefaults.defaultContextDirectory): string[] {
+	const summaryFiles: string[] = []
+	const walk = (directory: string) => {
+		for (const entry of listDirectory(directory)) {
+			const entryPath = join(directory, entry)
+			if (entry === directorySummaryFileName && isFile(entryPath)) {
+				summaryFiles.push(entryPath)
+			} else if (!isFile(entryPath)) {
+				walk(entryPath)
+			}
+		}
+	}
+	walk(join(getSummariesDirectory(srcFolder, contextDir), directorySummariesDir))
+
+	const repoSummaryPath = getDirectorySummaryPath(srcFolder, srcFolder, contextDir)
+	if (existsSync(repoSummaryPath)) {
+		summaryFiles.push(repoSummaryPath)
+	}
+	return summaryFiles
+}
+
+function listDirectory(directory: string): string[] {
+	try {
+		return readdirSync(directory)
+	} catch (error) {
+		return []
+	}
+}
+
+function isFile(path: string): boolean {
+	try {
+		return statSync(path).isFile()
+	} catch (error) {
+		return false
+	}
+}
@@ -0,0 +1,135 @@
+import { describe, it } from "mocha"
+import "should"
+import { EmbeddingPipeline, isRateLimitError, withRateLimitBackoff } from "./EmbeddingPipeline"
+
+const embedLengths = async (texts: string[]) => texts.map((text) => [text.length])
+
+describe("EmbeddingPipeline", () => {
+	it("should pack chunks of several files into one request up to the token budget", async () => {
+		const requests: string[][] = []
+		const committed: [string, number[][]][] = []
+		const pipeline = new EmbeddingPipeline<string>(
+			async (texts) => {
+				requests.push(texts)
+				return embedLengths(texts)
+			},
+			async (item, vectors) => {
+				committed.push([item, vectors])
+			},
+			{ concurrency: 2, batchTokenBudget: 3 },
+		)
+
+		// each 4 character text is estimated at one token
+		await pipeline.push("a.ts", ["aaaa", "aaaaaaaa"])
+		await pipeline.push("b.ts", ["bbbb", "bb"])
+		await pipeline.push("empty.ts", [])
+		await pipeline.drain()
+
+		requests.should.eql([
+			["aaaa", "aaaaaaaa"],
+			["bbbb", "bb"],
+		])
+		committed.should.eql([
+			["empty.ts", []],
+			["a.ts", [[4], [8]]],
+			["b.ts", [[4], [2]]],
+		])
+	})
+
+	it("should keep at most `concurrency` requests in flight", async () => {
+		let inFlight = 0
+		let maxInFlight = 0
+		const pipeline = new EmbeddingPipeline<number>(
+			async (texts) => {
+				inFlight++
+				maxInFlight = Math.max(maxInFlight, inFlight)
+				await new Promise((resolve) => setTimeout(resolve, 5))
+				inFlight--
+				return embedLengths(texts)
+			},
+			async () => {},
+			{ concurrency: 2, batchTokenBudget: 1 },
+		)
+
+		for (let index = 0; index < 6; index++) {
+			await pipeline.push(index, ["text"])
+		}
+		await pipeline.drain()
+
+		maxInFlight.should.equal(2)
+	})
+
+	it("should stop and rethrow when a request fails", async () => {
+		const committed: string[] = []
+		const pipeline = new EmbeddingPipeline<string>(
+			async () => {
+				throw new Error("invalid api key")
+			},
+			async (item) => {
+				committed.push(item)
+			},
+			{ concurrency: 1, batchTokenBudget: 1, maxRetries: 0 },
+		)
+
+		await pipeline.push("a.ts", ["aaaa"])
+		await pipeline.drain().should.be.rejectedWith("invalid api key")
+		pipeline.failed.should.be.true()
+		committed.should.be.empty()
+	})
+})
+
+describe("withRateLimitBackoff", () => {
+	it("should retry rate limited requests", async () => {
+		let attempts = 0
+		const result = await withRateLimitBackoff(
+			async () => {
+				attempts++
+				if (attempts < 3) {
+					throw Object.assign(new Error("Too Many Requests"), { status: 429 })
+				}
+				return "ok"
+			},
+			{ baseDelay: 1 },
+		)
+
+		result.should.equal("ok")
+		attempts.should.equal(3)
+	})
+
+	it("should not retry other errors", async () => {
+		let attempts = 0
+		await withRateLimitBackoff(
+			async () => {
+				attempts++
+				throw new Error("bad request")
+			},
+			{ baseDelay: 1 },
+		).should.be.rejectedWith("bad request")
+		attempts.should.equal(1)
+	})
+
+	it("should stop waiting for a retry when aborted", async () => {
+		const abortController = new AbortController()
+		let attempts = 0
+		const request = withRateLimitBackoff(
+			async () => {
+				attempts++
+				throw Object.assign(new Error("Too Many Requests"), { status: 429 })
+			},
+			{ baseDelay: 60_000, signal: abortController.signal },
+		)
+		setTimeout(() => abortController.abort(), 10)
+
+		await request.should.be.rejectedWith({ name: "AbortError" })
+		attempts.should.equal(1)
+	})
+})
+
+describe("isRateLimitError", () => {
+	it("should recognise provider rate limit errors", () => {
+		isRateLimitError({ status: 429 }).should.be.true()
+		isRateLimitError({ name: "ThrottlingException", message: "Rate exceeded" }).should.be.true()
+		isRateLimitError(new Error("429 Too Many Requests")).should.be.true()
+		isRateLimitError(new Error("401 Unauthorized")).should.be.false()
+	})
+})
@@ -0,0 +1,177 @@
+import { setTimeout as setTimeoutPromise } from "node:timers/promises"
+
+export interface EmbeddingPipelineOptions {
+	// number of embedding requests in flight at once
+	concurrency: number
+	// estimated tokens sent per embedding request, chunks of several files share a request
+	batchTokenBudget: number
+	maxRetries?: number
+	baseDelay?: number
+	signal?: AbortSignal
+}
+
+interface PipelineItem<T> {
+	item: T
+	vectors: number[][]
+	remaining: number
+}
+
+interface PipelineEntry<T> {
+	state: PipelineItem<T>
+	index: number
+	text: string
+}
+
+/**
+ * Rough token estimate used for batching, close enough for the embedding models we support
+ * without loading a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4)
+}
+
+/**
+ * Detects rate limit responses from the embedding providers (OpenAI/Azure 429, Bedrock throttling, Ollama 429).
+ */
+export function isRateLimitError(error: unknown): boolean {
+	if (typeof error !== "object" || error === null) {
+		return false
+	}
+	const { status, statusCode, response, $metadata, name, code, message } = error as {
+		status?: unknown
+		statusCode?: unknown
+		response?: { status?: unknown }
+		$metadata?: { httpStatusCode?: unknown }
+		name?: unknown
+		code?: unknown
+		message?: unknown
+	}
+	if ([status, statusCode, response?.status, $metadata?.httpStatusCode].includes(429)) {
+		return true
+	}
+	const text = `${name ?? ""} ${code ?? ""} ${message ?? ""}`
+	return /\b429\b|rate.?limit|too many requests|throttl/i.test(text)
+}
+
+/**
+ * Runs the operation, retrying with exponential backoff and jitter while the provider reports
+ * rate limiting. Other errors are thrown immediately, an abort of `signal` during a backoff rejects with an `AbortError`.
+ */
+export async function withRateLimitBackoff<T>(
+	operation: () => Promise<T>,
+	{ maxRetries = 6, baseDelay = 1000, signal }: Pick<EmbeddingPipelineOptions, "maxRetries" | "baseDelay" | "signal"> = {},
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await operation()
+		} catch (error) {
+			if (!isRateLimitError(error) || attempt >= maxRetries || signal?.aborted) {
+				throw error
+			}
+			const delay = Math.pow(2, attempt) * baseDelay * (1 + Math.random() / 2)
+			console.warn(`Embedding request rate limited, retrying in ${Math.round(delay)}ms...`)
+			await setTimeoutPromise(delay, undefined, { signal })
+		}
+	}
+}
+
+/**
+ * Embeds the chunks of many files with as few requests as possible.
+ *
+ * Chunks are packed into requests up to `batchTokenBudget` regardless of which file they come
+ * from, at most `concurrency` requests run at once, and `onEmbedded` is called (one call at a
+ * time, so it can safely write to the vector store) once every chunk of an item has its vector.
+ */
+export class EmbeddingPipeline<T> {
+	private batch: PipelineEntry<T>[] = []
+	private batchTokens = 0
+	private inFlight = new Set<Promise<void>>()
+	private commitQueue: Promise<void> = Promise.resolve()
+	private error: unknown
+
+	constructor(
+		private readonly embed: (texts: string[]) => Promise<number[][]>,
+		private readonly onEmbedded: (item: T, vectors: number[][]) => Promise<void>,
+		private readonly options: EmbeddingPipelineOptions,
+	) {}
+
+	get failed(): boolean {
+		return this.error !== undefined
+	}
+
+	/**
+	 * Queues the texts of an item, waiting for a free request slot when a batch fills up.
+	 * Throws the first error of a failed request so callers can stop feeding the pipeline.
+	 */
+	async push(item: T, texts: string[]) {
+		this.throwIfFailed()
+		const state: PipelineItem<T> = { item, vectors: new Array(texts.length), remaining: texts.length }
+		if (texts.length === 0) {
+			this.commit(state)
+			return
+		}
+		for (let index = 0; index < texts.length; index++) {
+			const tokens = estimateTokens(texts[index])
+			if (this.batch.length > 0 && this.batchTokens + tokens > this.options.batchTokenBudget) {
+				await this.dispatch()
+			}
+			this.batch.push({ state, index, text: texts[index] })
+			this.batchTokens += tokens
+		}
+	}
+
+	/**
+	 * Sends the partially filled batch and waits for every request and commit to finish.
+	 */
+	async drain() {
+		if (this.batch.length > 0 && !this.failed) {
+			await this.dispatch()
+		}
+		await Promise.all(this.inFlight)
+		await this.commitQueue
+		this.throwIfFailed()
+	}
+
+	private async dispatch() {
+		const entries = this.batch
+		this.batch = []
+		this.batchTokens = 0
+
+		while (this.inFlight.size >= Math.max(1, this.options.concurrency)) {
+			await Promise.race(this.inFlight)
+		}
+		this.throwIfFailed()
+
+		const request = withRateLimitBackoff(() => this.embed(entries.map((entry) => entry.text)), this.options)
+			.then((vectors) => {
+				entries.forEach((entry, position) => {
+					entry.state.vectors[entry.index] = vectors[position]
+					entry.state.remaining--
+					if (entry.state.remaining === 0) {
+						this.commit(entry.state)
+					}
+				})
+			})
+			.catch((error) => {
+				this.error ??= error
+			})
+			.finally(() => {
+				this.inFlight.delete(request)
+			})
+		this.inFlight.add(request)
+	}
+
+	private commit(state: PipelineItem<T>) {
+		this.commitQueue = this.commitQueue
+			.then(() => (this.failed ? undefined : this.onEmbedded(state.item, state.vectors)))
+			.catch((error) => {
+				this.error ??= error
+			})
+	}
+
+	private throwIfFailed() {
+		if (this.error !== undefined) {
+			throw this.error
+		}
+	}
+}
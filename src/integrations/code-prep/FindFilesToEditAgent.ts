@@ -1,28 +1,30 @@
-import { FaissStore } from "@langchain/community/vectorstores/faiss"
 import { ApiConfiguration } from "../../shared/api"
 import { HaiBuildContextOptions } from "../../shared/customApi"
 import {
 	findFilesInDirectory,
+	fromCodeIndexId,
 	getApiStreamResponse,
 	getFolderStructure,
 	getFolderStructureString,
 	readAndProcessGitignore,
 } from "./helper"
+import type { Document } from "@langchain/core/documents"
 import type { OpenAIEmbeddings } from "@langchain/openai"
 import type { BedrockEmbeddings } from "@langchain/aws"
 import { basename, join } from "node:path"
 import { buildApiHandler } from "../../api"
-import { ensureFaissPlatformDeps } from "../../utils/faiss"
 import { EmbeddingConfiguration } from "../../shared/embeddings"
 import { OllamaEmbeddings } from "@langchain/ollama"
 import { buildEmbeddingHandler } from "../../embedding"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { KeywordIndex, reciprocalRankFusion } from "./KeywordIndex"
+import { codeVectorStoreExists, loadCodeVectorStore, resolveCodeVectorStoreType } from "./vector-store"
 
 export class FindFilesToEditAgent {
-	private srcFolder: string
+	private srcFolders: string[]
 	private llmApiConfig: ApiConfiguration
 	private embeddingConfig: EmbeddingConfiguration
 	private embeddings: OpenAIEmbeddings | BedrockEmbeddings | OllamaEmbeddings
-	private vectorStore: FaissStore
 	private task: string
 	private buildContextOptions: HaiBuildContextOptions
 	private contextDir: string
@@ -31,22 +33,26 @@ export class FindFilesToEditAgent {
 
 	private SYSTEM_PROMPT: string = `You are a world class software developer.`
 
+	// number of candidates taken from each retriever before fusing the rankings
+	private searchDepth: number = 20
+	// number of fused candidates handed to the LLM for re-ranking
+	private maxCandidates: number = 10
+
 	constructor(
-		srcFolder: string,
+		srcFolders: string[],
 		llmApiConfig: ApiConfiguration,
 		embeddingConfig: EmbeddingConfiguration,
 		buildContextOptions: HaiBuildContextOptions,
 		task: string,
 		contextDir = ".hai",
 	) {
-		this.srcFolder = srcFolder
+		this.srcFolders = srcFolders
 		this.llmApiConfig = llmApiConfig
 
 		this.embeddingConfig = embeddingConfig
 		const embeddingHandler = buildEmbeddingHandler(this.embeddingConfig)
 		this.embeddings = embeddingHandler.getClient()
 
-		this.vectorStore = new FaissStore(this.embeddings, {})
 		this.task = task
 		this.buildContextOptions = buildContextOptions
 		this.contextDir = contextDir
@@ -56,11 +62,6 @@ export class FindFilesToEditAgent {
 		const faissWithContextDir = ".faiss-context"
 		const faissWithoutContextDir = ".faiss"
 
-		// faiss db path
-		const faissDbPath = this.buildContextOptions.useContext
-			? join(this.srcFolder, this.contextDir, faissWithContextDir)
-			: join(this.srcFolder, this.contextDir, faissWithoutContextDir)
-
 		const defaultExcludeDirs: string[] = [
 			".git",
 			"node_modules",
@@ -71,33 +72,83 @@ export class FindFilesToEditAgent {
 			faissWithContextDir,
 		]
 
-		const excludedFolders = this.buildContextOptions.excludeFolders
-			? [...this.buildContextOptions.excludeFolders.split(",").map((f) => f.trim()), ...defaultExcludeDirs]
-			: [...defaultExcludeDirs]
+		const folderStructureStrings: string[] = []
+		const similarDocs: [Document, number][] = []
+		const keywordMatches: [string, number][] = []
+		for (const srcFolder of this.srcFolders) {
+			const excludedFolders = this.buildContextOptions.excludeFolders
+				? [...this.buildContextOptions.excludeFolders.split(",").map((f) => f.trim()), ...defaultExcludeDirs]
+				: [...defaultExcludeDirs]
+
+			const gitIgnoreFilePaths = findFilesInDirectory(srcFolder, ".gitignore")
+
+			const gitIgnorePatterns = gitIgnoreFilePaths.flatMap((filePath) => readAndProcessGitignore(filePath))
 
-		const gitIgnoreFilePaths = findFilesInDirectory(this.srcFolder, ".gitignore")
+			excludedFolders.push(...gitIgnorePatterns)
 
-		const gitIgnorePatterns = gitIgnoreFilePaths.flatMap((filePath) => readAndProcessGitignore(filePath))
+			const folderStructure = getFolderStructure(srcFolder, excludedFolders)
 
-		excludedFolders.push(...gitIgnorePatterns)
+			folderStructureStrings.push(getFolderStructureString(folderStructure))
 
-		const folderStructure = getFolderStructure(this.srcFolder, excludedFolders)
+			// faiss db path, every workspace folder has its own index
+			const faissDbPath = this.buildContextOptions.useContext
+				? join(srcFolder, this.contextDir, faissWithContextDir)
+				: join(srcFolder, this.contextDir, faissWithoutContextDir)
 
-		const folderStructureString = getFolderStructureString(folderStructure)
+			if (!codeVectorStoreExists(faissDbPath)) {
+				// vector store not found
+				continue
+			}
+			const vectorStoreType = await resolveCodeVectorStoreType(this.buildContextOptions.vectorStore, faissDbPath)
+			const vectorStore = await loadCodeVectorStore(faissDbPath, this.embeddings, vectorStoreType)
+
+			// ids are relative to their workspace folder, the rankings of all folders use absolute paths
+			for (const [document, score] of await vectorStore.similaritySearchWithScore(this.task, this.searchDepth)) {
+				if (document.id) {
+					similarDocs.push([{ ...document, id: fromCodeIndexId(srcFolder, document.id) }, score])
+				}
+			}
 
-		try {
-			this.vectorStore = await FaissStore.load(faissDbPath, this.embeddings)
-		} catch (error) {
-			// vector store not found
+			const keywordIndex = KeywordIndex.load(join(faissDbPath, HaiBuildDefaults.defaultKeywordIndexFileName))
+			for (const [id, score] of keywordIndex.search(this.task, this.searchDepth)) {
+				keywordMatches.push([fromCodeIndexId(srcFolder, id), score])
+			}
+		}
+
+		if (similarDocs.length === 0 && keywordMatches.length === 0) {
+			// no workspace folder is indexed
 			return []
 		}
 
-		const similarDocs = await this.vectorStore.similaritySearchWithScore(this.task)
+		const folderStructureString = folderStructureStrings.join("\n")
+
+		// lower vector scores and higher keyword scores are better matches
+		similarDocs.sort(([, a], [, b]) => a - b)
+		const vectorRanking = similarDocs.slice(0, this.searchDepth).map(([{ id }]) => id!)
+		const keywordRanking = keywordMatches
+			.sort(([, a], [, b]) => b - a)
+			.slice(0, this.searchDepth)
+			.map(([id]) => id)
+
+		// best matching chunk per file, so the LLM can see which symbol matched
+		const bestChunks = new Map<string, Record<string, any>>()
+		for (const [{ id, metadata }] of similarDocs) {
+			if (id && !bestChunks.has(id)) {
+				bestChunks.set(id, metadata)
+			}
+		}
+		const describeChunk = (id: string) => {
+			const metadata = bestChunks.get(id)
+			if (!metadata?.startLine) {
+				return ""
+			}
+			const symbol = metadata.symbolName ? `${metadata.symbolKind} ${metadata.symbolName}, ` : ""
+			return ` \t (${symbol}lines ${metadata.startLine}-${metadata.endLine})`
+		}
 
-		const similarDocsString = similarDocs
-			.map(([{ id }]) => id)
-			.filter((id) => id !== undefined)
-			.map((id, idx) => `${idx + 1}. ${basename(id)} \t ${id}`)
+		const similarDocsString = reciprocalRankFusion([vectorRanking, keywordRanking])
+			.slice(0, this.maxCandidates)
+			.map((id, idx) => `${idx + 1}. ${basename(id)} \t ${id}${describeChunk(id)}`)
 			.join("\n")
 
 		const llmApi = buildApiHandler(this.llmApiConfig)
@@ -147,7 +198,6 @@ export class FindFilesToEditAgent {
 	}
 
 	async start(): Promise<string[]> {
-		await ensureFaissPlatformDeps()
 		return this.job()
 	}
 
@@ -178,6 +228,6 @@ export class FindFilesToEditAgent {
 
 // const vsCodeWorkSpaceFolderFsPath = '/Users/presidio/Desktop/git/jarvis-gitlab/hai-vscode-plugin-v2';
 
-// const agent = new FindFilesToEditAgent(vsCodeWorkSpaceFolderFsPath, llmApiConfig, llmApiConfig, buildContextOptions, task);
+// const agent = new FindFilesToEditAgent([vsCodeWorkSpaceFolderFsPath], llmApiConfig, llmApiConfig, buildContextOptions, task);
 
 // agent.start().then((files) => console.log(files));
@@ -0,0 +1,90 @@
+import { describe, it } from "mocha"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { KeywordIndex, reciprocalRankFusion, tokenize } from "./KeywordIndex"
+
+describe("KeywordIndex", () => {
+	describe("tokenize", () => {
+		it("should keep identifiers whole and split them on case boundaries", () => {
+			tokenize("buildApiHandler").should.eql(["buildapihandler", "build", "api", "handler"])
+		})
+
+		it("should split snake_case and keep ticket ids", () => {
+			tokenize("read_file HAI-1234").should.eql(["read_file", "read", "file", "hai-1234", "hai", "1234"])
+		})
+
+		it("should drop single character terms", () => {
+			tokenize("a = b + c").should.eql([])
+		})
+	})
+
+	describe("search", () => {
+		it("should rank exact identifier matches first", () => {
+			const index = new KeywordIndex()
+			index.addDocument("/src/api/index.ts", "export function buildApiHandler(configuration) {}")
+			index.addDocument("/src/api/retry.ts", "export function withRetry(handler) {}")
+			index.addDocument("/src/core/task.ts", "const api = buildApiHandler(config)\nconst other = 1\nconst more = 2")
+
+			const results = index.search("where is buildApiHandler defined")
+			results.map(([id]) => id).should.eql(["/src/api/index.ts", "/src/core/task.ts", "/src/api/retry.ts"])
+		})
+
+		it("should replace a document when it is added again", () => {
+			const index = new KeywordIndex()
+			index.addDocument("/a.ts", "alpha")
+			index.addDocument("/a.ts", "beta")
+
+			index.search("alpha").should.be.empty()
+			index
+				.search("beta")
+				.map(([id]) => id)
+				.should.eql(["/a.ts"])
+			index.size.should.equal(1)
+		})
+
+		it("should forget deleted documents", () => {
+			const index = new KeywordIndex()
+			index.addDocument("/a.ts", "alpha")
+			index.deleteDocument("/a.ts").should.be.true()
+			index.search("alpha").should.be.empty()
+			index.deleteDocument("/a.ts").should.be.false()
+		})
+	})
+
+	describe("persistence", () => {
+		it("should round trip through save and load", () => {
+			const dir = mkdtempSync(join(tmpdir(), "keyword-index-"))
+			try {
+				const filePath = join(dir, "nested", "keyword.index.json")
+				const index = new KeywordIndex()
+				index.addDocument("/a.ts", "buildApiHandler")
+				index.save(filePath)
+
+				const loaded = KeywordIndex.load(filePath)
+				loaded.has("/a.ts").should.be.true()
+				loaded.search("buildApiHandler").should.eql(index.search("buildApiHandler"))
+			} finally {
+				rmSync(dir, { recursive: true, force: true })
+			}
+		})
+
+		it("should return an empty index when the file does not exist", () => {
+			KeywordIndex.load(join(tmpdir(), "missing-keyword-index.json")).size.should.equal(0)
+		})
+	})
+})
+
+describe("reciprocalRankFusion", () => {
+	it("should favour ids ranked by several retrievers", () => {
+		reciprocalRankFusion([
+			["a", "b", "c"],
+			["c", "d", "b"],
+		]).should.eql(["c", "b", "a", "d"])
+	})
+
+	it("should count duplicate ids in a ranking once", () => {
+		reciprocalRankFusion([["a", "a", "b"], ["b"]]).should.eql(["b", "a"])
+	})
+})
@@ -0,0 +1,214 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { dirname } from "node:path"
+
+interface KeywordIndexDocument {
+	length: number
+	termFrequencies: Record<string, number>
+}
+
+interface KeywordIndexData {
+	version: number
+	documents: Record<string, KeywordIndexDocument>
+}
+
+const KEYWORD_INDEX_VERSION = 1
+
+/**
+ * Splits text into lowercase search terms.
+ *
+ * Identifiers are kept whole (so `buildApiHandler` or `JIRA-1234` can be matched exactly)
+ * and are additionally split on camelCase, snake_case and kebab-case boundaries so that
+ * partial matches like `api handler` still score.
+ *
+ * @param text - The text to tokenize.
+ * @returns An array of lowercase terms, including duplicates.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = []
+	const identifiers = text.match(/[A-Za-z0-9_$][A-Za-z0-9_$\-]*/g) ?? []
+
+	for (const identifier of identifiers) {
+		const whole = identifier.replace(/^[-_$]+|[-_$]+$/g, "").toLowerCase()
+		if (whole.length < 2) {
+			continue
+		}
+		terms.push(whole)
+
+		const parts = identifier
+			.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+			.replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+			.split(/[\s_\-$]+/)
+			.map((part) => part.toLowerCase())
+			.filter((part) => part.length >= 2)
+
+		if (parts.length > 1) {
+			terms.push(...parts)
+		}
+	}
+
+	return terms
+}
+
+/**
+ * Merges several ranked lists of ids into a single ranking using reciprocal-rank fusion.
+ *
+ * Each id scores `1 / (k + rank)` for every list it appears in, so ids ranked highly by
+ * more than one retriever float to the top without having to normalise their raw scores.
+ *
+ * @param rankings - Ranked lists of ids, best match first.
+ * @param k - Damping constant, 60 is the value from the original RRF paper.
+ * @returns The fused list of unique ids, best match first.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): string[] {
+	const scores = new Map<string, number>()
+
+	for (const ranking of rankings) {
+		const seen = new Set<string>()
+		ranking.forEach((id, rank) => {
+			if (seen.has(id)) {
+				return
+			}
+			seen.add(id)
+			scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1))
+		})
+	}
+
+	return Array.from(scores.entries())
+		.sort((a, b) => b[1] - a[1])
+		.map(([id]) => id)
+}
+
+/**
+ * A small BM25 keyword index persisted as JSON next to the vector store.
+ *
+ * Embeddings blur exact tokens such as function names and ticket ids, so this index is
+ * used alongside the vector store and both rankings are merged with `reciprocalRankFusion`.
+ */
+export class KeywordIndex {
+	private documents = new Map<string, KeywordIndexDocument>()
+	private postings = new Map<string, Map<string, number>>()
+	private totalLength = 0
+
+	constructor(
+		private readonly k1: number = 1.2,
+		private readonly b: number = 0.75,
+	) {}
+
+	static load(filePath: string): KeywordIndex {
+		const index = new KeywordIndex()
+		if (!existsSync(filePath)) {
+			return index
+		}
+		try {
+			const data = JSON.parse(readFileSync(filePath, "utf-8")) as KeywordIndexData
+			if (data.version !== KEYWORD_INDEX_VERSION) {
+				return index
+			}
+			for (const [id, document] of Object.entries(data.documents)) {
+				index.setDocument(id, document)
+			}
+		} catch (error) {
+			// the keyword index is corrupted, it will be rebuilt by the next indexing run
+			console.error("Failed to load keyword index", error)
+		}
+		return index
+	}
+
+	save(filePath: string) {
+		const data: KeywordIndexData = {
+			version: KEYWORD_INDEX_VERSION,
+			documents: Object.fromEntries(this.documents),
+		}
+		mkdirSync(dirname(filePath), { recursive: true })
+		writeFileSync(filePath, JSON.stringify(data))
+	}
+
+	get size(): number {
+		return this.documents.size
+	}
+
+	has(id: string): boolean {
+		return this.documents.has(id)
+	}
+
+	ids(): string[] {
+		return Array.from(this.documents.keys())
+	}
+
+	/**
+	 * Indexes the text for the given id, replacing anything previously indexed under it.
+	 */
+	addDocument(id: string, text: string) {
+		const terms = tokenize(text)
+		const termFrequencies: Record<string, number> = {}
+		for (const term of terms) {
+			termFrequencies[term] = (termFrequencies[term] ?? 0) + 1
+		}
+		this.deleteDocument(id)
+		this.setDocument(id, { length: terms.length, termFrequencies })
+	}
+
+	deleteDocument(id: string): boolean {
+		const document = this.documents.get(id)
+		if (!document) {
+			return false
+		}
+		for (const term of Object.keys(document.termFrequencies)) {
+			const posting = this.postings.get(term)
+			posting?.delete(id)
+			if (posting && posting.size === 0) {
+				this.postings.delete(term)
+			}
+		}
+		this.totalLength -= document.length
+		this.documents.delete(id)
+		return true
+	}
+
+	/**
+	 * Ranks indexed documents against the query using Okapi BM25.
+	 *
+	 * @param query - Free text query, tokenized the same way as the documents.
+	 * @param k - Maximum number of results to return.
+	 * @returns Matching ids with their BM25 score, best match first.
+	 */
+	search(query: string, k: number = 10): [string, number][] {
+		const documentCount = this.documents.size
+		if (documentCount === 0) {
+			return []
+		}
+		const averageLength = this.totalLength / documentCount || 1
+		const scores = new Map<string, number>()
+
+		for (const term of new Set(tokenize(query))) {
+			const posting = this.postings.get(term)
+			if (!posting) {
+				continue
+			}
+			const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5))
+			for (const [id, frequency] of posting) {
+				const length = this.documents.get(id)?.length ?? 0
+				const score =
+					(idf * (frequency * (this.k1 + 1))) / (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength))
+				scores.set(id, (scores.get(id) ?? 0) + score)
+			}
+		}
+
+		return Array.from(scores.entries())
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, k)
+	}
+
+	private setDocument(id: string, document: KeywordIndexDocument) {
+		this.documents.set(id, document)
+		this.totalLength += document.length
+		for (const [term, frequency] of Object.entries(document.termFrequencies)) {
+			let posting = this.postings.get(term)
+			if (!posting) {
+				posting = new Map()
+				this.postings.set(term, posting)
+			}
+			posting.set(id, frequency)
+		}
+	}
+}
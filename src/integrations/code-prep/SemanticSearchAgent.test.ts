@@ -0,0 +1,63 @@
+import { describe, it } from "mocha"
+import "should"
+import { formatSemanticSearchResults, resolveSearchScopes } from "./SemanticSearchAgent"
+
+describe("formatSemanticSearchResults", () => {
+	it("should list chunks with relative paths, line ranges, symbols and scores", () => {
+		const formatted = formatSemanticSearchResults(
+			[
+				{
+					path: "/repo/src/auth.ts",
+					startLine: 10,
+					endLine: 12,
+					symbolName: "validateSession",
+					symbolKind: "function",
+					score: 0.8123,
+					snippet: "function validateSession() {\n\treturn true\n}",
+				},
+				{ path: "/repo/README.md", score: 0.5, snippet: "# Sessions" },
+			],
+			"/repo",
+		)
+
+		formatted.should.equal(
+			"1. src/auth.ts:10-12 (function validateSession) [score: 0.812]\nfunction validateSession() {\n\treturn true\n}\n\n" +
+				"2. README.md [score: 0.500]\n# Sessions",
+		)
+	})
+
+	it("should truncate long snippets", () => {
+		const snippet = Array.from({ length: 100 }, (_, index) => `line ${index + 1}`).join("\n")
+		const formatted = formatSemanticSearchResults([{ path: "/repo/a.ts", score: 1, snippet }], "/repo")
+
+		formatted.should.containEql("line 60\n... (40 more lines)")
+		formatted.should.not.containEql("line 61")
+	})
+
+	it("should say when nothing matched", () => {
+		formatSemanticSearchResults([], "/repo").should.equal("No matching code found.")
+	})
+})
+
+describe("resolveSearchScopes", () => {
+	const srcFolders = ["/work/web", "/work/api"]
+	const scopes = (path?: string) => Object.fromEntries(resolveSearchScopes(srcFolders, path))
+
+	it("should search every folder without a path", () => {
+		scopes().should.eql({ "/work/web": undefined, "/work/api": undefined })
+	})
+
+	it("should resolve the path against the first folder", () => {
+		scopes("src/auth").should.eql({ "/work/web": "src/auth" })
+	})
+
+	it("should also resolve a path starting with the name of a folder against that folder", () => {
+		scopes("api/src/routes").should.eql({ "/work/web": "api/src/routes", "/work/api": "src/routes" })
+		scopes("api").should.eql({ "/work/web": "api", "/work/api": "" })
+	})
+
+	it("should leave out every folder for a path outside of the workspace", () => {
+		scopes("../other/src").should.eql({})
+		scopes("/other/src").should.eql({})
+	})
+})
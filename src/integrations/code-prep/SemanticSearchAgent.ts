@@ -0,0 +1,146 @@
+import type { OpenAIEmbeddings } from "@langchain/openai"
+import type { BedrockEmbeddings } from "@langchain/aws"
+import type { OllamaEmbeddings } from "@langchain/ollama"
+import { basename, isAbsolute, relative, resolve } from "node:path"
+import { buildEmbeddingHandler } from "../../embedding"
+import { CodeIndexSearchResult, HaiBuildContextOptions } from "../../shared/customApi"
+import { EmbeddingConfiguration } from "../../shared/embeddings"
+import { HaiBuildDefaults } from "../../shared/haiDefaults"
+import { fromCodeIndexId, getCodeIndexDirectory, isIdWithinPaths, toCodeIndexId } from "./helper"
+import { codeVectorStoreExists, loadCodeVectorStore, resolveCodeVectorStoreType } from "./vector-store"
+
+export interface SemanticSearchOptions {
+	limit?: number
+	// only return chunks of files within this file or directory, relative to the first folder or
+	// starting with the name of a folder of the workspace
+	path?: string
+	// used to drop chunks of files the LLM is not allowed to read (.haiignore)
+	isAccessible?: (filePath: string) => boolean
+}
+
+// candidates fetched per requested result, so filtered out chunks don't starve the result list
+const overFetchFactor = 4
+const maxSnippetLines = 60
+
+/**
+ * Folders to search with the code index id of the scope within each of them, folders the scope is not in are
+ * left out. The scope is relative to the first folder, and also to the parent of the folder its first segment names.
+ */
+export function resolveSearchScopes(srcFolders: string[], path?: string): Map<string, string | undefined> {
+	if (!path) {
+		return new Map(srcFolders.map((srcFolder) => [srcFolder, undefined]))
+	}
+	const [firstSegment, ...rest] = path.split(/[\\/]/)
+	const scopePaths = [
+		resolve(srcFolders[0], path),
+		...srcFolders.filter((srcFolder) => basename(srcFolder) === firstSegment).map((srcFolder) => resolve(srcFolder, ...rest)),
+	]
+	const scopes = new Map<string, string | undefined>()
+	for (const srcFolder of srcFolders) {
+		// a path on another drive stays absolute on Windows
+		const scopeId = scopePaths
+			.map((scopePath) => toCodeIndexId(srcFolder, scopePath))
+			.find((id) => !id.startsWith("..") && !isAbsolute(id))
+		if (scopeId !== undefined) {
+			scopes.set(srcFolder, scopeId)
+		}
+	}
+	return scopes
+}
+
+/**
+ * Queries the code index for the chunks closest to a natural language query.
+ * Unlike `FindFilesToEditAgent` there is no LLM re-ranking, the matching chunks are returned as is.
+ * Each folder of a multi-root workspace has its own index, their chunks are merged by score.
+ */
+export class SemanticSearchAgent {
+	private srcFolders: string[]
+	private embeddings: OpenAIEmbeddings | BedrockEmbeddings | OllamaEmbeddings
+	private buildContextOptions: HaiBuildContextOptions
+	private contextDir: string
+
+	constructor(
+		srcFolders: string[],
+		embeddingConfig: EmbeddingConfiguration,
+		buildContextOptions: HaiBuildContextOptions,
+		contextDir = HaiBuildDefaults.defaultContextDirectory,
+	) {
+		this.srcFolders = srcFolders
+		this.embeddings = buildEmbeddingHandler(embeddingConfig).getClient()
+		this.buildContextOptions = buildContextOptions
+		this.contextDir = contextDir
+	}
+
+	async search(
+		query: string,
+		{ limit = HaiBuildDefaults.defaultSemanticSearchLimit, path, isAccessible }: SemanticSearchOptions = {},
+	): Promise<CodeIndexSearchResult[]> {
+		const results: CodeIndexSearchResult[] = []
+		for (const [srcFolder, scopeId] of resolveSearchScopes(this.srcFolders, path)) {
+			results.push(...(await this.searchFolder(srcFolder, query, limit, scopeId, isAccessible)))
+		}
+		return results.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+
+	private async searchFolder(
+		srcFolder: string,
+		query: string,
+		limit: number,
+		scopeId: string | undefined,
+		isAccessible: SemanticSearchOptions["isAccessible"],
+	): Promise<CodeIndexSearchResult[]> {
+		const faissDbPath = getCodeIndexDirectory(srcFolder, this.contextDir, this.buildContextOptions.useContext)
+		if (!codeVectorStoreExists(faissDbPath)) {
+			return []
+		}
+		const vectorStoreType = await resolveCodeVectorStoreType(this.buildContextOptions.vectorStore, faissDbPath)
+		const vectorStore = await loadCodeVectorStore(faissDbPath, this.embeddings, vectorStoreType)
+		const matches = await vectorStore.similaritySearchWithScore(query, limit * overFetchFactor)
+
+		const results: CodeIndexSearchResult[] = []
+		for (const [{ id, pageContent, metadata }, distance] of matches) {
+			if (!id || (scopeId && !isIdWithinPaths(id, [scopeId]))) {
+				continue
+			}
+			const filePath = fromCodeIndexId(srcFolder, id)
+			if (isAccessible && !isAccessible(filePath)) {
+				continue
+			}
+			results.push({
+				path: filePath,
+				startLine: metadata.startLine,
+				endLine: metadata.endLine,
+				symbolName: metadata.symbolName,
+				symbolKind: metadata.symbolKind,
+				score: 1 / (1 + distance),
+				snippet: pageContent,
+			})
+			if (results.length >= limit) {
+				break
+			}
+		}
+		return results
+	}
+}
+
+/**
+ * Formats search results for the tool response, paths are relative to `cwd`.
+ */
+export function formatSemanticSearchResults(results: CodeIndexSearchResult[], cwd: string): string {
+	if (results.length === 0) {
+		return "No matching code found."
+	}
+	return results
+		.map((result, index) => {
+			const filePath = relative(cwd, result.path).replace(/\\/g, "/")
+			const lines = result.startLine ? `:${result.startLine}-${result.endLine}` : ""
+			const symbol = result.symbolName ? ` (${result.symbolKind} ${result.symbolName})` : ""
+			let snippetLines = result.snippet.split("\n")
+			if (snippetLines.length > maxSnippetLines) {
+				const omitted = snippetLines.length - maxSnippetLines
+				snippetLines = [...snippetLines.slice(0, maxSnippetLines), `... (${omitted} more lines)`]
+			}
+			return `${index + 1}. ${filePath}${lines}${symbol} [score: ${result.score.toFixed(3)}]\n${snippetLines.join("\n")}`
+		})
+		.join("\n\n")
+}
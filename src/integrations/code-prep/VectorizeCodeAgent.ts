@@ -1,31 +1,44 @@
-import { FaissStore } from "@langchain/community/vectorstores/faiss"
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters"
 import { OpenAIEmbeddings } from "@langchain/openai"
 import { BedrockEmbeddings } from "@langchain/aws"
 import { isBinaryFileSync } from "isbinaryfile"
 import type { Document } from "@langchain/core/documents"
-import { ensureGitignorePattern, getCodeFiles } from "./helper"
-import { existsSync, readFileSync } from "node:fs"
+import { ensureGitignorePattern, fromCodeIndexId, isIdWithinPaths, partitionCodeFiles, toCodeIndexId } from "./helper"
+import { readFileSync } from "node:fs"
 import { basename, join } from "node:path"
 import { ApiConfiguration } from "../../shared/api"
-import { HaiBuildContextOptions } from "../../shared/customApi"
+import { CodeIndexSkipReason, HaiBuildContextOptions } from "../../shared/customApi"
 import EventEmitter from "node:events"
 import { createHash } from "node:crypto"
 import { HaiBuildDefaults } from "../../shared/haiDefaults"
-import { EmbeddingConfiguration } from "../../shared/embeddings"
+import { EmbeddingConfiguration, getEmbeddingModelFingerprint } from "../../shared/embeddings"
 import { fileExists } from "../../utils/runtime-downloader"
 import { OllamaEmbeddings } from "@langchain/ollama"
 import { buildEmbeddingHandler } from "../../embedding"
+import { KeywordIndex } from "./KeywordIndex"
+import { chunkCodeBySymbols } from "./CodeChunker"
+import { LanguageParser, loadRequiredLanguageParsers } from "../../services/tree-sitter/languageParser"
+import { filterSupportedSourceFiles, parseSourceCodeSymbols } from "../../services/tree-sitter"
+import { EmbeddingPipeline } from "./EmbeddingPipeline"
+import { writeCodeIndexRunReport } from "./CodeIndexInspector"
+import { getFileSummaryPath, isSummaryContextMode, listRollupSummaryFiles, readSummary } from "./CodeSummary"
+import { CodeVectorStore, codeVectorStoreExists, loadCodeVectorStore, resolveCodeVectorStoreType } from "./vector-store"
+
+const faissWithContextDir = ".faiss-context"
+const faissWithoutContextDir = ".faiss"
 
 export class VectorizeCodeAgent extends EventEmitter {
 	private srcFolder: string
 	private abortController = new AbortController()
 
 	private embeddings: OpenAIEmbeddings | BedrockEmbeddings | OllamaEmbeddings
-	private vectorStore: FaissStore
+	private vectorStore!: CodeVectorStore
+	private keywordIndex: KeywordIndex = new KeywordIndex()
 	private buildContextOptions: HaiBuildContextOptions
 	private contextDir: string
 	private embeddingConfig: EmbeddingConfiguration
+	private concurrency: number = HaiBuildDefaults.defaultEmbeddingConcurrency
+	private batchTokenBudget: number = HaiBuildDefaults.defaultEmbeddingBatchTokenBudget
+	private checkpointInterval: number = HaiBuildDefaults.defaultIndexCheckpointInterval
 	private stats: {
 		total: number
 		completed: number
@@ -51,12 +64,26 @@ export class VectorizeCodeAgent extends EventEmitter {
 		const embeddingHandler = buildEmbeddingHandler(this.embeddingConfig)
 		this.embeddings = embeddingHandler.getClient()
 
-		this.vectorStore = new FaissStore(this.embeddings, {})
 		this.buildContextOptions = buildContextOptions
 		this.contextDir = contextDir
 		ensureGitignorePattern(this.srcFolder, `${this.contextDir}/`)
 	}
 
+	withConcurrency(concurrency: number) {
+		this.concurrency = concurrency
+		return this
+	}
+
+	withBatchTokenBudget(batchTokenBudget: number) {
+		this.batchTokenBudget = batchTokenBudget
+		return this
+	}
+
+	withCheckpointInterval(checkpointInterval: number) {
+		this.checkpointInterval = checkpointInterval
+		return this
+	}
+
 	private emitProgress(count: number, ignore: boolean = false) {
 		this.stats.completed += count
 		this.stats.progress = Math.round((this.stats.completed / this.stats.total) * 100)
@@ -67,6 +94,50 @@ export class VectorizeCodeAgent extends EventEmitter {
 		})
 	}
 
+	private getFaissDbPath(useContext: boolean = this.buildContextOptions.useContext) {
+		return join(this.srcFolder, this.contextDir, useContext ? faissWithContextDir : faissWithoutContextDir)
+	}
+
+	/**
+	 * Hash stored with every chunk to skip unchanged files. It only covers what changes the embedded
+	 * content, so indexes imported from a teammate (other credentials, same model) are reused.
+	 */
+	private hashFileContent(fileContent: string, summary?: string) {
+		return createHash("md5")
+			.update(
+				JSON.stringify({
+					fileContent,
+					summary,
+					embeddingModel: getEmbeddingModelFingerprint(this.embeddingConfig),
+					useContext: this.buildContextOptions.useContext,
+				}),
+			)
+			.digest("hex")
+	}
+
+	// the commented copies in the context directory are indexed instead of the source files
+	private indexesContextFiles() {
+		return this.buildContextOptions.useContext && !isSummaryContextMode(this.buildContextOptions)
+	}
+
+	// files of the context directory mirror the workspace, the index refers to the original files
+	private getOriginalFilePath(codeFilePath: string) {
+		return this.indexesContextFiles() ? codeFilePath.replace(`/${this.contextDir}`, "") : codeFilePath
+	}
+
+	// in summary mode the summary of a file is indexed with its code
+	private readFileSummary(filePath: string) {
+		if (!isSummaryContextMode(this.buildContextOptions)) {
+			return undefined
+		}
+		return readSummary(getFileSummaryPath(this.srcFolder, filePath, this.contextDir))
+	}
+
+	private async loadVectorStore(faissDbPath: string) {
+		const type = await resolveCodeVectorStoreType(this.buildContextOptions.vectorStore, faissDbPath)
+		this.vectorStore = await loadCodeVectorStore(faissDbPath, this.embeddings, type)
+	}
+
 	private async job(filePaths?: string[]) {
 		this.running = true
 
@@ -75,13 +146,11 @@ export class VectorizeCodeAgent extends EventEmitter {
 			start: true,
 		})
 
-		const faissWithContextDir = ".faiss-context"
-		const faissWithoutContextDir = ".faiss"
-
 		// faiss db path
-		const faissDbPath = this.buildContextOptions.useContext
-			? join(this.srcFolder, this.contextDir, faissWithContextDir)
-			: join(this.srcFolder, this.contextDir, faissWithoutContextDir)
+		const faissDbPath = this.getFaissDbPath()
+
+		// keyword index lives next to the faiss index so both are rebuilt together
+		const keywordIndexPath = join(faissDbPath, HaiBuildDefaults.defaultKeywordIndexFileName)
 
 		const defaultExcludeDirs: string[] = [
 			...HaiBuildDefaults.defaultDirsToIgnore,
@@ -89,7 +158,7 @@ export class VectorizeCodeAgent extends EventEmitter {
 			faissWithContextDir,
 		]
 
-		if (!this.buildContextOptions.useContext) {
+		if (!this.indexesContextFiles()) {
 			defaultExcludeDirs.push(this.contextDir)
 		}
 
@@ -97,12 +166,26 @@ export class VectorizeCodeAgent extends EventEmitter {
 			? [...this.buildContextOptions.excludeFolders.split(",").map((f) => f.trim()), ...defaultExcludeDirs]
 			: [...defaultExcludeDirs]
 
-		const srcFolder = this.buildContextOptions.useContext ? join(this.srcFolder, this.contextDir) : join(this.srcFolder)
-
-		const codeFiles =
-			filePaths && filePaths.length > 0
-				? new Set(filePaths)
-				: new Set(getCodeFiles(srcFolder, excludedFolders, [HaiBuildDefaults.defaultRepoHashFileName]))
+		const srcFolder = this.indexesContextFiles() ? join(this.srcFolder, this.contextDir) : join(this.srcFolder)
+
+		const isFullRun = !filePaths || filePaths.length === 0
+		// why files were left out of this run, shown by the index inspector
+		const skippedFiles = new Map<string, CodeIndexSkipReason>()
+		let codeFiles: Set<string>
+		if (isFullRun) {
+			const { included, excluded } = partitionCodeFiles(srcFolder, excludedFolders, [
+				HaiBuildDefaults.defaultRepoHashFileName,
+			])
+			codeFiles = new Set(included)
+			if (isSummaryContextMode(this.buildContextOptions)) {
+				listRollupSummaryFiles(this.srcFolder, this.contextDir).forEach((summaryFile) => codeFiles.add(summaryFile))
+			}
+			excluded.forEach((codeFilePath) =>
+				skippedFiles.set(toCodeIndexId(this.srcFolder, this.getOriginalFilePath(codeFilePath)), "excluded"),
+			)
+		} else {
+			codeFiles = new Set(filePaths)
+		}
 
 		this.emit("progress", {
 			type: "total",
@@ -111,24 +194,40 @@ export class VectorizeCodeAgent extends EventEmitter {
 
 		this.stats.total = codeFiles.size
 
-		if (existsSync(faissDbPath)) {
-			const faissIndexPath = join(faissDbPath, "faiss.index")
-			if (fileExists(faissIndexPath)) {
-				try {
-					this.vectorStore = await FaissStore.load(faissDbPath, this.embeddings)
-				} catch (error) {
-					// ignore, we can't do anything about it, the faiss index is corrupted
-					// we will just recreate it
-				}
+		await this.loadVectorStore(faissDbPath)
+		this.keywordIndex = KeywordIndex.load(keywordIndexPath)
+
+		// compact pass: on a full run, drop everything indexed for files that were deleted,
+		// renamed or excluded since the last run, along with orphaned docstore entries
+		if (isFullRun) {
+			// ids of indexes created before ids were workspace relative are never live, those indexes are rebuilt
+			const liveIds = new Set(
+				Array.from(codeFiles).map((codeFilePath) =>
+					toCodeIndexId(this.srcFolder, this.getOriginalFilePath(codeFilePath)),
+				),
+			)
+			const isLive = (id: string) => liveIds.has(id) && fileExists(fromCodeIndexId(this.srcFolder, id))
+			const removedChunks = await this.vectorStore.compact(isLive)
+			this.keywordIndex
+				.ids()
+				.filter((id) => !isLive(id))
+				.forEach((id) => this.keywordIndex.deleteDocument(id))
+			if (removedChunks > 0) {
+				console.log(`Compacted ${removedChunks} stale entries from the vector store`)
 			}
 		}
 
 		// get all the documents from the vector store
-		const docStore = this.vectorStore.getDocstore()._docs
+		const docStore = this.vectorStore.getDocuments()
 		const docHashMap = new Map<string, string>()
+		// files that already have chunks in the vector store, they are replaced when re-indexed
+		const indexedIds = new Set<string>()
 		// create a hashmap of the documents in the vector store with the hash of the file content
 		// hash in the doc is md5 has of the original file content regardless of the `useContext` option
 		docStore.forEach((documentValue) => {
+			if (documentValue.id) {
+				indexedIds.add(documentValue.id)
+			}
 			if (documentValue.id && documentValue.metadata.fileContentHashMD5) {
 				docHashMap.set(documentValue.id, documentValue.metadata.fileContentHashMD5)
 			}
@@ -141,43 +240,44 @@ export class VectorizeCodeAgent extends EventEmitter {
 			// if aborted, save the vector store and break
 			if (this.abortController.signal.aborted || !this.running) {
 				await this.vectorStore.save(faissDbPath)
+				this.keywordIndex.save(keywordIndexPath)
 				break
 			}
 
-			// id is the code path
-			const id = codeFilePath.replace(`/${this.contextDir}`, "")
+			const filePath = this.getOriginalFilePath(codeFilePath)
+			// id is the workspace relative path of the file
+			const id = toCodeIndexId(this.srcFolder, filePath)
 
 			// Check if file is deleted
-			if (!fileExists(id)) {
+			if (!fileExists(filePath)) {
 				console.log(`Skipped deleted file ${codeFilePath}`)
 				codeFilesSet.delete(codeFilePath)
+				skippedFiles.set(id, "deleted")
 				continue
 			}
 
 			// if the file is a binary file, skip it and remove it from the set
-			if (isBinaryFileSync(id)) {
+			if (isBinaryFileSync(filePath)) {
 				console.log(`Skipped binary file ${codeFilePath}`)
 				codeFilesSet.delete(codeFilePath)
+				skippedFiles.set(id, "binary")
 				continue
 			}
 			// read the file content
-			const fileContent = readFileSync(id, "utf-8")
+			const fileContent = readFileSync(filePath, "utf-8")
 			// create a hash of the file content
-			const fileContentHashMD5 = createHash("md5")
-				.update(
-					JSON.stringify({
-						fileContent,
-						embeddingConfig: this.embeddingConfig,
-						buildContextOptions: this.buildContextOptions,
-					}),
-				)
-				.digest("hex")
+			const fileContentHashMD5 = this.hashFileContent(fileContent, this.readFileSummary(filePath))
 			// get the hash of the file content from the vector store
 			const existingDocHash = docHashMap.get(id)
 			// if the file content hash is the same as the one in the vector store, skip it
 			if (existingDocHash && existingDocHash === fileContentHashMD5) {
 				console.log(`Skipped file ${codeFilePath} as it already exists in the vector store`)
 				codeFilesSet.delete(codeFilePath)
+				skippedFiles.set(id, "unchanged")
+				// backfill the keyword index for vector stores created before it existed
+				if (!this.keywordIndex.has(id)) {
+					this.keywordIndex.addDocument(id, readFileSync(codeFilePath, "utf-8"))
+				}
 			} else {
 				// if the file content hash is different, add it to the vector store,
 				// to reuse the hash during the actual indexing process
@@ -191,64 +291,148 @@ export class VectorizeCodeAgent extends EventEmitter {
 
 		console.log("Remaining codeFiles", Array.from(codeFilesSet))
 
+		// load the tree-sitter parsers once for every language we are about to chunk
+		let languageParsers: LanguageParser = {}
+		try {
+			languageParsers = await loadRequiredLanguageParsers(filterSupportedSourceFiles(Array.from(codeFilesSet)))
+		} catch (error) {
+			// fall back to line based chunks, indexing still works without symbols
+			console.error("Failed to load tree-sitter parsers", error)
+		}
+
+		const saveCheckpoint = async () => {
+			await this.vectorStore.save(faissDbPath)
+			this.keywordIndex.save(keywordIndexPath)
+		}
+
+		const saveRunReport = () => {
+			if (!isFullRun) {
+				return
+			}
+			try {
+				writeCodeIndexRunReport(faissDbPath, skippedFiles)
+			} catch (error) {
+				console.error("Failed to write the code index report", error)
+			}
+		}
+
+		// chunks of many files are embedded together, each file is written to the index
+		// (replacing its previous chunks) once all of its chunks have their vectors
+		let filesSinceCheckpoint = 0
+		const pipeline = new EmbeddingPipeline<{ id: string; fileContent: string; docs: Document[] }>(
+			(texts) => this.embeddings.embedDocuments(texts),
+			async ({ id, fileContent, docs }, vectors) => {
+				if (indexedIds.has(id)) {
+					// drop the chunks of the previous version of the file before adding the new ones
+					await this.vectorStore.deleteFiles([id])
+					indexedIds.delete(id)
+				}
+				await this.vectorStore.addVectors(vectors, docs)
+				this.keywordIndex.addDocument(id, fileContent)
+				this.emitProgress(1)
+
+				filesSinceCheckpoint++
+				if (filesSinceCheckpoint >= this.checkpointInterval) {
+					filesSinceCheckpoint = 0
+					await saveCheckpoint()
+				}
+			},
+			{
+				concurrency: this.concurrency,
+				batchTokenBudget: this.batchTokenBudget,
+				signal: this.abortController.signal,
+			},
+		)
+
 		for (const codeFilePath of codeFilesSet) {
-			if (this.abortController.signal.aborted || !this.running) {
-				await this.vectorStore.save(faissDbPath)
+			if (this.abortController.signal.aborted || !this.running || pipeline.failed) {
 				break
 			}
 
-			const id = codeFilePath.replace(`/${this.contextDir}`, "")
+			const filePath = this.getOriginalFilePath(codeFilePath)
+			const id = toCodeIndexId(this.srcFolder, filePath)
 
 			// Check if file is deleted
-			if (!fileExists(id)) {
+			if (!fileExists(filePath)) {
 				console.log(`Skipped deleted file ${codeFilePath}`)
 				codeFilesSet.delete(codeFilePath)
+				skippedFiles.set(id, "deleted")
 				continue
 			}
 
 			// safety check, somehow the file got into the set
-			if (isBinaryFileSync(id)) {
+			if (isBinaryFileSync(filePath)) {
 				console.log(`Skipped binary file ${codeFilePath}`)
+				skippedFiles.set(id, "binary")
 				this.emitProgress(1)
 				continue
 			}
 
 			const fileContent = readFileSync(codeFilePath, "utf-8")
+			const summary = this.readFileSummary(filePath)
 			let fileContentHashMD5 = docHashMap.get(id)
 			if (!fileContentHashMD5) {
 				// create a hash of the file content, if it's not already in the hashmap
-				fileContentHashMD5 = createHash("md5")
-					.update(
-						JSON.stringify({
-							fileContent,
-							embeddingConfig: this.embeddingConfig,
-							buildContextOptions: this.buildContextOptions,
-						}),
-					)
-					.digest("hex")
+				fileContentHashMD5 = this.hashFileContent(fileContent, summary)
 			}
 			const fileName = basename(codeFilePath)
+			const indexedAt = Date.now()
 
-			const textSplitter = new RecursiveCharacterTextSplitter({
-				chunkSize: this.embeddingConfig.provider !== "ollama" ? 8191 : 512,
-				chunkOverlap: 0,
-			})
-			const texts = await textSplitter.splitText(fileContent)
-			const docs: Document[] = texts.map((text) => ({
-				pageContent: text,
+			const symbols = parseSourceCodeSymbols(codeFilePath, fileContent, languageParsers)
+			const chunks = chunkCodeBySymbols(fileContent, symbols, this.embeddingConfig.provider !== "ollama" ? 8191 : 512)
+			const docs: Document[] = chunks.map((chunk) => ({
+				pageContent: chunk.text,
 				id,
-				metadata: { source: codeFilePath, fileName, fileContentHashMD5 },
+				metadata: {
+					source: toCodeIndexId(this.srcFolder, codeFilePath),
+					fileName,
+					fileContentHashMD5,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					indexedAt,
+					...(chunk.symbolName ? { symbolName: chunk.symbolName, symbolKind: chunk.symbolKind } : {}),
+				},
 			}))
+			if (summary) {
+				// a query describing what the file does matches its summary better than its code
+				docs.push({
+					pageContent: summary,
+					id,
+					metadata: {
+						source: toCodeIndexId(this.srcFolder, getFileSummaryPath(this.srcFolder, filePath, this.contextDir)),
+						fileName,
+						fileContentHashMD5,
+						indexedAt,
+						kind: "summary",
+					},
+				})
+			}
 			try {
-				const documentsAdded = await this.vectorStore.addDocuments(docs)
-				await this.vectorStore.save(faissDbPath)
+				await pipeline.push(
+					{ id, fileContent: summary ? `${summary}\n${fileContent}` : fileContent, docs },
+					docs.map((doc) => doc.pageContent),
+				)
 			} catch (error) {
-				this.emit("error", { message: error })
-				return // Stop further processing
+				break
+			}
+		}
+
+		try {
+			await pipeline.drain()
+		} catch (error) {
+			// keep what was embedded before the failure, the next run only picks up the rest
+			await saveCheckpoint()
+			saveRunReport()
+			if (this.abortController.signal.aborted) {
+				// stopped while a request waited for the rate limit, not a failure
+				return
 			}
-			this.emitProgress(1)
+			this.emit("error", { message: error })
+			return // Stop further processing
 		}
 
+		this.keywordIndex.save(keywordIndexPath)
+		saveRunReport()
 		await this.vectorStore.save(faissDbPath).finally(() => {
 			this.emit("progress", {
 				type: "progress",
@@ -270,6 +454,34 @@ export class VectorizeCodeAgent extends EventEmitter {
 		})
 	}
 
+	/**
+	 * Removes the chunks of deleted files from the vector store and keyword index
+	 * without re-running the indexing job.
+	 */
+	async deleteFiles(filePaths: string[]) {
+		const faissDbPath = this.getFaissDbPath()
+		if (!codeVectorStoreExists(faissDbPath)) {
+			return
+		}
+		const ids = filePaths.map((filePath) => toCodeIndexId(this.srcFolder, filePath))
+		await this.loadVectorStore(faissDbPath)
+		const removedChunks = await this.vectorStore.deleteFiles(ids)
+
+		const keywordIndexPath = join(faissDbPath, HaiBuildDefaults.defaultKeywordIndexFileName)
+		const keywordIndex = KeywordIndex.load(keywordIndexPath)
+		const removedKeywordDocs = keywordIndex
+			.ids()
+			.filter((id) => isIdWithinPaths(id, ids))
+			.filter((id) => keywordIndex.deleteDocument(id)).length
+
+		if (removedChunks > 0) {
+			await this.vectorStore.save(faissDbPath)
+		}
+		if (removedKeywordDocs > 0) {
+			keywordIndex.save(keywordIndexPath)
+		}
+	}
+
 	start(filePaths?: string[]) {
 		if (this.abortController.signal.aborted) {
 			return
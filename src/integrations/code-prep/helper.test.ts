@@ -0,0 +1,38 @@
+import { describe, it } from "mocha"
+import { join } from "path"
+import "should"
+import { fromCodeIndexId, groupFilesByWorkspaceFolder, isIdWithinPaths, toCodeIndexId } from "./helper"
+
+describe("code-prep helper", () => {
+	const frontend = join("/workspace", "frontend")
+	const backend = join("/workspace", "backend")
+
+	it("should map workspace files to portable index ids and back", () => {
+		const filePath = join(frontend, "src", "app.ts")
+		const id = toCodeIndexId(frontend, filePath)
+
+		id.should.equal("src/app.ts")
+		fromCodeIndexId(frontend, id).should.equal(filePath)
+		isIdWithinPaths(id, ["src"]).should.be.true()
+		isIdWithinPaths(id, ["sr"]).should.be.false()
+	})
+
+	it("should group files by the innermost workspace folder", () => {
+		const nested = join(backend, "shared")
+		const groups = groupFilesByWorkspaceFolder(
+			[
+				join(frontend, "index.ts"),
+				join(nested, "types.ts"),
+				join(backend, "server.ts"),
+				join("/workspace", "frontend-legacy", "index.ts"),
+			],
+			[frontend, backend, nested],
+		)
+
+		Array.from(groups).should.eql([
+			[frontend, [join(frontend, "index.ts")]],
+			[backend, [join(backend, "server.ts")]],
+			[nested, [join(nested, "types.ts")]],
+		])
+	})
+})
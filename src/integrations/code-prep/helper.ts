@@ -1,5 +1,5 @@
 import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs"
-import { basename, join } from "node:path"
+import { basename, join, relative, sep } from "node:path"
 import { AzureOpenAIEmbeddings, OpenAIEmbeddings } from "@langchain/openai"
 import { BedrockEmbeddings } from "@langchain/aws"
 import { ApiStream } from "../../api/transform/stream"
@@ -15,10 +15,30 @@ import { OllamaEmbeddings } from "@langchain/ollama"
  * @returns An array of strings representing the file paths of all code files found.
  */
 export function getCodeFiles(srcFolder: string, excludedFolders: string[], excludedFiles: string[] = []): string[] {
+	return partitionCodeFiles(srcFolder, excludedFolders, excludedFiles).included
+}
+
+/**
+ * Same walk as `getCodeFiles`, but also returns the files dropped by the exclude patterns
+ * (files ignored by .gitignore are never walked and are not part of either list).
+ */
+export function partitionCodeFiles(
+	srcFolder: string,
+	excludedFolders: string[],
+	excludedFiles: string[] = [],
+): { included: string[]; excluded: string[] } {
 	const ig = ignore().add([...excludedFolders, ...excludedFiles])
-	const files = walk.sync({ path: srcFolder, follow: true, ignoreFiles: [".gitignore"] })
-	const filesFiltered = ig.filter(files)
-	return filesFiltered.map((file) => join(srcFolder, file))
+	const files: string[] = walk.sync({ path: srcFolder, follow: true, ignoreFiles: [".gitignore"] })
+	const included: string[] = []
+	const excluded: string[] = []
+	for (const file of files) {
+		if (ig.ignores(file)) {
+			excluded.push(join(srcFolder, file))
+		} else {
+			included.push(join(srcFolder, file))
+		}
+	}
+	return { included, excluded }
 }
 
 /**
@@ -317,3 +337,49 @@ export async function exponentialBackoff<T>(operation: () => T, maxRetries: numb
 		}
 	}
 }
+
+/**
+ * Checks whether a document id (the workspace relative path it was indexed from) belongs to one of
+ * the given ids, either as the file itself or as a file inside a deleted directory.
+ */
+export function isIdWithinPaths(id: string, paths: string[]): boolean {
+	return paths.some((path) => id === path || id.startsWith(path.endsWith("/") ? path : `${path}/`))
+}
+
+/**
+ * Document id of a workspace file in the code index. Ids are workspace relative with `/` separators,
+ * so an index built on one machine can be imported on another.
+ */
+export function toCodeIndexId(srcFolder: string, filePath: string): string {
+	return relative(srcFolder, filePath).split(sep).join("/")
+}
+
+/**
+ * Absolute path of the workspace file a code index document id was created from.
+ */
+export function fromCodeIndexId(srcFolder: string, id: string): string {
+	return join(srcFolder, ...id.split("/"))
+}
+
+/**
+ * Directory holding the code index (vector store and keyword index) of a workspace.
+ */
+export function getCodeIndexDirectory(srcFolder: string, contextDir: string, useContext: boolean): string {
+	return join(srcFolder, contextDir, useContext ? ".faiss-context" : ".faiss")
+}
+
+/**
+ * Groups files by the workspace folder they belong to, in the order of `workspaceFolders`.
+ * Nested workspace folders own their files, files outside of every folder are left out.
+ */
+export function groupFilesByWorkspaceFolder(filePaths: string[], workspaceFolders: string[]): Map<string, string[]> {
+	const groups = new Map<string, string[]>(workspaceFolders.map((folder) => [folder, []]))
+	const foldersByDepth = [...workspaceFolders].sort((a, b) => b.length - a.length)
+	for (const filePath of filePaths) {
+		const folder = foldersByDepth.find((folder) => filePath === folder || filePath.startsWith(`${folder}${sep}`))
+		if (folder) {
+			groups.get(folder)!.push(filePath)
+		}
+	}
+	return groups
+}
@@ -0,0 +1,120 @@
+import { FaissStore } from "@langchain/community/vectorstores/faiss"
+import type { Document } from "@langchain/core/documents"
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { join } from "node:path"
+import { ensureFaissPlatformDeps } from "../../../utils/faiss"
+import { fileExists } from "../../../utils/runtime-downloader"
+import { isIdWithinPaths } from "../helper"
+import type { CodeVectorStore } from "."
+
+let faissAvailability: Promise<boolean> | undefined
+
+/**
+ * Code index backed by faiss-node, which needs native binaries downloaded at runtime.
+ */
+export class FaissCodeVectorStore implements CodeVectorStore {
+	readonly type = "faiss"
+
+	private constructor(private store: FaissStore) {}
+
+	static exists(directory: string): boolean {
+		return fileExists(join(directory, "faiss.index"))
+	}
+
+	static isAvailable(): Promise<boolean> {
+		if (!faissAvailability) {
+			faissAvailability = (async () => {
+				try {
+					await ensureFaissPlatformDeps()
+					await FaissStore.importFaiss()
+					return true
+				} catch (error) {
+					console.error("faiss", "faiss-node could not be loaded", error)
+					return false
+				}
+			})()
+		}
+		return faissAvailability
+	}
+
+	static async load(directory: string, embeddings: EmbeddingsInterface): Promise<FaissCodeVectorStore> {
+		if (FaissCodeVectorStore.exists(directory)) {
+			try {
+				return new FaissCodeVectorStore(await FaissStore.load(directory, embeddings))
+			} catch (error) {
+				// ignore, we can't do anything about it, the faiss index is corrupted
+				// we will just recreate it
+			}
+		}
+		return new FaissCodeVectorStore(new FaissStore(embeddings, {}))
+	}
+
+	async addDocuments(documents: Document[]) {
+		await this.store.addDocuments(documents)
+	}
+
+	async addVectors(vectors: number[][], documents: Document[]) {
+		await this.store.addVectors(vectors, documents)
+	}
+
+	async similaritySearchWithScore(query: string, k: number) {
+		if (this.getDocuments().length === 0) {
+			return []
+		}
+		return this.store.similaritySearchWithScore(query, k)
+	}
+
+	async deleteFiles(filePaths: string[]) {
+		// documents carry the file path as their `id` while the docstore is keyed by a
+		// generated uuid, so the uuids are looked up before deleting them from the index
+		const mappedIds = new Set(Object.values(this.store.getMapping()))
+		const idsToDelete: string[] = []
+		this.store.getDocstore()._docs.forEach((document, docstoreId) => {
+			if (document.id && mappedIds.has(docstoreId) && isIdWithinPaths(document.id, filePaths)) {
+				idsToDelete.push(docstoreId)
+			}
+		})
+
+		if (idsToDelete.length > 0) {
+			await this.store.delete({ ids: idsToDelete })
+		}
+		return idsToDelete.length
+	}
+
+	async compact(isLive: (id: string) => boolean) {
+		const docs = this.store.getDocstore()._docs
+		const mappedIds = new Set(Object.values(this.store.getMapping()))
+		let removed = 0
+
+		// docstore entries that are not referenced by any vector
+		for (const docstoreId of Array.from(docs.keys())) {
+			if (!mappedIds.has(docstoreId)) {
+				docs.delete(docstoreId)
+				removed++
+			}
+		}
+
+		// vectors without a document, or whose file is gone
+		const idsToDelete = Array.from(mappedIds).filter((docstoreId) => {
+			const document = docs.get(docstoreId)
+			return !document || !document.id || !isLive(document.id)
+		})
+		if (idsToDelete.length > 0) {
+			await this.store.delete({ ids: idsToDelete })
+			removed += idsToDelete.length
+		}
+
+		return removed
+	}
+
+	getDocuments() {
+		return Array.from(this.store.getDocstore()._docs.values())
+	}
+
+	async save(directory: string) {
+		// faiss can't write an index that never had a vector added
+		if (this.store._index) {
+			await this.store.save(directory)
+		}
+	}
+}
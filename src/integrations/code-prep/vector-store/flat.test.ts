@@ -0,0 +1,78 @@
+import { describe, it } from "mocha"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { FlatCodeVectorStore } from "./flat"
+
+// embeds text as letter counts for a, b and c, which is enough to get predictable neighbours
+const embeddings: EmbeddingsInterface = {
+	embedQuery: async (text: string) => ["a", "b", "c"].map((letter) => text.split(letter).length - 1),
+	embedDocuments: async (texts: string[]) =>
+		Promise.all(texts.map((text) => ["a", "b", "c"].map((letter) => text.split(letter).length - 1))),
+}
+
+const document = (id: string, pageContent: string) => ({ id, pageContent, metadata: { source: id } })
+
+describe("FlatCodeVectorStore", () => {
+	it("should return the nearest documents first", async () => {
+		const store = new FlatCodeVectorStore(embeddings)
+		await store.addDocuments([document("/a.ts", "aaa"), document("/b.ts", "bbb"), document("/c.ts", "ccc")])
+
+		const results = await store.similaritySearchWithScore("bb", 2)
+		results.map(([{ id }]) => id).should.eql(["/b.ts", "/a.ts"])
+		results[0][1].should.equal(1)
+	})
+
+	it("should return nothing when empty", async () => {
+		const store = new FlatCodeVectorStore(embeddings)
+		const results = await store.similaritySearchWithScore("a", 4)
+		results.should.be.empty()
+	})
+
+	it("should delete every chunk of a file and of files in a directory", async () => {
+		const store = new FlatCodeVectorStore(embeddings)
+		await store.addDocuments([
+			document("/src/a.ts", "a"),
+			document("/src/a.ts", "aa"),
+			document("/src/lib/b.ts", "b"),
+			document("/src/library.ts", "c"),
+		])
+		const removed = await store.deleteFiles(["/src/a.ts", "/src/lib"])
+		removed.should.equal(3)
+		const results = await store.similaritySearchWithScore("c", 4)
+		results.map(([{ id }]) => id).should.eql(["/src/library.ts"])
+	})
+
+	it("should compact documents that are no longer live", async () => {
+		const store = new FlatCodeVectorStore(embeddings)
+		await store.addDocuments([document("/a.ts", "a"), document("/b.ts", "b")])
+		const removed = await store.compact((id) => id === "/b.ts")
+		removed.should.equal(1)
+		const results = await store.similaritySearchWithScore("a", 4)
+		results.map(([{ id }]) => id).should.eql(["/b.ts"])
+	})
+
+	it("should round trip through save and load", async () => {
+		const directory = mkdtempSync(join(tmpdir(), "flat-vector-store-"))
+		try {
+			const store = new FlatCodeVectorStore(embeddings)
+			await store.addDocuments([document("/a.ts", "aab"), document("/b.ts", "bbc")])
+			await store.save(directory)
+
+			FlatCodeVectorStore.exists(directory).should.be.true()
+			const loaded = await FlatCodeVectorStore.load(directory, embeddings)
+			const results = await loaded.similaritySearchWithScore("bc", 2)
+			results.should.eql(await store.similaritySearchWithScore("bc", 2))
+		} finally {
+			rmSync(directory, { recursive: true, force: true })
+		}
+	})
+
+	it("should reject vectors of a different dimension", async () => {
+		const store = new FlatCodeVectorStore(embeddings)
+		await store.addVectors([[1, 2, 3]], [document("/a.ts", "a")])
+		await store.addVectors([[1, 2]], [document("/b.ts", "b")]).should.be.rejectedWith(/dimensions/)
+	})
+})
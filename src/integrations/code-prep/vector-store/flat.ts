@@ -0,0 +1,170 @@
+import type { Document } from "@langchain/core/documents"
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { isIdWithinPaths } from "../helper"
+import type { CodeVectorStore } from "."
+
+const FLAT_INDEX_VERSION = 1
+const vectorsFileName = "hai.vectors.bin"
+const documentsFileName = "hai.documents.json"
+
+interface FlatIndexData {
+	version: number
+	dimension: number
+	documents: Document[]
+}
+
+/**
+ * Code index written in plain TypeScript, so indexing works without downloading native binaries.
+ *
+ * Vectors are kept in a single `Float32Array` and searched exhaustively with squared L2 distance,
+ * the same metric as faiss' `IndexFlatL2`, so scores are comparable between both backends.
+ * On disk the vectors are stored as raw little-endian floats next to a JSON docstore.
+ */
+export class FlatCodeVectorStore implements CodeVectorStore {
+	readonly type = "builtin"
+
+	private dimension = 0
+	// grows by doubling, only the first `documents.length * dimension` floats are in use
+	private vectors = new Float32Array(0)
+	private documents: Document[] = []
+
+	constructor(private readonly embeddings: EmbeddingsInterface) {}
+
+	static exists(directory: string): boolean {
+		return existsSync(join(directory, documentsFileName)) && existsSync(join(directory, vectorsFileName))
+	}
+
+	static async load(directory: string, embeddings: EmbeddingsInterface): Promise<FlatCodeVectorStore> {
+		const store = new FlatCodeVectorStore(embeddings)
+		if (!FlatCodeVectorStore.exists(directory)) {
+			return store
+		}
+		try {
+			const data = JSON.parse(readFileSync(join(directory, documentsFileName), "utf-8")) as FlatIndexData
+			const buffer = readFileSync(join(directory, vectorsFileName))
+			// copy into an aligned buffer, node buffers may start at any byte offset
+			const vectors = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength))
+			if (data.version === FLAT_INDEX_VERSION && vectors.length === data.documents.length * data.dimension) {
+				store.dimension = data.dimension
+				store.documents = data.documents
+				store.vectors = vectors
+			}
+		} catch (error) {
+			// the index is corrupted, it will be rebuilt by the next indexing run
+			console.error("Failed to load the built-in vector store", error)
+		}
+		return store
+	}
+
+	async addDocuments(documents: Document[]) {
+		if (documents.length === 0) {
+			return
+		}
+		const vectors = await this.embeddings.embedDocuments(documents.map((document) => document.pageContent))
+		await this.addVectors(vectors, documents)
+	}
+
+	async addVectors(vectors: number[][], documents: Document[]) {
+		if (vectors.length !== documents.length) {
+			throw new Error("Vectors and documents must have the same length")
+		}
+		if (vectors.length === 0) {
+			return
+		}
+		if (this.documents.length === 0) {
+			this.dimension = vectors[0].length
+		}
+		if (vectors.some((vector) => vector.length !== this.dimension)) {
+			throw new Error(`Vectors must have the same length as the number of dimensions (${this.dimension})`)
+		}
+		const used = this.documents.length * this.dimension
+		const required = used + vectors.length * this.dimension
+		if (required > this.vectors.length) {
+			const next = new Float32Array(Math.max(required, this.vectors.length * 2))
+			next.set(this.vectors.subarray(0, used))
+			this.vectors = next
+		}
+		vectors.forEach((vector, index) => {
+			this.vectors.set(vector, used + index * this.dimension)
+		})
+		this.documents.push(...documents)
+	}
+
+	async similaritySearchWithScore(query: string, k: number): Promise<[Document, number][]> {
+		if (this.documents.length === 0) {
+			return []
+		}
+		return this.similaritySearchVectorWithScore(await this.embeddings.embedQuery(query), k)
+	}
+
+	similaritySearchVectorWithScore(query: number[], k: number): [Document, number][] {
+		if (query.length !== this.dimension) {
+			throw new Error(`Query vector must have the same length as the number of dimensions (${this.dimension})`)
+		}
+		const results: [number, number][] = []
+		for (let index = 0; index < this.documents.length; index++) {
+			const offset = index * this.dimension
+			let distance = 0
+			for (let i = 0; i < this.dimension; i++) {
+				const diff = this.vectors[offset + i] - query[i]
+				distance += diff * diff
+			}
+			results.push([index, distance])
+		}
+		return results
+			.sort((a, b) => a[1] - b[1])
+			.slice(0, k)
+			.map(([index, distance]) => [this.documents[index], distance])
+	}
+
+	async deleteFiles(filePaths: string[]) {
+		return this.retain((document) => !document.id || !isIdWithinPaths(document.id, filePaths))
+	}
+
+	async compact(isLive: (id: string) => boolean) {
+		return this.retain((document) => !!document.id && isLive(document.id))
+	}
+
+	getDocuments() {
+		return this.documents
+	}
+
+	async save(directory: string) {
+		mkdirSync(directory, { recursive: true })
+		const data: FlatIndexData = {
+			version: FLAT_INDEX_VERSION,
+			dimension: this.dimension,
+			documents: this.documents,
+		}
+		// write to temporary files first so a crash mid-save never leaves a half written index
+		const vectorsPath = join(directory, vectorsFileName)
+		const documentsPath = join(directory, documentsFileName)
+		const used = this.vectors.subarray(0, this.documents.length * this.dimension)
+		writeFileSync(`${vectorsPath}.tmp`, Buffer.from(used.buffer, used.byteOffset, used.byteLength))
+		writeFileSync(`${documentsPath}.tmp`, JSON.stringify(data))
+		renameSync(`${vectorsPath}.tmp`, vectorsPath)
+		renameSync(`${documentsPath}.tmp`, documentsPath)
+	}
+
+	private retain(predicate: (document: Document) => boolean): number {
+		const keep: number[] = []
+		this.documents.forEach((document, index) => {
+			if (predicate(document)) {
+				keep.push(index)
+			}
+		})
+		const removed = this.documents.length - keep.length
+		if (removed === 0) {
+			return 0
+		}
+		const vectors = new Float32Array(keep.length * this.dimension)
+		keep.forEach((index, position) => {
+			vectors.set(this.vectors.subarray(index * this.dimension, (index + 1) * this.dimension), position * this.dimension)
+		})
+		this.vectors = vectors
+		this.documents = keep.map((index) => this.documents[index])
+		return removed
+	}
+}
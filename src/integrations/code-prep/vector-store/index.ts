@@ -0,0 +1,76 @@
+import type { Document } from "@langchain/core/documents"
+import type { EmbeddingsInterface } from "@langchain/core/embeddings"
+import { CodeVectorStoreType } from "../../../shared/customApi"
+import { FaissCodeVectorStore } from "./faiss"
+import { FlatCodeVectorStore } from "./flat"
+
+/**
+ * Storage backend for the code index. Documents use the workspace relative path of the indexed
+ * file as their `id`, a file may have several documents (one per chunk).
+ */
+export interface CodeVectorStore {
+	readonly type: ResolvedCodeVectorStoreType
+	addDocuments(documents: Document[]): Promise<void>
+	// adds documents whose embeddings were already computed, in the same order
+	addVectors(vectors: number[][], documents: Document[]): Promise<void>
+	// lower scores are closer matches (squared L2 distance)
+	similaritySearchWithScore(query: string, k: number): Promise<[Document, number][]>
+	// removes every chunk of the given files or directories, returns the number of chunks removed
+	deleteFiles(filePaths: string[]): Promise<number>
+	// removes chunks of files that are no longer live and entries the backend can't search
+	compact(isLive: (id: string) => boolean): Promise<number>
+	getDocuments(): Document[]
+	save(directory: string): Promise<void>
+}
+
+export type ResolvedCodeVectorStoreType = Exclude<CodeVectorStoreType, "auto">
+
+/**
+ * Picks the vector store backend for an index directory.
+ *
+ * `auto` keeps using the backend an existing index was built with, and otherwise prefers
+ * faiss-node, falling back to the built-in store when the native binaries can't be loaded
+ * (air-gapped machines, unsupported platforms).
+ */
+export async function resolveCodeVectorStoreType(
+	preference: CodeVectorStoreType | undefined,
+	directory: string,
+): Promise<ResolvedCodeVectorStoreType> {
+	if (preference === "builtin") {
+		return "builtin"
+	}
+	if (preference !== "faiss" && FlatCodeVectorStore.exists(directory) && !FaissCodeVectorStore.exists(directory)) {
+		return "builtin"
+	}
+	if (await FaissCodeVectorStore.isAvailable()) {
+		return "faiss"
+	}
+	if (preference === "faiss") {
+		throw new Error("faiss-node is not available on this machine, switch the code index vector store to Built-in")
+	}
+	console.warn("faiss-node is not available, using the built-in vector store")
+	return "builtin"
+}
+
+export function codeVectorStoreExists(directory: string): boolean {
+	return FaissCodeVectorStore.exists(directory) || FlatCodeVectorStore.exists(directory)
+}
+
+/**
+ * Loads the code index stored in `directory`, or returns an empty store when there is none
+ * (or it can't be read, in which case it will be rebuilt).
+ */
+export async function loadCodeVectorStore(
+	directory: string,
+	embeddings: EmbeddingsInterface,
+	type: ResolvedCodeVectorStoreType,
+): Promise<CodeVectorStore> {
+	switch (type) {
+		case "faiss":
+			return FaissCodeVectorStore.load(directory, embeddings)
+		case "builtin":
+			return FlatCodeVectorStore.load(directory, embeddings)
+		default:
+			throw new Error(`Unsupported vector store: ${type}`)
+	}
+}
@@ -2,6 +2,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import os from "os"
 import * as path from "path"
 import * as vscode from "vscode"
+import { formatHaiStoryReportHtml, formatHaiStoryReportMarkdown, HaiStoryReport } from "./hai-story-report"
 
 export async function downloadTask(dateTs: number, conversationHistory: Anthropic.MessageParam[]) {
 	// File name
@@ -28,21 +29,36 @@ export async function downloadTask(dateTs: number, conversationHistory: Anthropi
 		})
 		.join("---\n\n")
 
+	await saveExport(fileName, markdownContent, { Markdown: ["md"] })
+}
+
+/**
+ * Writes a progress report of the stories of a HAI task folder, as Markdown or as a standalone HTML page.
+ */
+export async function downloadHaiStoryReport(report: HaiStoryReport, format: "markdown" | "html") {
+	const date = new Date(report.generatedAt)
+	const fileName = `hai_story_report_${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+	if (format === "html") {
+		await saveExport(`${fileName}.html`, formatHaiStoryReportHtml(report), { HTML: ["html"] })
+	} else {
+		await saveExport(`${fileName}.md`, formatHaiStoryReportMarkdown(report), { Markdown: ["md"] })
+	}
+}
+
+async function saveExport(fileName: string, content: string, filters: Record<string, string[]>) {
 	// Prompt user for save location
 	const saveUri = await vscode.window.showSaveDialog({
-		filters: { Markdown: ["md"] },
+		filters,
 		defaultUri: vscode.Uri.file(path.join(os.homedir(), "Downloads", fileName)),
 	})
 
 	if (saveUri) {
 		try {
 			// Write content to the selected location
-			await vscode.workspace.fs.writeFile(saveUri, new TextEncoder().encode(markdownContent))
+			await vscode.workspace.fs.writeFile(saveUri, new TextEncoder().encode(content))
 			vscode.window.showTextDocument(saveUri, { preview: true })
 		} catch (error) {
-			vscode.window.showErrorMessage(
-				`Failed to save markdown file: ${error instanceof Error ? error.message : String(error)}`,
-			)
+			vscode.window.showErrorMessage(`Failed to save the file: ${error instanceof Error ? error.message : String(error)}`)
 		}
 	}
 }
@@ -0,0 +1,76 @@
+import { describe, it } from "mocha"
+import "should"
+import { formatHaiStoryReportHtml, formatHaiStoryReportMarkdown, getChangedFiles, HaiStoryReport } from "./hai-story-report"
+
+describe("HAI story report", () => {
+	const report: HaiStoryReport = {
+		folder: "/workspace/specs",
+		generatedAt: 0,
+		stories: [
+			{
+				id: "US1",
+				name: "Login",
+				description: "Users can log in",
+				storyTicketId: "PROJ-1",
+				tasks: [
+					{
+						id: "TASK1",
+						list: "Add the <form> | validation",
+						subTaskTicketId: "PROJ-2",
+						status: "completed",
+						acceptanceChecks: [
+							{ criterion: "It validates the email", status: "pass" },
+							{ criterion: "It shows the errors", status: "unknown" },
+						],
+						runs: [
+							{
+								historyTaskId: "100",
+								tokensIn: 1000,
+								tokensOut: 200,
+								cacheWrites: 0,
+								cacheReads: 300,
+								totalCost: 0.012,
+								filesChanged: ["src/login.ts"],
+							},
+							{
+								historyTaskId: "200",
+								tokensIn: 500,
+								tokensOut: 100,
+								cacheWrites: 0,
+								cacheReads: 0,
+								totalCost: 0.003,
+								filesChanged: ["src/login.ts", "src/login.test.ts"],
+							},
+						],
+					},
+					{ id: "TASK2", list: "Add the api", status: "not-started", runs: [] },
+				],
+			},
+		],
+	}
+
+	it("should list the tasks of every story with their runs, metrics and files", () => {
+		const markdown = formatHaiStoryReportMarkdown(report)
+		markdown.should.containEql("- 1 stories, 1/2 tasks completed\n- 2,100 tokens, $0.0150\n- 2 files changed")
+		markdown.should.containEql("## US1: Login (PROJ-1)")
+		markdown.should.containEql(
+			"| TASK1: Add the <form> \\| validation | PROJ-2 | Completed (1/2 acceptance criteria passed) | 100, 200 | 2,100 | $0.0150 | `src/login.ts`<br>`src/login.test.ts` |",
+		)
+		markdown.should.containEql("| TASK2: Add the api |  | Not started |  | 0 | $0.0000 |  |")
+
+		const html = formatHaiStoryReportHtml(report)
+		html.should.containEql("<td>TASK1: Add the &lt;form&gt; | validation</td>")
+		html.should.containEql("<code>src/login.test.ts</code>")
+	})
+
+	it("should read the changed files from the file edit tool messages", () => {
+		const messages = [
+			{ ts: 1, type: "say", say: "tool", text: JSON.stringify({ tool: "readFile", path: "README.md" }) },
+			{ ts: 2, type: "ask", ask: "tool", text: JSON.stringify({ tool: "newFileCreated", path: "src/login.ts" }) },
+			{ ts: 3, type: "say", say: "tool", text: JSON.stringify({ tool: "editedExistingFile", path: "src/app.ts" }) },
+			{ ts: 4, type: "ask", ask: "tool", text: JSON.stringify({ tool: "editedExistingFile", path: "src/login.ts" }) },
+			{ ts: 5, type: "say", say: "text", text: "Done" },
+		]
+		getChangedFiles(messages).should.eql(["src/login.ts", "src/app.ts"])
+	})
+})
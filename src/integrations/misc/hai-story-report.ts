@@ -0,0 +1,200 @@
+import { HaiAcceptanceCheck, HaiTaskStatus } from "../../shared/customApi"
+
+// one execution of a HAI task, with the metrics of its history item
+export type HaiStoryReportRun = {
+	historyTaskId: string
+	ts?: number
+	tokensIn: number
+	tokensOut: number
+	cacheWrites: number
+	cacheReads: number
+	totalCost: number
+	filesChanged: string[]
+}
+
+export type HaiStoryReportTask = {
+	id: string
+	list: string
+	subTaskTicketId?: string
+	status: HaiTaskStatus
+	acceptanceChecks?: HaiAcceptanceCheck[]
+	runs: HaiStoryReportRun[]
+}
+
+export type HaiStoryReportStory = {
+	id: string
+	name: string
+	description: string
+	storyTicketId?: string
+	tasks: HaiStoryReportTask[]
+}
+
+export type HaiStoryReport = {
+	folder: string
+	generatedAt: number
+	stories: HaiStoryReportStory[]
+}
+
+// the fields of the ui messages (ClineMessage) of a task used to find the changed files
+type HaiStoryReportMessage = {
+	ask?: string
+	say?: string
+	text?: string
+	partial?: boolean
+}
+
+type Totals = { tokens: number; cost: number; files: string[] }
+
+const statusLabels: Record<HaiTaskStatus, string> = {
+	"not-started": "Not started",
+	"in-progress": "In progress",
+	completed: "Completed",
+	failed: "Failed",
+}
+
+/**
+ * Files written by a task, from the file edit tool messages of its ui messages, in the order they were first edited.
+ */
+export function getChangedFiles(messages: HaiStoryReportMessage[]): string[] {
+	const files = new Set<string>()
+	for (const message of messages) {
+		if ((message.say !== "tool" && message.ask !== "tool") || !message.text || message.partial) {
+			continue
+		}
+		try {
+			const tool = JSON.parse(message.text) as { tool?: string; path?: string }
+			if ((tool.tool === "editedExistingFile" || tool.tool === "newFileCreated") && tool.path) {
+				files.add(tool.path)
+			}
+		} catch {
+			// not a tool message
+		}
+	}
+	return [...files]
+}
+
+export function formatHaiStoryReportMarkdown(report: HaiStoryReport): string {
+	const lines = [
+		`# HAI Story Progress Report`,
+		"",
+		`Task folder: \`${report.folder}\`  `,
+		`Generated: ${new Date(report.generatedAt).toLocaleString()}`,
+		"",
+		...formatSummary(report).map((line) => `- ${line}`),
+	]
+	for (const story of report.stories) {
+		const totals = getTotals(story.tasks)
+		lines.push("", `## ${story.id}: ${toSingleLine(story.name)}${story.storyTicketId ? ` (${story.storyTicketId})` : ""}`, "")
+		if (story.description) {
+			lines.push(toSingleLine(story.description), "")
+		}
+		lines.push(
+			`${countCompleted(story.tasks)}/${story.tasks.length} tasks completed, ${formatTokens(totals.tokens)} tokens, ${formatCost(totals.cost)}`,
+			"",
+			"| Task | Ticket | Status | History task ids | Tokens | Cost | Files changed |",
+			"| --- | --- | --- | --- | --- | --- | --- |",
+		)
+		for (const task of story.tasks) {
+			const taskTotals = getTotals([task])
+			lines.push(
+				`| ${[
+					`${task.id}: ${escapeMarkdownCell(task.list)}`,
+					task.subTaskTicketId ?? "",
+					formatStatus(task),
+					task.runs.map(({ historyTaskId }) => historyTaskId).join(", "),
+					formatTokens(taskTotals.tokens),
+					formatCost(taskTotals.cost),
+					taskTotals.files.map((file) => `\`${escapeMarkdownCell(file)}\``).join("<br>"),
+				].join(" | ")} |`,
+			)
+		}
+	}
+	return `${lines.join("\n")}\n`
+}
+
+export function formatHaiStoryReportHtml(report: HaiStoryReport): string {
+	const stories = report.stories.map((story) => {
+		const totals = getTotals(story.tasks)
+		const rows = story.tasks.map((task) => {
+			const taskTotals = getTotals([task])
+			return `<tr><td>${escapeHtml(`${task.id}: ${task.list}`)}</td><td>${escapeHtml(task.subTaskTicketId ?? "")}</td><td>${escapeHtml(formatStatus(task))}</td><td>${escapeHtml(task.runs.map(({ historyTaskId }) => historyTaskId).join(", "))}</td><td>${formatTokens(taskTotals.tokens)}</td><td>${formatCost(taskTotals.cost)}</td><td>${taskTotals.files.map((file) => `<code>${escapeHtml(file)}</code>`).join("<br>")}</td></tr>`
+		})
+		return [
+			`<h2>${escapeHtml(`${story.id}: ${story.name}${story.storyTicketId ? ` (${story.storyTicketId})` : ""}`)}</h2>`,
+			story.description ? `<p>${escapeHtml(story.description)}</p>` : "",
+			`<p>${countCompleted(story.tasks)}/${story.tasks.length} tasks completed, ${formatTokens(totals.tokens)} tokens, ${formatCost(totals.cost)}</p>`,
+			`<table><thead><tr><th>Task</th><th>Ticket</th><th>Status</th><th>History task ids</th><th>Tokens</th><th>Cost</th><th>Files changed</th></tr></thead><tbody>${rows.join("")}</tbody></table>`,
+		].join("\n")
+	})
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>HAI Story Progress Report</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+</style>
+</head>
+<body>
+<h1>HAI Story Progress Report</h1>
+<p>Task folder: <code>${escapeHtml(report.folder)}</code><br>Generated: ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+<ul>${formatSummary(report)
+		.map((line) => `<li>${escapeHtml(line)}</li>`)
+		.join("")}</ul>
+${stories.join("\n")}
+</body>
+</html>
+`
+}
+
+function formatSummary(report: HaiStoryReport): string[] {
+	const tasks = report.stories.flatMap((story) => story.tasks)
+	const totals = getTotals(tasks)
+	return [
+		`${report.stories.length} stories, ${countCompleted(tasks)}/${tasks.length} tasks completed`,
+		`${formatTokens(totals.tokens)} tokens, ${formatCost(totals.cost)}`,
+		`${totals.files.length} files changed`,
+	]
+}
+
+function formatStatus(task: HaiStoryReportTask): string {
+	const checks = task.acceptanceChecks
+	const passed = checks?.filter((check) => check.status === "pass").length
+	return `${statusLabels[task.status]}${checks?.length ? ` (${passed}/${checks.length} acceptance criteria passed)` : ""}`
+}
+
+function getTotals(tasks: HaiStoryReportTask[]): Totals {
+	const runs = tasks.flatMap((task) => task.runs)
+	return {
+		tokens: runs.reduce((sum, run) => sum + run.tokensIn + run.tokensOut + run.cacheWrites + run.cacheReads, 0),
+		cost: runs.reduce((sum, run) => sum + run.totalCost, 0),
+		files: [...new Set(runs.flatMap((run) => run.filesChanged))],
+	}
+}
+
+function countCompleted(tasks: HaiStoryReportTask[]): number {
+	return tasks.filter((task) => task.status === "completed").length
+}
+
+function formatTokens(tokens: number): string {
+	return tokens.toLocaleString("en-US")
+}
+
+function formatCost(cost: number): string {
+	return `$${cost.toFixed(4)}`
+}
+
+function toSingleLine(text: string): string {
+	return text.replace(/\r?\n/g, " ").trim()
+}
+
+function escapeMarkdownCell(text: string): string {
+	return toSingleLine(text).replace(/\|/g, "\\|")
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
@@ -0,0 +1,17 @@
+import type { TaskSource, TaskSourceParseResult } from "."
+import { normalizeFeatureStories } from "./normalize"
+
+/**
+ * `*-feature.json` files generated by Specif AI, `{ "features": IHaiStory[] }`.
+ */
+export class FeatureJsonTaskSource implements TaskSource {
+	readonly name = "feature JSON"
+
+	matches(fileName: string): boolean {
+		return fileName.endsWith("-feature.json")
+	}
+
+	parse(content: string): TaskSourceParseResult {
+		return normalizeFeatureStories(JSON.parse(content))
+	}
+}
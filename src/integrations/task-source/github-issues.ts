@@ -0,0 +1,65 @@
+import type { TaskSource, TaskSourceParseResult, TaskSourceStory } from "."
+
+type GithubMilestone = {
+	number?: number
+	title: string
+	description?: string | null
+}
+
+const noMilestone = "Issues without milestone"
+const noMilestoneId = "no-milestone"
+
+/**
+ * GitHub issues saved as JSON, from the REST API (a list, or a search response with `items`) or
+ * from `gh issue list --json number,title,body,milestone`. Only files named `*issues*.json` are
+ * read, the issues of each milestone become the tasks of a story, pull requests are ignored. Tasks are
+ * identified by their issue number and stories by their milestone, not by their position in the file.
+ */
+export class GithubIssuesTaskSource implements TaskSource {
+	readonly name = "GitHub issues JSON"
+
+	matches(fileName: string): boolean {
+		return /issues[^/\\]*\.json$/i.test(fileName)
+	}
+
+	parse(content: string): TaskSourceParseResult {
+		const value = JSON.parse(content)
+		const issues = Array.isArray(value) ? value : value?.items
+		if (!Array.isArray(issues)) {
+			throw new Error("expected a list of issues")
+		}
+
+		const result: TaskSourceParseResult = { stories: [], errors: [] }
+		const storiesByMilestone = new Map<string, TaskSourceStory>()
+		issues.forEach((issue, index) => {
+			if (typeof issue?.number !== "number" || typeof issue.title !== "string" || !issue.title.trim()) {
+				result.errors.push(`Issue ${index + 1}: "number" and "title" are required`)
+				return
+			}
+			if (issue.pull_request) {
+				return
+			}
+
+			const milestone: GithubMilestone | undefined = issue.milestone?.title ? issue.milestone : undefined
+			const milestoneKey = milestone ? `milestone-${milestone.number ?? milestone.title}` : noMilestoneId
+			let story = storiesByMilestone.get(milestoneKey)
+			if (!story) {
+				story = {
+					id: milestoneKey,
+					name: milestone?.title ?? noMilestone,
+					description: milestone?.description ?? "",
+					tasks: [],
+				}
+				storiesByMilestone.set(milestoneKey, story)
+				result.stories.push(story)
+			}
+			story.tasks.push({
+				id: `#${issue.number}`,
+				list: issue.title.trim(),
+				acceptance: typeof issue.body === "string" ? issue.body.trim() : "",
+				subTaskTicketId: `#${issue.number}`,
+			})
+		})
+		return result
+	}
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import "should"
+import { loadTaskSources } from "."
+
+describe("loadTaskSources", () => {
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "task-source-"))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should normalize feature JSON, YAML and GitHub issues into stories", async () => {
+		writeFileSync(
+			join(directory, "PRD1-feature.json"),
+			JSON.stringify({
+				features: [
+					{ id: "US1", name: "Login", description: "Users can log in", tasks: [{ id: "TASK1", list: "Add the form" }] },
+				],
+			}),
+		)
+		writeFileSync(
+			join(directory, "backlog.yaml"),
+			[
+				"- id: 2",
+				"  name: Logout",
+				"  tasks:",
+				"    - id: 1",
+				"      list: Add the button",
+				"      acceptance: It logs out",
+			].join("\n"),
+		)
+		writeFileSync(
+			join(directory, "repo-issues.json"),
+			JSON.stringify([
+				{ number: 7, title: "Fix the header", body: "It overlaps", milestone: { number: 1, title: "v1" } },
+				{ number: 8, title: "Bump deps", pull_request: {} },
+				{ number: 9, title: "Write docs" },
+			]),
+		)
+		writeFileSync(join(directory, "PRD1-base.json"), "{}")
+
+		const { stories, errors } = await loadTaskSources(directory)
+
+		errors.should.eql([])
+		stories.should.eql([
+			{
+				id: "US1",
+				name: "Login",
+				description: "Users can log in",
+				tasks: [{ id: "TASK1", list: "Add the form", acceptance: "" }],
+			},
+			{ id: "2", name: "Logout", description: "", tasks: [{ id: "1", list: "Add the button", acceptance: "It logs out" }] },
+			{
+				id: "milestone-1",
+				name: "v1",
+				description: "",
+				tasks: [{ id: "#7", list: "Fix the header", acceptance: "It overlaps", subTaskTicketId: "#7" }],
+			},
+			{
+				id: "no-milestone",
+				name: "Issues without milestone",
+				description: "",
+				tasks: [{ id: "#9", list: "Write docs", acceptance: "", subTaskTicketId: "#9" }],
+			},
+		])
+	})
+
+	it("should report the invalid files and entries per file", async () => {
+		writeFileSync(join(directory, "broken-feature.json"), "{ features: ")
+		writeFileSync(
+			join(directory, "partial-feature.json"),
+			JSON.stringify({ features: [{ id: "US1", name: "Login", tasks: [{ id: "TASK1" }] }, { name: "No id" }] }),
+		)
+
+		const { stories, errors } = await loadTaskSources(directory)
+
+		stories.should.eql([{ id: "US1", name: "Login", description: "", tasks: [] }])
+		errors.map(({ file }) => file).should.eql(["broken-feature.json", "partial-feature.json", "partial-feature.json"])
+		errors[0].message.should.startWith("Invalid feature JSON file:")
+		errors
+			.slice(1)
+			.map(({ message }) => message)
+			.should.eql(['Story 1 (US1), task 1: "id" and "list" are required', 'Story 2: "id" and "name" are required'])
+
+		const missing = await loadTaskSources(join(directory, "missing"))
+		missing.errors.should.have.length(1)
+		missing.errors[0].file.should.equal(".")
+	})
+	it("should drop the dependencies on unknown tasks and the dependencies forming a cycle", async () => {
+		writeFileSync(
+			join(directory, "PRD1-feature.json"),
+			JSON.stringify({
+				features: [
+					{
+						id: "US1",
+						name: "Login",
+						tasks: [
+							{ id: "TASK1", list: "Add the form", dependsOn: "TASK2, TASK9" },
+							{ id: "TASK2", list: "Add the api", dependsOn: ["TASK3"] },
+							{ id: "TASK3", list: "Add the session", dependsOn: ["TASK2"] },
+							{ id: "TASK4", list: "Add the docs", dependsOn: [1, "TASK1"] },
+						],
+					},
+				],
+			}),
+		)
+
+		const { stories, errors } = await loadTaskSources(directory)
+
+		stories[0].tasks
+			.map(({ id, dependsOn }) => ({ id, dependsOn }))
+			.should.eql([
+				{ id: "TASK1", dependsOn: ["TASK2"] },
+				{ id: "TASK2", dependsOn: undefined },
+				{ id: "TASK3", dependsOn: undefined },
+				{ id: "TASK4", dependsOn: ["TASK1"] },
+			])
+		errors
+			.map(({ message }) => message)
+			.should.eql([
+				"Story 1 (US1), task TASK1: depends on the unknown tasks TASK9",
+				"Story 1 (US1), task TASK4: depends on the unknown tasks 1",
+				"Story 1 (US1): the tasks TASK2, TASK3 depend on each other",
+			])
+	})
+})
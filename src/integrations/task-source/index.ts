@@ -0,0 +1,92 @@
+import { readdir, readFile } from "node:fs/promises"
+import { join } from "node:path"
+import { HaiTaskSourceError } from "../../shared/customApi"
+import { FeatureJsonTaskSource } from "./feature-json"
+import { GithubIssuesTaskSource } from "./github-issues"
+import { JiraCsvTaskSource } from "./jira-csv"
+import { MarkdownTaskSource } from "./markdown"
+import { YamlTaskSource } from "./yaml"
+
+// same shape as IHaiStory and IHaiTask of the webview
+export type TaskSourceTask = {
+	id: string
+	list: string
+	acceptance: string
+	subTaskTicketId?: string
+	// ids of the tasks of the same story that must be completed first
+	dependsOn?: string[]
+}
+
+export type TaskSourceStory = {
+	id: string
+	name: string
+	description: string
+	storyTicketId?: string
+	tasks: TaskSourceTask[]
+}
+
+export type TaskSourceParseResult = {
+	stories: TaskSourceStory[]
+	// entries of the file that were skipped, the file itself could be read
+	errors: string[]
+}
+
+/**
+ * Reads the stories of one task file format. Sources throw when a file can't be read at all and
+ * report the entries they skipped in `errors`.
+ */
+export interface TaskSource {
+	readonly name: string
+	matches(fileName: string): boolean
+	parse(content: string, fileName: string): TaskSourceParseResult
+}
+
+export type TaskSourceLoadResult = {
+	stories: TaskSourceStory[]
+	errors: HaiTaskSourceError[]
+}
+
+// tried in order, the first source matching a file name reads it
+export const defaultTaskSources: TaskSource[] = [
+	new FeatureJsonTaskSource(),
+	new GithubIssuesTaskSource(),
+	new MarkdownTaskSource(),
+	new YamlTaskSource(),
+	new JiraCsvTaskSource(),
+]
+
+/**
+ * Loads the stories of every task file in `directory` (not recursive), files no source matches are ignored.
+ */
+export async function loadTaskSources(
+	directory: string,
+	sources: TaskSource[] = defaultTaskSources,
+): Promise<TaskSourceLoadResult> {
+	const result: TaskSourceLoadResult = { stories: [], errors: [] }
+
+	let fileNames: string[]
+	try {
+		fileNames = (await readdir(directory, { withFileTypes: true }))
+			.filter((entry) => entry.isFile())
+			.map((entry) => entry.name)
+			.sort()
+	} catch (error) {
+		result.errors.push({ file: ".", message: `The folder ${directory} could not be read: ${error.message}` })
+		return result
+	}
+
+	for (const fileName of fileNames) {
+		const source = sources.find((source) => source.matches(fileName))
+		if (!source) {
+			continue
+		}
+		try {
+			const { stories, errors } = source.parse(await readFile(join(directory, fileName), "utf-8"), fileName)
+			result.stories.push(...stories)
+			result.errors.push(...errors.map((message) => ({ file: fileName, message })))
+		} catch (error) {
+			result.errors.push({ file: fileName, message: `Invalid ${source.name} file: ${error.message}` })
+		}
+	}
+	return result
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "mocha"
+import "should"
+import { JiraCsvTaskSource, parseCsv } from "./jira-csv"
+
+describe("JiraCsvTaskSource", () => {
+	const source = new JiraCsvTaskSource()
+
+	it("should parse quoted fields with separators, quotes and line breaks", () => {
+		parseCsv('\uFEFFa,"b, ""c""",d\r\n"multi\nline",,\n').should.eql([
+			["a", 'b, "c"', "d"],
+			["multi\nline", "", ""],
+		])
+	})
+
+	it("should group the sub-tasks of a Jira export under their stories", () => {
+		const content = [
+			"Summary,Issue key,Issue id,Issue Type,Parent id,Description,Custom field (Acceptance Criteria)",
+			"Login,PROJ-1,1001,Story,2000,Users can log in,",
+			'Add the form,PROJ-2,1002,Sub-task,1001,"The form, with validation",Validates the email',
+			"Add the api,PROJ-3,1003,Sub-task,1001,Returns a token,",
+			"Orphan,PROJ-4,1004,Sub-task,9999,,",
+			"Upgrade the build,PROJ-5,1005,Task,,Moves to Node 20,",
+		].join("\n")
+
+		source.parse(content).should.eql({
+			stories: [
+				{
+					id: "PROJ-1",
+					name: "Login",
+					description: "Users can log in",
+					storyTicketId: "PROJ-1",
+					tasks: [
+						{ id: "PROJ-2", list: "Add the form", acceptance: "Validates the email", subTaskTicketId: "PROJ-2" },
+						{ id: "PROJ-3", list: "Add the api", acceptance: "Returns a token", subTaskTicketId: "PROJ-3" },
+					],
+				},
+				{
+					id: "PROJ-5",
+					name: "Upgrade the build",
+					description: "Moves to Node 20",
+					storyTicketId: "PROJ-5",
+					tasks: [],
+				},
+			],
+			errors: ["Row 5: the parent of PROJ-4 is not a story of the file"],
+		})
+	})
+
+	it("should require the key and summary columns", () => {
+		const parseWithoutKey = () => source.parse("Summary,Status\nLogin,Done")
+		parseWithoutKey.should.throw(/"Issue key" and "Summary" columns are required/)
+	})
+})
@@ -0,0 +1,153 @@
+import type { TaskSource, TaskSourceParseResult, TaskSourceStory } from "."
+
+// accepted headers of each field, compared case insensitively, Jira first and Azure Boards second
+const columns = {
+	key: ["issue key", "key", "id"],
+	issueId: ["issue id"],
+	type: ["issue type", "work item type"],
+	summary: ["summary", "title"],
+	description: ["description"],
+	acceptance: ["acceptance criteria", "custom field (acceptance criteria)"],
+	parent: ["parent", "parent id", "parent key"],
+}
+
+type Column = keyof typeof columns
+
+const subTaskTypePattern = /^sub-?task$/i
+const taskTypePattern = /^task$/i
+
+/**
+ * CSV exports of Jira or Azure Boards. Sub-tasks become the tasks of the row referenced by their
+ * parent (by issue key or issue id), and so do tasks with a parent in the file: tasks are top-level
+ * issues in Jira. Every other row becomes a story. Without an issue type column, rows with a parent
+ * in the file are tasks. Stories and tasks are identified by their issue key, which stays the same
+ * when the export is re-ordered.
+ */
+export class JiraCsvTaskSource implements TaskSource {
+	readonly name = "CSV"
+
+	matches(fileName: string): boolean {
+		return /\.csv$/i.test(fileName)
+	}
+
+	parse(content: string): TaskSourceParseResult {
+		const [header, ...rows] = parseCsv(content).filter((row) => row.some((cell) => cell.trim()))
+		if (!header) {
+			throw new Error("the file is empty")
+		}
+		const indexes = Object.fromEntries(
+			Object.entries(columns).map(([column, names]) => [
+				column,
+				names.map((name) => header.findIndex((cell) => cell.trim().toLowerCase() === name)).find((index) => index !== -1),
+			]),
+		) as Record<Column, number | undefined>
+		if (indexes.key === undefined || indexes.summary === undefined) {
+			throw new Error('the "Issue key" and "Summary" columns are required')
+		}
+		const cell = (row: string[], column: Column) => {
+			const index = indexes[column]
+			return index === undefined ? "" : (row[index] ?? "").trim()
+		}
+
+		const refs = new Set(rows.flatMap((row) => [cell(row, "key"), cell(row, "issueId")]).filter(Boolean))
+		const hasParent = (row: string[]) => refs.has(cell(row, "parent"))
+		const isTask = (row: string[]) => {
+			if (indexes.type === undefined) {
+				return hasParent(row)
+			}
+			const type = cell(row, "type")
+			return subTaskTypePattern.test(type) || (taskTypePattern.test(type) && hasParent(row))
+		}
+
+		const result: TaskSourceParseResult = { stories: [], errors: [] }
+		const storiesByRef = new Map<string, TaskSourceStory>()
+		rows.forEach((row, index) => {
+			if (isTask(row)) {
+				return
+			}
+			const key = cell(row, "key")
+			if (!key || !cell(row, "summary")) {
+				result.errors.push(`Row ${index + 2}: the issue key and summary are required`)
+				return
+			}
+			const story: TaskSourceStory = {
+				id: key,
+				name: cell(row, "summary"),
+				description: cell(row, "description"),
+				storyTicketId: key,
+				tasks: [],
+			}
+			result.stories.push(story)
+			storiesByRef.set(key, story)
+			if (cell(row, "issueId")) {
+				storiesByRef.set(cell(row, "issueId"), story)
+			}
+		})
+
+		rows.forEach((row, index) => {
+			if (!isTask(row)) {
+				return
+			}
+			const key = cell(row, "key")
+			const story = storiesByRef.get(cell(row, "parent"))
+			if (!key || !cell(row, "summary")) {
+				result.errors.push(`Row ${index + 2}: the issue key and summary are required`)
+			} else if (!story) {
+				result.errors.push(`Row ${index + 2}: the parent of ${key} is not a story of the file`)
+			} else {
+				story.tasks.push({
+					id: key,
+					list: cell(row, "summary"),
+					acceptance: cell(row, "acceptance") || cell(row, "description"),
+					subTaskTicketId: key,
+				})
+			}
+		})
+		return result
+	}
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain separators, line breaks and escaped quotes ("").
+ */
+export function parseCsv(content: string): string[][] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ""
+	let isQuoted = false
+
+	const text = content.replace(/^\uFEFF/, "")
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+		if (isQuoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				isQuoted = false
+			} else {
+				field += char
+			}
+		} else if (char === '"') {
+			isQuoted = true
+		} else if (char === ",") {
+			row.push(field)
+			field = ""
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++
+			}
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ""
+		} else {
+			field += char
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+	return rows
+}
@@ -0,0 +1,59 @@
+import { describe, it } from "mocha"
+import "should"
+import { MarkdownTaskSource } from "./markdown"
+
+describe("MarkdownTaskSource", () => {
+	const source = new MarkdownTaskSource()
+
+	it("should read every heading with checklist items as a story", () => {
+		const content = [
+			"# Backlog",
+			"",
+			"## US1: Login [PROJ-1]",
+			"Users can log in",
+			"with their email.",
+			"- [ ] TASK1: Add the login form [PROJ-2]",
+			"  Acceptance: the form validates the email",
+			"  and shows errors",
+			"- [x] Add the login api",
+			"",
+			"## Logout",
+			"* [ ] Add the logout button",
+		].join("\n")
+
+		source.parse(content, "backlog.md").should.eql({
+			stories: [
+				{
+					id: "backlog-US1",
+					name: "Login",
+					description: "Users can log in\nwith their email.",
+					storyTicketId: "PROJ-1",
+					tasks: [
+						{
+							id: "TASK1",
+							list: "Add the login form",
+							acceptance: "the form validates the email\nand shows errors",
+							subTaskTicketId: "PROJ-2",
+						},
+						{ id: "TASK2", list: "Add the login api", acceptance: "" },
+					],
+				},
+				{
+					id: "backlog-US2",
+					name: "Logout",
+					description: "",
+					tasks: [{ id: "TASK1", list: "Add the logout button", acceptance: "" }],
+				},
+			],
+			errors: [],
+		})
+	})
+
+	it("should report checklist items outside of a story", () => {
+		source
+			.parse("- [ ] Orphan task\n# Story\n- [ ] Task", "backlog.md")
+			.errors.should.eql(['Line 1: the task "Orphan task" is not below a story heading'])
+		const parseNotes = () => source.parse("# Notes\nNothing to do", "notes.md")
+		parseNotes.should.throw(/no heading with checklist items/)
+	})
+})
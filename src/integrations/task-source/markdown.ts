@@ -0,0 +1,114 @@
+import type { TaskSource, TaskSourceParseResult, TaskSourceStory } from "."
+
+const headingPattern = /^#{1,6}\s+(.+?)\s*#*\s*$/
+const checklistItemPattern = /^[-*+]\s+\[[ xX]\]\s+(.+)$/
+// "US1: Login" or "TASK2 - Add the form"
+const idPattern = /^([A-Za-z]+[-_]?\d+)\s*[:\-–]\s+(.+)$/
+// "[PROJ-12]"
+const ticketPattern = /\s*\[([A-Z][A-Z0-9]+-\d+)\]\s*/
+const acceptancePrefixPattern = /^acceptance(?: criteria)?\s*:\s*/i
+
+/**
+ * Markdown checklists, every heading starts a story and its checklist items are the tasks:
+ *
+ * ```md
+ * ## US1: Login [PROJ-1]
+ * Users can log in with their email.
+ * - [ ] TASK1: Add the login form [PROJ-2]
+ *   Acceptance: the form validates the email
+ * - [x] Add the login api
+ * ```
+ *
+ * Ids and ticket ids are optional, stories and tasks without an id are numbered. Story ids are
+ * prefixed with the file name (`backlog-US1`), the files of a folder often number their stories
+ * the same way. Indented lines below a task are its acceptance criteria. Headings without checklist
+ * items are ignored.
+ */
+export class MarkdownTaskSource implements TaskSource {
+	readonly name = "Markdown"
+
+	matches(fileName: string): boolean {
+		return /\.(md|markdown)$/i.test(fileName)
+	}
+
+	parse(content: string, fileName: string): TaskSourceParseResult {
+		const storyIdPrefix = fileName.replace(/\.(md|markdown)$/i, "")
+		const result: TaskSourceParseResult = { stories: [], errors: [] }
+		let story: TaskSourceStory | undefined
+		let description: string[] = []
+		let acceptance: string[] = []
+
+		const finishTask = () => {
+			const task = story?.tasks.at(-1)
+			if (task && acceptance.length > 0) {
+				task.acceptance = acceptance.join("\n")
+			}
+			acceptance = []
+		}
+		const finishStory = () => {
+			finishTask()
+			if (story && story.tasks.length > 0) {
+				story.description = description.join("\n").trim()
+				result.stories.push(story)
+			}
+			description = []
+		}
+
+		content.split(/\r?\n/).forEach((line, index) => {
+			const heading = line.match(headingPattern)
+			if (heading) {
+				finishStory()
+				const { id, text, ticketId } = parseTitle(heading[1])
+				story = {
+					id: `${storyIdPrefix}-${id ?? `US${result.stories.length + 1}`}`,
+					name: text,
+					description: "",
+					tasks: [],
+				}
+				if (ticketId) {
+					story.storyTicketId = ticketId
+				}
+				return
+			}
+
+			const checklistItem = line.trim().match(checklistItemPattern)
+			if (checklistItem && !/^\s{2,}/.test(line)) {
+				if (!story) {
+					result.errors.push(`Line ${index + 1}: the task "${checklistItem[1]}" is not below a story heading`)
+					return
+				}
+				finishTask()
+				const { id, text, ticketId } = parseTitle(checklistItem[1])
+				story.tasks.push({
+					id: id ?? `TASK${story.tasks.length + 1}`,
+					list: text,
+					acceptance: "",
+					...(ticketId ? { subTaskTicketId: ticketId } : {}),
+				})
+				return
+			}
+
+			if (!story) {
+				return
+			}
+			if (story.tasks.length > 0 && /^\s+\S/.test(line)) {
+				acceptance.push(line.trim().replace(acceptancePrefixPattern, ""))
+			} else if (story.tasks.length === 0) {
+				description.push(line)
+			}
+		})
+		finishStory()
+
+		if (result.stories.length === 0 && result.errors.length === 0) {
+			throw new Error("no heading with checklist items found")
+		}
+		return result
+	}
+}
+
+function parseTitle(title: string): { id?: string; text: string; ticketId?: string } {
+	const ticket = title.match(ticketPattern)
+	const text = ticket ? title.replace(ticketPattern, " ").trim() : title.trim()
+	const id = text.match(idPattern)
+	return { id: id?.[1], text: id ? id[2] : text, ticketId: ticket?.[1] }
+}
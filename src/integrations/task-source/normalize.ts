@@ -0,0 +1,106 @@
+import type { TaskSourceParseResult, TaskSourceStory, TaskSourceTask } from "."
+import { findHaiTaskDependencyCycles } from "../../shared/haiTaskDependencies"
+
+/**
+ * Validates stories in the `*-feature.json` shape, read from JSON or YAML. Ids may be numbers in
+ * YAML, they are converted to strings. Stories and tasks without an id or a name are skipped.
+ * Dependencies on unknown tasks and dependencies forming a cycle are reported and dropped.
+ */
+export function normalizeFeatureStories(value: unknown): TaskSourceParseResult {
+	const features = Array.isArray(value) ? value : isObject(value) ? value.features : undefined
+	if (!Array.isArray(features)) {
+		throw new Error('expected a "features" list of stories')
+	}
+
+	const result: TaskSourceParseResult = { stories: [], errors: [] }
+	features.forEach((feature: unknown, storyIndex) => {
+		const storyLabel = `Story ${storyIndex + 1}`
+		if (!isObject(feature) || !isId(feature.id) || !isText(feature.name)) {
+			result.errors.push(`${storyLabel}: "id" and "name" are required`)
+			return
+		}
+
+		const story: TaskSourceStory = {
+			id: String(feature.id),
+			name: feature.name,
+			description: isText(feature.description) ? feature.description : "",
+			tasks: [],
+		}
+		if (isText(feature.storyTicketId)) {
+			story.storyTicketId = feature.storyTicketId
+		}
+
+		const tasks = feature.tasks ?? []
+		if (!Array.isArray(tasks)) {
+			result.errors.push(`${storyLabel} (${story.id}): "tasks" must be a list`)
+		} else {
+			tasks.forEach((item: unknown, taskIndex) => {
+				if (!isObject(item) || !isId(item.id) || !isText(item.list)) {
+					result.errors.push(`${storyLabel} (${story.id}), task ${taskIndex + 1}: "id" and "list" are required`)
+					return
+				}
+				const task: TaskSourceTask = {
+					id: String(item.id),
+					list: item.list,
+					acceptance: isText(item.acceptance) ? item.acceptance : "",
+				}
+				if (isText(item.subTaskTicketId)) {
+					task.subTaskTicketId = item.subTaskTicketId
+				}
+				const dependsOn = toIds(item.dependsOn)
+				if (dependsOn.length > 0) {
+					task.dependsOn = dependsOn
+				}
+				story.tasks.push(task)
+			})
+			result.errors.push(...validateTaskDependencies(story, storyLabel))
+		}
+		result.stories.push(story)
+	})
+	return result
+}
+
+function validateTaskDependencies(story: TaskSourceStory, storyLabel: string): string[] {
+	const errors: string[] = []
+	const taskIds = new Set(story.tasks.map((task) => task.id))
+	for (const task of story.tasks) {
+		const unknownIds = task.dependsOn?.filter((id) => !taskIds.has(id)) ?? []
+		if (unknownIds.length > 0) {
+			errors.push(`${storyLabel} (${story.id}), task ${task.id}: depends on the unknown tasks ${unknownIds.join(", ")}`)
+			setDependsOn(task, (id) => taskIds.has(id))
+		}
+	}
+	for (const cycle of findHaiTaskDependencyCycles(story.tasks)) {
+		errors.push(`${storyLabel} (${story.id}): the tasks ${cycle.join(", ")} depend on each other`)
+		story.tasks.filter((task) => cycle.includes(task.id)).forEach((task) => setDependsOn(task, (id) => !cycle.includes(id)))
+	}
+	return errors
+}
+
+function setDependsOn(task: TaskSourceTask, keep: (id: string) => boolean) {
+	const dependsOn = task.dependsOn?.filter(keep) ?? []
+	if (dependsOn.length > 0) {
+		task.dependsOn = dependsOn
+	} else {
+		delete task.dependsOn
+	}
+}
+
+// a single id, a comma separated list or a list of ids
+function toIds(value: unknown): string[] {
+	const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [value]
+	const ids = values.filter(isId).map((id) => String(id).trim())
+	return [...new Set(ids)]
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isText(value: unknown): value is string {
+	return typeof value === "string" && value.trim().length > 0
+}
+
+function isId(value: unknown): value is string | number {
+	return isText(value) || typeof value === "number"
+}
@@ -0,0 +1,87 @@
+import { describe, it } from "mocha"
+import should from "should"
+import { McpServer } from "../../shared/mcp"
+import { SpecifMcpHub, SpecifMcpTaskSource } from "./specif-mcp"
+
+describe("SpecifMcpTaskSource", () => {
+	const server: McpServer = {
+		name: "github.com/presidio-oss/specifai-mcp-server",
+		config: "{}",
+		status: "connected",
+		tools: [{ name: "set-project-path" }, { name: "get-prds" }, { name: "get-user-stories" }, { name: "get-tasks" }],
+	}
+
+	const createHub = (servers: McpServer[], calls: string[] = []): SpecifMcpHub => ({
+		getServers: () => servers,
+		callTool: async (_serverName, toolName, args) => {
+			calls.push(`${toolName} ${JSON.stringify(args ?? {})}`)
+			const responses: Record<string, unknown> = {
+				"set-project-path": { success: true },
+				"get-prds": {
+					prds: [
+						{ id: "PRD01", title: "Login" },
+						{ id: "PRD02", title: "Broken" },
+					],
+				},
+				"get-user-stories":
+					args?.prdId === "PRD01"
+						? [
+								{ id: "US1", name: "Login", description: "Users can log in", pmoId: "PROJ-1" },
+								{
+									id: "US2",
+									title: "Logout",
+									tasks: [
+										{ id: "TASK1", list: "Add the button" },
+										{ id: "TASK2", list: "Add the api", dependsOn: ["TASK1", "TASK9"] },
+									],
+								},
+							]
+						: "not json",
+				"get-tasks": { tasks: [{ id: "TASK1", title: "Add the form", acceptanceCriteria: "Validates the email" }] },
+			}
+			const response = responses[toolName]
+			return { content: [{ type: "text", text: typeof response === "string" ? response : JSON.stringify(response) }] }
+		},
+	})
+
+	it("should read the user stories and tasks of every PRD", async () => {
+		const calls: string[] = []
+		const { stories, errors } = await new SpecifMcpTaskSource(createHub([server], calls)).load("/workspace/specs")
+
+		stories.should.eql([
+			{
+				id: "US1",
+				name: "Login",
+				description: "Users can log in",
+				storyTicketId: "PROJ-1",
+				tasks: [{ id: "TASK1", list: "Add the form", acceptance: "Validates the email" }],
+			},
+			{
+				id: "US2",
+				name: "Logout",
+				description: "",
+				tasks: [
+					{ id: "TASK1", list: "Add the button", acceptance: "" },
+					{ id: "TASK2", list: "Add the api", acceptance: "", dependsOn: ["TASK1"] },
+				],
+			},
+		])
+		errors.should.eql([
+			{ file: "Specifai MCP Server PRD01", message: "Story 2 (US2), task TASK2: depends on the unknown tasks TASK9" },
+			{ file: "Specifai MCP Server PRD02", message: "The get-user-stories tool did not return JSON" },
+		])
+		calls.should.eql([
+			'set-project-path {"projectPath":"/workspace/specs"}',
+			"get-prds {}",
+			'get-user-stories {"prdId":"PRD01"}',
+			'get-tasks {"prdId":"PRD01","userStoryId":"US1"}',
+			'get-user-stories {"prdId":"PRD02"}',
+		])
+	})
+
+	it("should only use a connected server with the story tools", () => {
+		should(new SpecifMcpTaskSource(createHub([{ ...server, status: "disconnected" }])).getServer()).be.undefined()
+		should(new SpecifMcpTaskSource(createHub([{ ...server, tools: [{ name: "get-prds" }] }])).getServer()).be.undefined()
+		new SpecifMcpTaskSource(createHub([server])).getServer()!.name.should.equal(server.name)
+	})
+})
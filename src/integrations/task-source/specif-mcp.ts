@@ -0,0 +1,122 @@
+import type { TaskSourceLoadResult } from "."
+import { McpServer, McpToolCallResponse } from "../../shared/mcp"
+import { specifMcp } from "../custom-mcp/specif-mcp"
+import { normalizeFeatureStories } from "./normalize"
+
+// the parts of McpHub used to read the tasks
+export type SpecifMcpHub = {
+	getServers(): McpServer[]
+	callTool(serverName: string, toolName: string, toolArguments?: Record<string, unknown>): Promise<McpToolCallResponse>
+}
+
+const tools = {
+	setProjectPath: "set-project-path",
+	getPrds: "get-prds",
+	getUserStories: "get-user-stories",
+	getTasks: "get-tasks",
+}
+
+const errorFile = specifMcp.name
+
+/**
+ * Stories and tasks of a Specif AI project read through the tools of the Specifai MCP server: the
+ * user stories of every PRD become stories, in the same shape as the `*-feature.json` files.
+ * The resources of the server are not read: the project path can only be set through a tool, and the
+ * tools return the PRD, story and task hierarchy as JSON while the resource URIs are not documented.
+ */
+export class SpecifMcpTaskSource {
+	constructor(private readonly hub: SpecifMcpHub) {}
+
+	/**
+	 * The connected Specifai server, undefined when it is not installed, disabled or not connected.
+	 */
+	getServer(): McpServer | undefined {
+		return this.hub
+			.getServers()
+			.find(
+				(server) =>
+					(server.name === specifMcp.mcpId || /specif-?ai/i.test(server.name)) &&
+					server.status === "connected" &&
+					[tools.getPrds, tools.getUserStories].every((tool) => server.tools?.some(({ name }) => name === tool)),
+			)
+	}
+
+	async load(projectPath?: string): Promise<TaskSourceLoadResult> {
+		const server = this.getServer()
+		if (!server) {
+			throw new Error(`${specifMcp.name} is not connected`)
+		}
+		const hasTool = (tool: string) => server.tools?.some(({ name }) => name === tool) ?? false
+		const call = async (tool: string, args?: Record<string, unknown>) =>
+			readToolResult(await this.hub.callTool(server.name, tool, args), tool)
+
+		if (projectPath && hasTool(tools.setProjectPath)) {
+			await call(tools.setProjectPath, { projectPath })
+		}
+
+		const result: TaskSourceLoadResult = { stories: [], errors: [] }
+		for (const prd of toList(await call(tools.getPrds))) {
+			const prdId = prd?.id ?? prd?.prdId
+			if (prdId === undefined) {
+				continue
+			}
+			try {
+				const features = []
+				for (const story of toList(await call(tools.getUserStories, { prdId }))) {
+					let tasks = story?.tasks
+					if (!Array.isArray(tasks) && hasTool(tools.getTasks)) {
+						tasks = toList(await call(tools.getTasks, { prdId, userStoryId: story?.id }))
+					}
+					features.push(toFeature(story, Array.isArray(tasks) ? tasks : []))
+				}
+				const { stories, errors } = normalizeFeatureStories(features)
+				result.stories.push(...stories)
+				result.errors.push(...errors.map((message) => ({ file: `${errorFile} ${prdId}`, message })))
+			} catch (error) {
+				result.errors.push({ file: `${errorFile} ${prdId}`, message: error.message })
+			}
+		}
+		return result
+	}
+}
+
+function readToolResult(response: McpToolCallResponse, tool: string): unknown {
+	const text = response.content
+		.map((item) => (item.type === "text" ? item.text : item.type === "resource" ? (item.resource.text ?? "") : ""))
+		.join("")
+	if (response.isError) {
+		throw new Error(`The ${tool} tool failed: ${text}`)
+	}
+	try {
+		return JSON.parse(text)
+	} catch {
+		throw new Error(`The ${tool} tool did not return JSON`)
+	}
+}
+
+// tools return either a list or an object with a single list, e.g. `{ "userStories": [...] }`
+function toList(value: unknown): any[] {
+	if (Array.isArray(value)) {
+		return value
+	}
+	if (typeof value === "object" && value !== null) {
+		return Object.values(value).find(Array.isArray) ?? []
+	}
+	return []
+}
+
+function toFeature(story: any, tasks: any[]) {
+	return {
+		id: story?.id,
+		name: story?.name ?? story?.title,
+		description: story?.description ?? "",
+		storyTicketId: story?.storyTicketId ?? story?.pmoId,
+		tasks: tasks.map((task) => ({
+			id: task?.id,
+			list: task?.list ?? task?.title ?? task?.name,
+			acceptance: task?.acceptance ?? task?.acceptanceCriteria ?? "",
+			subTaskTicketId: task?.subTaskTicketId ?? task?.pmoId,
+			dependsOn: task?.dependsOn,
+		})),
+	}
+}
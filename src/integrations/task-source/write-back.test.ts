@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import should from "should"
+import { setFeatureTaskOutcome, TaskOutcome, writeBackTaskOutcome } from "./write-back"
+
+describe("writeBackTaskOutcome", () => {
+	const outcome: TaskOutcome = {
+		status: "completed",
+		summary: "Added the login form",
+		filesChanged: ["src/login.ts"],
+		historyTaskId: "100",
+		updatedAt: "2025-01-01T00:00:00.000Z",
+	}
+	let directory: string
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "write-back-"))
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should keep the formatting and unknown fields of the feature file", () => {
+		const content = [
+			"{",
+			'\t"features": [',
+			'\t\t{ "id": "US1", "name": "Login", "custom": true, "tasks": [{ "id": "TASK1", "list": "Add the form" }] }',
+			"\t],",
+			'\t"version": 2',
+			"}",
+			"",
+		].join("\r\n")
+
+		setFeatureTaskOutcome(content, "US1", "TASK1", { status: "failed", updatedAt: "now" })!.should.equal(
+			content.replace(
+				'"list": "Add the form" }',
+				'"list": "Add the form", "haiExecution": { "status": "failed", "updatedAt": "now" } }',
+			),
+		)
+
+		const indented = [
+			"{",
+			'  "features": [',
+			"    {",
+			'      "id": "US1",',
+			'      "tags": ["login", "auth"],',
+			'      "tasks": [',
+			"        {",
+			'          "id": "TASK1",',
+			'          "haiExecution": { "status": "failed" }',
+			"        }",
+			"      ]",
+			"    }",
+			"  ]",
+			"}",
+		].join("\n")
+		setFeatureTaskOutcome(indented, "US1", "TASK1", { status: "completed", updatedAt: "now" })!.should.equal(
+			indented.replace(
+				'{ "status": "failed" }',
+				'{\n            "status": "completed",\n            "updatedAt": "now"\n          }',
+			),
+		)
+		should(setFeatureTaskOutcome('{"features":[]}', "US1", "TASK1", outcome)).be.undefined()
+		setFeatureTaskOutcome('[{"id":1,"tasks":[{"id":2}]}]', "1", "2", outcome)!.should.startWith(
+			'[{"id":1,"tasks":[{"id":2,"haiExecution":{',
+		)
+	})
+
+	it("should write the outcome into the feature files with the task or their sidecar files", async () => {
+		const feature = JSON.stringify(
+			{ features: [{ id: "US1", name: "Login", tasks: [{ id: "TASK1", list: "Add" }] }] },
+			null,
+			2,
+		)
+		writeFileSync(join(directory, "PRD1-feature.json"), feature)
+		writeFileSync(join(directory, "PRD2-feature.json"), JSON.stringify({ features: [] }))
+
+		const sidecars = await writeBackTaskOutcome(directory, "US1", "TASK1", outcome, "sidecar")
+		sidecars.should.eql(["PRD1-feature.hai-status.json"])
+		readFileSync(join(directory, "PRD1-feature.json"), "utf-8").should.equal(feature)
+		JSON.parse(readFileSync(join(directory, sidecars[0]), "utf-8")).should.eql({ stories: { US1: { TASK1: outcome } } })
+
+		const written = await writeBackTaskOutcome(directory, "US1", "TASK1", outcome, "feature-file")
+		written.should.eql(["PRD1-feature.json"])
+		JSON.parse(readFileSync(join(directory, "PRD1-feature.json"), "utf-8")).features[0].tasks[0].haiExecution.should.eql(
+			outcome,
+		)
+		readdirSync(directory)
+			.filter((fileName) => fileName.endsWith(".tmp"))
+			.should.eql([])
+	})
+})
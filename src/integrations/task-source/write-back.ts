@@ -0,0 +1,256 @@
+import { randomBytes } from "node:crypto"
+import { readdir, readFile, rename, unlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { HaiTaskStatus } from "../../shared/customApi"
+
+export type TaskOutcomeSyncMode = "off" | "feature-file" | "sidecar"
+
+// written as `haiExecution` on the task of the feature file, or in the sidecar file
+export type TaskOutcome = {
+	status: HaiTaskStatus
+	summary?: string
+	filesChanged?: string[]
+	historyTaskId?: string
+	updatedAt: string
+}
+
+type JsonFormat = {
+	indent: string
+	eol: string
+	finalNewline: boolean
+}
+
+// offsets of a JSON value in the text it was read from
+type JsonNode = { start: number; end: number; properties?: JsonProperty[]; items?: JsonNode[] }
+
+type JsonProperty = { key: string; keyStart: number; keyEnd: number; value: JsonNode }
+
+const outcomeField = "haiExecution"
+
+/**
+ * Indentation, line endings and final newline of a JSON file, to write it back the way it was formatted.
+ */
+export function detectJsonFormat(content: string): JsonFormat {
+	return {
+		// the first indented line is one level deep, minified files have none
+		indent: content.match(/\n([ \t]+)\S/)?.[1] ?? "",
+		eol: content.includes("\r\n") ? "\r\n" : "\n",
+		finalNewline: /\n$/.test(content),
+	}
+}
+
+export function stringifyJson(value: unknown, { indent, eol, finalNewline }: JsonFormat): string {
+	const json = JSON.stringify(value, null, indent).replace(/\n/g, eol)
+	return finalNewline ? `${json}${eol}` : json
+}
+
+/**
+ * Sets the outcome on the task of a `*-feature.json` file. Only the text of the outcome is replaced or inserted,
+ * the rest of the file is kept as it was written. Returns undefined when the file does not contain the task.
+ */
+export function setFeatureTaskOutcome(
+	content: string,
+	storyId: string,
+	taskId: string,
+	outcome: TaskOutcome,
+): string | undefined {
+	const value = JSON.parse(content)
+	const features = Array.isArray(value) ? value : value?.features
+	if (!Array.isArray(features)) {
+		return undefined
+	}
+	const storyIndex = features.findIndex((feature) => feature && String(feature.id) === storyId)
+	const tasks = features[storyIndex]?.tasks
+	const taskIndex = Array.isArray(tasks) ? tasks.findIndex((task: any) => task && String(task.id) === taskId) : -1
+	if (taskIndex === -1) {
+		return undefined
+	}
+
+	const root = parseJsonNode(content)
+	const featuresNode = Array.isArray(value) ? root : getProperty(root, "features")
+	const taskNode = getProperty(featuresNode?.items?.[storyIndex], "tasks")?.items?.[taskIndex]
+	return taskNode ? setJsonProperty(content, taskNode, outcomeField, outcome) : undefined
+}
+
+/**
+ * Sets the outcome of a task in a sidecar file, `{ "stories": { "<story id>": { "<task id>": outcome } } }`.
+ */
+export function setSidecarTaskOutcome(
+	content: string | undefined,
+	storyId: string,
+	taskId: string,
+	outcome: TaskOutcome,
+): string {
+	const value = content ? JSON.parse(content) : {}
+	value.stories ??= {}
+	value.stories[storyId] ??= {}
+	value.stories[storyId][taskId] = outcome
+	return stringifyJson(value, content ? detectJsonFormat(content) : { indent: "  ", eol: "\n", finalNewline: true })
+}
+
+// `PRD1-feature.json` -> `PRD1-feature.hai-status.json`, not read as a task file
+export function getSidecarFileName(featureFileName: string): string {
+	return featureFileName.replace(/\.json$/, ".hai-status.json")
+}
+
+/**
+ * Writes to a temporary file next to the target and renames it, readers never see a partial file.
+ */
+export async function writeFileAtomic(filePath: string, content: string) {
+	const tempPath = `${filePath}.${randomBytes(4).toString("hex")}.tmp`
+	try {
+		await writeFile(tempPath, content, "utf-8")
+		await rename(tempPath, filePath)
+	} catch (error) {
+		await unlink(tempPath).catch(() => {})
+		throw error
+	}
+}
+
+/**
+ * Writes the outcome of a task into every `*-feature.json` file of `directory` containing it, or into their
+ * sidecar files. Returns the names of the files written.
+ */
+export async function writeBackTaskOutcome(
+	directory: string,
+	storyId: string,
+	taskId: string,
+	outcome: TaskOutcome,
+	mode: Exclude<TaskOutcomeSyncMode, "off">,
+): Promise<string[]> {
+	const fileNames = (await readdir(directory)).filter((fileName) => fileName.endsWith("-feature.json")).sort()
+	const written: string[] = []
+	for (const fileName of fileNames) {
+		const content = await readFile(join(directory, fileName), "utf-8")
+		const updated = setFeatureTaskOutcome(content, storyId, taskId, outcome)
+		if (updated === undefined) {
+			continue
+		}
+		if (mode === "feature-file") {
+			await writeFileAtomic(join(directory, fileName), updated)
+			written.push(fileName)
+		} else {
+			const sidecarFileName = getSidecarFileName(fileName)
+			const sidecarContent = await readFile(join(directory, sidecarFileName), "utf-8").catch(() => undefined)
+			await writeFileAtomic(
+				join(directory, sidecarFileName),
+				setSidecarTaskOutcome(sidecarContent, storyId, taskId, outcome),
+			)
+			written.push(sidecarFileName)
+		}
+	}
+	return written
+}
+
+/**
+ * Replaces or appends a property of a non-empty object. The new text follows the spacing of the first property
+ * of the object: on a line of its own in an indented object, on the same line in an inline or minified one.
+ */
+function setJsonProperty(content: string, object: JsonNode, key: string, value: unknown): string {
+	const [first] = object.properties ?? []
+	const last = object.properties?.at(-1)
+	if (!first || !last) {
+		throw new Error("expected an object with properties")
+	}
+	const separator = content.slice(object.start + 1, first.keyStart)
+	const colon = content.slice(first.keyEnd, first.value.start)
+	const { indent, eol } = detectJsonFormat(content)
+	const stringifyValue = (propertyStart: number) => {
+		if (!separator.includes("\n")) {
+			return stringifyInline(value, colon, separator ? " " : "")
+		}
+		const lineIndent = content.slice(content.lastIndexOf("\n", propertyStart) + 1, propertyStart)
+		return JSON.stringify(value, null, indent || "\t").replace(/\n/g, `${eol}${lineIndent}`)
+	}
+
+	const existing = object.properties?.find((property) => property.key === key)
+	if (existing) {
+		return `${content.slice(0, existing.value.start)}${stringifyValue(existing.keyStart)}${content.slice(existing.value.end)}`
+	}
+	const property = `,${separator}${JSON.stringify(key)}${colon}${stringifyValue(last.keyStart)}`
+	return `${content.slice(0, last.value.end)}${property}${content.slice(last.value.end)}`
+}
+
+function stringifyInline(value: unknown, colon: string, space: string): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => stringifyInline(item, colon, space)).join(`,${space}`)}]`
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value)
+			.filter(([, entry]) => entry !== undefined)
+			.map(([key, entry]) => `${JSON.stringify(key)}${colon}${stringifyInline(entry, colon, space)}`)
+		return entries.length > 0 ? `{${space}${entries.join(`,${space}`)}${space}}` : "{}"
+	}
+	return JSON.stringify(value)
+}
+
+function getProperty(node: JsonNode | undefined, key: string): JsonNode | undefined {
+	return node?.properties?.find((property) => property.key === key)?.value
+}
+
+/**
+ * Offsets of the values of a JSON text, the text must be valid JSON.
+ */
+function parseJsonNode(content: string): JsonNode {
+	let index = 0
+	const skipWhitespace = () => {
+		while (/\s/.test(content[index] ?? "")) {
+			index++
+		}
+	}
+	const skipString = () => {
+		index++
+		while (content[index] !== '"') {
+			index += content[index] === "\\" ? 2 : 1
+		}
+		index++
+	}
+	const parseValue = (): JsonNode => {
+		skipWhitespace()
+		const start = index
+		if (content[index] === "{") {
+			const properties: JsonProperty[] = []
+			index++
+			skipWhitespace()
+			while (content[index] !== "}") {
+				const keyStart = index
+				skipString()
+				const keyEnd = index
+				skipWhitespace()
+				index++
+				properties.push({ key: JSON.parse(content.slice(keyStart, keyEnd)), keyStart, keyEnd, value: parseValue() })
+				skipWhitespace()
+				if (content[index] === ",") {
+					index++
+					skipWhitespace()
+				}
+			}
+			index++
+			return { start, end: index, properties }
+		}
+		if (content[index] === "[") {
+			const items: JsonNode[] = []
+			index++
+			skipWhitespace()
+			while (content[index] !== "]") {
+				items.push(parseValue())
+				skipWhitespace()
+				if (content[index] === ",") {
+					index++
+				}
+				skipWhitespace()
+			}
+			index++
+			return { start, end: index, items }
+		}
+		if (content[index] === '"') {
+			skipString()
+		} else {
+			while (index < content.length && !/[\s,\]}]/.test(content[index])) {
+				index++
+			}
+		}
+		return { start, end: index }
+	}
+	return parseValue()
+}
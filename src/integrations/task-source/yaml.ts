@@ -0,0 +1,18 @@
+import { parse } from "yaml"
+import type { TaskSource, TaskSourceParseResult } from "."
+import { normalizeFeatureStories } from "./normalize"
+
+/**
+ * YAML files with the stories of `*-feature.json` files, either under `features` or as a top level list.
+ */
+export class YamlTaskSource implements TaskSource {
+	readonly name = "YAML"
+
+	matches(fileName: string): boolean {
+		return /\.ya?ml$/i.test(fileName)
+	}
+
+	parse(content: string): TaskSourceParseResult {
+		return normalizeFeatureStories(parse(content))
+	}
+}
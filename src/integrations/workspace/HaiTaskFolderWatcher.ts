@@ -0,0 +1,41 @@
+import Watcher from "watcher"
+import * as path from "path"
+import { Controller } from "../../core/controller"
+import { defaultTaskSources } from "../task-source"
+
+/**
+ * Watches the PRD folder of the selected HAI task folder and reloads the task list when a task
+ * file one of the task sources reads is added, changed or deleted. The PRD folder does not need to exist yet.
+ */
+class HaiTaskFolderWatcher {
+	readonly folder: string
+	private providerRef: WeakRef<Controller>
+	private watcher: Watcher
+
+	constructor(provider: Controller, folder: string) {
+		this.folder = folder
+		this.providerRef = new WeakRef(provider)
+
+		this.watcher = new Watcher(path.join(folder, "PRD"), {
+			debounce: 1000,
+			ignoreInitial: true,
+		})
+
+		this.watcher.on("all", (event, filePath) => {
+			if (event !== "add" && event !== "change" && event !== "unlink") {
+				return
+			}
+			// the status sidecars and temporary files of the write-back are not task files
+			if (!defaultTaskSources.some((source) => source.matches(path.basename(filePath)))) {
+				return
+			}
+			this.providerRef.deref()?.reloadHaiTaskList(this.folder)
+		})
+	}
+
+	async dispose() {
+		this.watcher.close()
+	}
+}
+
+export default HaiTaskFolderWatcher
@@ -58,36 +58,41 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 	return result ? result : "No source code definitions found."
 }
 
+const supportedExtensions = [
+	"js",
+	"jsx",
+	"ts",
+	"tsx",
+	"py",
+	// Rust
+	"rs",
+	"go",
+	// C
+	"c",
+	"h",
+	// C++
+	"cpp",
+	"hpp",
+	// C#
+	"cs",
+	// Ruby
+	"rb",
+	"java",
+	"php",
+	"swift",
+	// Kotlin
+	"kt",
+].map((e) => `.${e}`)
+
+export function filterSupportedSourceFiles(files: string[]): string[] {
+	return files.filter((file) => supportedExtensions.includes(path.extname(file).toLowerCase()))
+}
+
 function separateFiles(allFiles: string[]): {
 	filesToParse: string[]
 	remainingFiles: string[]
 } {
-	const extensions = [
-		"js",
-		"jsx",
-		"ts",
-		"tsx",
-		"py",
-		// Rust
-		"rs",
-		"go",
-		// C
-		"c",
-		"h",
-		// C++
-		"cpp",
-		"hpp",
-		// C#
-		"cs",
-		// Ruby
-		"rb",
-		"java",
-		"php",
-		"swift",
-		// Kotlin
-		"kt",
-	].map((e) => `.${e}`)
-	const filesToParse = allFiles.filter((file) => extensions.includes(path.extname(file))).slice(0, 50) // 50 files max
+	const filesToParse = allFiles.filter((file) => supportedExtensions.includes(path.extname(file))).slice(0, 50) // 50 files max
 	const remainingFiles = allFiles.filter((file) => !filesToParse.includes(file))
 	return { filesToParse, remainingFiles }
 }
@@ -178,3 +183,53 @@ async function parseFile(
 	}
 	return null
 }
+
+export interface SourceCodeSymbol {
+	name: string
+	// capture suffix from the language query, i.e. "function", "method", "class"
+	kind: string
+	// 0-based, inclusive
+	startLine: number
+	endLine: number
+}
+
+/**
+ * Lists the definitions (functions, methods, classes, ...) found in a source file together with
+ * the line range each one spans. Uses the same language queries as `list_code_definition_names`.
+ *
+ * Returns an empty list when there is no parser for the file type or the file cannot be parsed.
+ */
+export function parseSourceCodeSymbols(
+	filePath: string,
+	fileContent: string,
+	languageParsers: LanguageParser,
+): SourceCodeSymbol[] {
+	const ext = path.extname(filePath).toLowerCase().slice(1)
+	const { parser, query } = languageParsers[ext] || {}
+	if (!parser || !query) {
+		return []
+	}
+
+	const symbols: SourceCodeSymbol[] = []
+	try {
+		const tree = parser.parse(fileContent)
+		// matches (unlike captures) keep the definition node and its name capture together
+		for (const match of query.matches(tree.rootNode)) {
+			const definition = match.captures.find((capture) => capture.name.startsWith("definition."))
+			const name = match.captures.find((capture) => capture.name === "name" || capture.name.startsWith("name.definition."))
+			if (!definition || !name) {
+				continue
+			}
+			symbols.push({
+				name: name.node.text,
+				kind: definition.name.slice("definition.".length),
+				startLine: definition.node.startPosition.row,
+				endLine: definition.node.endPosition.row,
+			})
+		}
+	} catch (error) {
+		console.log(`Error parsing file: ${error}\n`)
+	}
+
+	return symbols.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine)
+}
@@ -1,5 +1,16 @@
 // type that represents json data that is sent from extension to webview, called ExtensionMessage and has 'type' enum which can be 'plusButtonClicked' or 'settingsButtonClicked' or 'hello'
-import { HaiBuildContextOptions, HaiBuildIndexProgress } from "./customApi"
+import {
+	CodeIndexReport,
+	CodeIndexSearchResult,
+	ExpertKnowledgePassage,
+	HaiAcceptanceCheck,
+	HaiBuildContextOptions,
+	HaiBuildIndexProgress,
+	HaiStoryRun,
+	HaiTaskChanges,
+	HaiTaskSourceError,
+	HaiTaskStatusMap,
+} from "./customApi"
 import { IHaiStory } from "../../webview-ui/src/interfaces/hai-task.interface"
 import { EmbeddingConfiguration } from "./embeddings"
 import { GitCommit } from "../utils/git"
@@ -52,6 +63,9 @@ export interface ExtensionMessage {
 		| "addToInput"
 		| "expertsUpdated"
 		| "expertPrompt"
+		| "workspaceTechnologies"
+		| "codeIndexReport"
+		| "codeIndexQueryResults"
 	text?: string
 	bool?: boolean
 	action?:
@@ -64,6 +78,7 @@ export interface ExtensionMessage {
 		| "accountLogoutClicked"
 		| "haiBuildTaskListClicked"
 		| "expertsButtonClicked"
+		| "codeIndexButtonClicked"
 		| "onHaiConfigure"
 		| "accountButtonClicked"
 	invoke?: Invoke
@@ -83,7 +98,15 @@ export interface ExtensionMessage {
 	error?: string
 	mcpDownloadDetails?: McpDownloadResponse
 	commits?: GitCommit[]
-	haiTaskData?: { folder: string; tasks: IHaiStory[]; ts: string }
+	haiTaskData?: {
+		folder: string
+		tasks: IHaiStory[]
+		ts: string
+		errors?: HaiTaskSourceError[]
+		changes?: HaiTaskChanges
+		// name of the MCP server the tasks were read from, the PRD folder when undefined
+		source?: string
+	}
 	haiConfig?: {}
 	openGraphData?: {
 		title?: string
@@ -100,6 +123,9 @@ export interface ExtensionMessage {
 	userCreditsPayments?: PaymentTransaction[]
 	totalTasksSize?: number | null
 	experts?: any[] // Expert data array
+	technologies?: string[] // For workspaceTechnologies, the task is passed in `text`
+	codeIndexReport?: CodeIndexReport
+	codeIndexQueryResults?: CodeIndexSearchResult[]
 	addRemoteServerResult?: {
 		success: boolean
 		serverName: string
@@ -130,6 +156,8 @@ export interface ExtensionState {
 	telemetrySetting: TelemetrySetting
 	uriScheme?: string
 	isHaiRulesPresent?: boolean
+	haiTaskStatuses?: HaiTaskStatusMap
+	haiStoryRun?: HaiStoryRun
 	userInfo?: {
 		displayName: string | null
 		email: string | null
@@ -139,6 +167,7 @@ export interface ExtensionState {
 	buildIndexProgress?: HaiBuildIndexProgress
 	embeddingConfiguration?: EmbeddingConfiguration
 	expertPrompt?: string
+	expertName?: string
 	vscodeWorkspacePath?: string
 	version: string
 	vscMachineId: string
@@ -155,6 +184,7 @@ export interface ClineMessage {
 	partial?: boolean
 	lastCheckpointHash?: string
 	isCheckpointCheckedOut?: boolean
+	acceptanceChecks?: HaiAcceptanceCheck[] // on completion_result of tasks started from a HAI task
 	conversationHistoryIndex?: number
 	conversationHistoryDeletedRange?: [number, number] // for when conversation history is truncated for API requests
 }
@@ -199,6 +229,13 @@ export type ClineSay =
 	| "deleted_api_reqs"
 	| "clineignore_error"
 	| "checkpoint_created"
+	| "expert_knowledge"
+
+// text of a say expert_knowledge message, the passages added to the prompt of a request
+export interface ClineSayExpertKnowledge {
+	expertName: string
+	passages: ExpertKnowledgePassage[]
+}
 
 export interface ClineSayTool {
 	tool:
@@ -211,6 +248,7 @@ export interface ClineSayTool {
 		| "searchFiles"
 		| "findRelevantFiles"
 		| "codeSecurityScan"
+		| "semanticSearch"
 	path?: string
 	diff?: string
 	content?: string
@@ -11,4 +11,12 @@ export type HistoryItem = {
 	size?: number
 	shadowGitConfigWorkTree?: string
 	conversationHistoryDeletedRange?: [number, number]
+	// experts selected while the task ran, in the order they were used
+	experts?: HistoryItemExpert[]
+}
+
+// a version of the prompt of custom experts, built-in experts have no version
+export type HistoryItemExpert = {
+	name: string
+	version?: number
 }
@@ -1,4 +1,4 @@
-import { HaiBuildContextOptions } from "./customApi"
+import { ExpertProfile, HaiBuildContextOptions, HaiTaskReference } from "./customApi"
 import { EmbeddingConfiguration } from "./embeddings"
 import { ApiConfiguration } from "./api"
 import { AutoApprovalSettings } from "./AutoApprovalSettings"
@@ -23,6 +23,13 @@ export interface WebviewMessage {
 		| "saveExpert"
 		| "deleteExpert"
 		| "loadExperts"
+		| "addExpertDocuments"
+		| "deleteExpertDocument"
+		| "saveExpertProfile"
+		| "compareExpertVersion"
+		| "rollbackExpertVersion"
+		| "exportExpert"
+		| "importExpert"
 		| "exportCurrentTask"
 		| "showTaskWithId"
 		| "deleteTaskWithId"
@@ -65,6 +72,13 @@ export interface WebviewMessage {
 		| "stopIndex"
 		| "startIndex"
 		| "resetIndex"
+		| "requestCodeIndexReport"
+		| "queryCodeIndex"
+		| "runHaiStory"
+		| "resumeHaiStoryRun"
+		| "stopHaiStoryRun"
+		| "commitTaskChanges"
+		| "exportHaiStoryReport"
 		| "subscribeEmail"
 		| "showAccountViewClicked"
 		| "authStateChanged"
@@ -109,6 +123,16 @@ export interface WebviewMessage {
 	buildContextOptions?: HaiBuildContextOptions
 	embeddingConfiguration?: EmbeddingConfiguration
 	toast?: { message: string; toastType: "error" | "warning" | "info" }
+	// For newTask started from a HAI task
+	haiTask?: HaiTaskReference
+	// For runHaiStory, the PRD folder is passed in `text`
+	storyId?: string
+	// For deleteExpertDocument, the expert name is passed in `text`
+	document?: string
+	// For saveExpertProfile, the expert name is passed in `text`
+	expertProfile?: ExpertProfile
+	// For compareExpertVersion and rollbackExpertVersion, the expert name is passed in `text`
+	expertVersion?: number
 
 	// For toggleToolAutoApprove
 	serverName?: string
@@ -1,3 +1,6 @@
+import { ApiProvider } from "./api"
+import { AutoApprovalSettings } from "./AutoApprovalSettings"
+
 export type HaiBuildContextOptions = {
 	useIndex: boolean
 	useContext: boolean
@@ -7,8 +10,16 @@ export type HaiBuildContextOptions = {
 	useSecretScanning: boolean
 	secretFilesPatternToIgnore?: string[]
 	systemPromptVersion?: string
+	vectorStore?: CodeVectorStoreType
+	contextMode?: CodeContextMode
 }
 
+// "comments" rewrites every file with comments, "summary" writes file, directory and repo summaries
+export type CodeContextMode = "comments" | "summary"
+
+// "auto" uses faiss-node when its native binaries are available and the built-in store otherwise
+export type CodeVectorStoreType = "auto" | "faiss" | "builtin"
+
 export type HaiBuildIndexProgress = {
 	type: "codeContext" | "codeIndex"
 	progress: number
@@ -18,3 +29,143 @@ export type HaiBuildIndexProgress = {
 	isCodeContextEverCompleted?: boolean
 	isPaused?: boolean
 }
+
+// why a file has no fresh chunks in the code index after the last indexing run
+export type CodeIndexSkipReason = "excluded" | "binary" | "unchanged" | "deleted"
+
+export type CodeIndexFileInfo = {
+	path: string
+	chunks: number
+	// epoch ms, missing for files indexed before it was recorded
+	indexedAt?: number
+	// the file was modified after it was indexed
+	isStale: boolean
+}
+
+export type CodeIndexReport = {
+	vectorStore?: Exclude<CodeVectorStoreType, "auto">
+	files: CodeIndexFileInfo[]
+	skippedFiles: { path: string; reason: CodeIndexSkipReason }[]
+	// excluded files beyond the ones listed in `skippedFiles`
+	omittedSkippedFiles: number
+	lastRunAt?: number
+}
+
+export type CodeIndexSearchResult = {
+	path: string
+	startLine?: number
+	endLine?: number
+	symbolName?: string
+	symbolKind?: string
+	// 1 / (1 + squared L2 distance), higher is a closer match
+	score: number
+	snippet: string
+}
+
+// passage of a reference document of an expert, retrieved into the prompt while the expert is active
+export type ExpertKnowledgePassage = {
+	// relative to the documents folder of the expert
+	source: string
+	startLine: number
+	endLine: number
+	// 1 / (1 + squared L2 distance), higher is a closer match
+	score: number
+	content: string
+}
+
+export type HaiTaskStatus = "not-started" | "in-progress" | "completed" | "failed"
+
+export type HaiAcceptanceCheckStatus = "pass" | "fail" | "unknown"
+
+// verdict on one acceptance criterion of a HAI task, checked when the task completes
+export type HaiAcceptanceCheck = {
+	criterion: string
+	status: HaiAcceptanceCheckStatus
+	evidence?: string
+}
+
+export type HaiTaskStatusRecord = {
+	status: HaiTaskStatus
+	// ids of the history items (chat tasks) that executed the HAI task, oldest first
+	historyTaskIds: string[]
+	updatedAt: number
+	// acceptance criteria checked by the last completion, cleared by the next status change
+	acceptanceChecks?: HaiAcceptanceCheck[]
+}
+
+// keyed by PRD folder and story qualified task id, see getHaiTaskStatusKey
+export type HaiTaskStatusMap = Record<string, HaiTaskStatusRecord>
+
+// the HAI task a chat task was started from
+export type HaiTaskReference = {
+	folder: string
+	taskId: string
+}
+
+export type HaiStoryRunStatus = "running" | "paused" | "completed"
+
+export type HaiStoryRunTask = {
+	// story qualified task id, see getHaiTaskId
+	taskId: string
+	list: string
+	acceptance: string
+	// the history item (chat task) that executed the task
+	historyTaskId?: string
+	result?: string
+	// checkpoint taken when the task completed
+	checkpointHash?: string
+}
+
+// tasks of a HAI story executed one after the other, each as a new chat task
+export type HaiStoryRun = {
+	folder: string
+	storyId: string
+	storyName: string
+	storyDescription: string
+	tasks: HaiStoryRunTask[]
+	currentIndex: number
+	status: HaiStoryRunStatus
+	pauseReason?: string
+	updatedAt: number
+}
+
+// a task file that could not be loaded, or loaded with skipped entries
+export type HaiTaskSourceError = {
+	// relative to the PRD folder
+	file: string
+	message: string
+}
+
+// tasks that differ from the previous load of the same HAI task folder, by story qualified task id
+export type HaiTaskChanges = {
+	added: string[]
+	changed: string[]
+	removed: string[]
+}
+
+// how a custom expert works while it is selected
+export type ExpertProfile = {
+	// only these tools can be used, all tools when empty
+	allowedTools?: string[]
+	// take precedence over the allowed tools
+	forbiddenTools?: string[]
+	apiProvider?: ApiProvider
+	// model of the API provider, the provider of the user settings when not set
+	apiModelId?: string
+	systemPromptVersion?: string
+	autoApprovalSettings?: ExpertAutoApprovalSettings
+}
+
+// restricts the auto-approval settings of the user, the settings that are not set are kept
+export type ExpertAutoApprovalSettings = Partial<Omit<AutoApprovalSettings, "actions">> & {
+	actions?: Partial<AutoApprovalSettings["actions"]>
+}
+
+// saved version of the prompt of a custom expert, versions are numbered from 1
+export type ExpertVersion = {
+	version: number
+	// ms since epoch
+	createdAt: number
+	// sha1 of the prompt
+	hash: string
+}
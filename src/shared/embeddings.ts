@@ -95,3 +95,18 @@ export const defaultEmbeddingConfigs: Record<EmbeddingProvider, { defaultModel:
 }
 
 export const azureOpenAIApiVersion = "2023-05-15"
+
+/**
+ * Identifies the embedding model of a configuration without any credentials, vectors of two
+ * configurations with the same fingerprint are interchangeable.
+ */
+export function getEmbeddingModelFingerprint(config: EmbeddingConfiguration): string {
+	switch (config.provider) {
+		case "openai":
+			return `openai/${config.openAiModelId ?? ""}`
+		case "ollama":
+			return `ollama/${config.ollamaModelId ?? ""}`
+		default:
+			return `${config.provider ?? ""}/${config.modelId ?? ""}`
+	}
+}
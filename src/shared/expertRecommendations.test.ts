@@ -0,0 +1,24 @@
+import { describe, it } from "mocha"
+import "should"
+import { recommendExperts } from "./expertRecommendations"
+
+describe("Expert recommendations", () => {
+	const experts = [
+		{ name: ".NET", tags: ["dotnet", ".net", "c#"] },
+		{ name: "Go", tags: ["golang", "go"] },
+		{ name: "React", tags: ["react", "typescript", "javascript"] },
+		{ name: "Reviewer" },
+	]
+
+	it("should rank the task text above the technologies of the workspace", () => {
+		recommendExperts(experts, "Add a C# endpoint for the orders", ["react", "golang"]).should.eql([
+			{ name: ".NET", matchedTags: ["c#"] },
+			{ name: "Go", matchedTags: ["golang"] },
+		])
+		recommendExperts(experts, "Port the .NET service to Go", [], 1).should.eql([{ name: ".NET", matchedTags: [".net"] }])
+	})
+
+	it("should only match whole words", () => {
+		recommendExperts(experts, "Make the tests good again and reactivate the cache", []).should.eql([])
+	})
+})
@@ -0,0 +1,54 @@
+// the fields of an expert (ExpertData) used to suggest it, tags are lowercase keywords like "react" or "terraform"
+type ExpertRecommendationSource = {
+	name: string
+	tags?: string[]
+}
+
+export type ExpertRecommendation = {
+	name: string
+	// tags found in the task text or in the technologies of the workspace
+	matchedTags: string[]
+}
+
+const taskTextWeight = 2
+const technologyWeight = 1
+
+/**
+ * Experts whose tags best match a new task, a tag mentioned in the task counts twice as much as a tag
+ * among the technologies of the workspace. Experts without a match are left out, ties keep the order of
+ * the experts.
+ */
+export function recommendExperts(
+	experts: ExpertRecommendationSource[],
+	taskText: string,
+	technologies: string[],
+	limit = 2,
+): ExpertRecommendation[] {
+	const text = taskText.toLowerCase()
+	const workspaceTechnologies = new Set(technologies.map((technology) => technology.toLowerCase()))
+
+	return experts
+		.map((expert) => {
+			let score = 0
+			const matchedTags: string[] = []
+			for (const tag of new Set((expert.tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean))) {
+				const tagScore =
+					(containsWord(text, tag) ? taskTextWeight : 0) + (workspaceTechnologies.has(tag) ? technologyWeight : 0)
+				if (tagScore > 0) {
+					score += tagScore
+					matchedTags.push(tag)
+				}
+			}
+			return { name: expert.name, matchedTags, score }
+		})
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map(({ name, matchedTags }) => ({ name, matchedTags }))
+}
+
+// whole words only, so that "go" doesn't match "good" and tags like "c#" or "node.js" still match
+function containsWord(text: string, word: string): boolean {
+	const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+	return new RegExp(`(^|[^a-z0-9])${escapedWord}($|[^a-z0-9])`).test(text)
+}
@@ -1,6 +1,9 @@
 export const HaiBuildDefaults = {
 	defaultContextDirectory: ".hai",
 	defaultContextAdditionConcurrency: 10,
+	defaultEmbeddingConcurrency: 4,
+	defaultEmbeddingBatchTokenBudget: 16000,
+	defaultIndexCheckpointInterval: 100,
 	defaultContextAdditionSystemPrompt: `You are a world-class software engineer. You are provided with the following code files. 
         Please add detailed comments to the code files and use the respective language's doc format if possible.
         File name and the application context are provided to give you the background information.
@@ -21,6 +24,34 @@ export const HaiBuildDefaults = {
 After analyzing the code if issue found List the specific issues found in the code. If no issue found state that "no issue was found"
 
 Do not include additional context, information or explanation in response.`,
+	defaultFileSummarySystemPrompt: `You are a world-class software engineer documenting a code base for other engineers and AI agents.
+        You are provided with a code file. Summarize it in at most 150 words using exactly this structure:
+        Purpose: <one or two sentences on what the file is responsible for>
+        Key symbols: <comma separated list of the main functions, classes, types or constants, "none" if there are none>
+        Dependencies: <notable internal modules and external packages it relies on>
+        Notes: <side effects, configuration or anything surprising, omit this line if there is nothing>
+        Output only the summary, without code or \`\`\` marks.`,
+	defaultDirectorySummarySystemPrompt: `You are a world-class software engineer documenting a code base for other engineers and AI agents.
+        You are provided with the summaries of the files and sub directories of one directory. Summarize the directory in at most 150 words using exactly this structure:
+        Purpose: <one or two sentences on what the directory is responsible for>
+        Contents: <the most important files and sub directories and what they do>
+        Notes: <conventions or anything surprising, omit this line if there is nothing>
+        Output only the summary, without \`\`\` marks.`,
+	defaultRepoSummarySystemPrompt: `You are a world-class software engineer documenting a code base for other engineers and AI agents.
+        You are provided with the summaries of the top level files and directories of a repository. Summarize the repository in at most 300 words using exactly this structure:
+        Purpose: <what the application does>
+        Architecture: <the main directories and their responsibilities, and how they interact>
+        Entry points: <where execution starts, e.g. main files, servers, CLIs or extension activation>
+        Notes: <build tooling, conventions or anything surprising, omit this line if there is nothing>
+        Output only the summary, without \`\`\` marks.`,
+	defaultAcceptanceVerificationSystemPrompt: `You are a meticulous software reviewer verifying whether a coding task meets its acceptance criteria.
+        You are provided with the numbered acceptance criteria, the completion summary of the agent, the diff of the changes made for the task and the output of the commands it ran.
+        For every criterion decide:
+        - "pass" when the diff or the command output shows that the criterion is met
+        - "fail" when the diff or the command output shows that the criterion is not met, e.g. a failing test
+        - "unknown" when there is not enough evidence, the completion summary alone is not evidence
+        Respond only with a JSON array without \`\`\` marks, one object per criterion in the same order:
+        [{"index": <criterion number>, "status": "pass" | "fail" | "unknown", "evidence": "<one sentence citing the file, test or command>"}]`,
 	defaultCodeScannerMaxRetry: 3,
 	defaultDirsToIgnore: [
 		"node_modules",
@@ -93,5 +124,11 @@ Do not include additional context, information or explanation in response.`,
 		"go.work",
 	],
 	defaultRepoHashFileName: "hai.repo.hash",
+	defaultKeywordIndexFileName: "keyword.index.json",
+	defaultSemanticSearchLimit: 8,
+	defaultIndexReportFileName: "index.report.json",
+	defaultIndexReportMaxSkippedFiles: 1000,
+	defaultIndexSnapshotManifestFileName: "snapshot.json",
+	defaultSummariesDirectoryName: "summaries",
 	defaultSecretFilesPatternToIgnore: [".env*", ".npmrc", ".ssh/id_*", ".aws/credentials"],
 }
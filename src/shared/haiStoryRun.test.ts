@@ -0,0 +1,66 @@
+import { describe, it } from "mocha"
+import "should"
+import {
+	completeHaiStoryRunTask,
+	createHaiStoryRun,
+	getHaiStoryRunTaskPrompt,
+	isCurrentHaiStoryRunTask,
+	pauseHaiStoryRun,
+	setHaiStoryRunHistoryTaskId,
+} from "./haiStoryRun"
+
+describe("HAI story run", () => {
+	const story = {
+		id: "US1",
+		name: "Login",
+		description: "Users can log in",
+		tasks: [
+			{ id: "TASK1", list: "Add the login form", acceptance: "The form validates the email" },
+			{ id: "TASK2", list: "Add the login api", acceptance: "The api returns a token" },
+		],
+	}
+
+	it("should give every task the story and the results of the previous tasks as context", () => {
+		let run = createHaiStoryRun("/workspace/specs", story, 1)
+		getHaiStoryRunTaskPrompt(run).should.equal(
+			"Task: Add the login form The form validates the email Login: Users can log in",
+		)
+
+		run = setHaiStoryRunHistoryTaskId(run, "100", 2)
+		isCurrentHaiStoryRunTask(run, "100").should.be.true()
+		run = completeHaiStoryRunTask(run, "Added LoginForm.tsx", "abc", 3)
+
+		run.currentIndex.should.equal(1)
+		run.status.should.equal("running")
+		run.tasks[0].should.eql({
+			taskId: "US1-TASK1",
+			list: "Add the login form",
+			acceptance: "The form validates the email",
+			historyTaskId: "100",
+			result: "Added LoginForm.tsx",
+			checkpointHash: "abc",
+		})
+		isCurrentHaiStoryRunTask(run, "100").should.be.false()
+		getHaiStoryRunTaskPrompt(run).should.equal(
+			"Task: Add the login api The api returns a token Login: Users can log in\n\nResults of the previous tasks of this story:\n- US1-TASK1: Added LoginForm.tsx",
+		)
+	})
+
+	it("should keep a paused run paused until the last task completed", () => {
+		let run = pauseHaiStoryRun(setHaiStoryRunHistoryTaskId(createHaiStoryRun("/workspace/specs", story), "100"), "rejected")
+		run = completeHaiStoryRunTask(run, "done")
+		run.status.should.equal("paused")
+		run.pauseReason!.should.equal("rejected")
+
+		run = completeHaiStoryRunTask(setHaiStoryRunHistoryTaskId(run, "200"), "done")
+		run.status.should.equal("completed")
+		isCurrentHaiStoryRunTask(run, "200").should.be.false()
+	})
+	it("should run the tasks after the tasks they depend on", () => {
+		const run = createHaiStoryRun("/workspace/specs", {
+			...story,
+			tasks: [{ ...story.tasks[0], dependsOn: ["TASK2"] }, story.tasks[1]],
+		})
+		run.tasks.map(({ taskId }) => taskId).should.eql(["US1-TASK2", "US1-TASK1"])
+	})
+})
@@ -0,0 +1,84 @@
+import { HaiStoryRun } from "./customApi"
+import { sortHaiTasksByDependencies } from "./haiTaskDependencies"
+import { getHaiTaskId } from "./haiTaskStatus"
+
+// the fields of a HAI story (IHaiStory) a run is created from
+type HaiStoryRunSource = {
+	id: string
+	name: string
+	description: string
+	tasks: { id: string; list: string; acceptance: string; dependsOn?: string[] }[]
+}
+
+/**
+ * Run of the tasks of a story, every task runs after the tasks it depends on.
+ */
+export function createHaiStoryRun(folder: string, story: HaiStoryRunSource, updatedAt = Date.now()): HaiStoryRun {
+	return {
+		folder,
+		storyId: story.id,
+		storyName: story.name,
+		storyDescription: story.description,
+		tasks: sortHaiTasksByDependencies(story.tasks).map(({ id, list, acceptance }) => ({
+			taskId: getHaiTaskId(story.id, id),
+			list,
+			acceptance,
+		})),
+		currentIndex: 0,
+		status: "running",
+		updatedAt,
+	}
+}
+
+/**
+ * Prompt of the current task, with the story as context and the results of the tasks completed before it.
+ */
+export function getHaiStoryRunTaskPrompt(run: HaiStoryRun): string {
+	const { list, acceptance } = run.tasks[run.currentIndex]
+	const previousResults = run.tasks
+		.slice(0, run.currentIndex)
+		.filter(({ result }) => result)
+		.map(({ taskId, result }) => `- ${taskId}: ${result}`)
+
+	let prompt = `Task: ${list} ${acceptance} ${run.storyName}: ${run.storyDescription}`
+	if (previousResults.length > 0) {
+		prompt += `\n\nResults of the previous tasks of this story:\n${previousResults.join("\n")}`
+	}
+	return prompt
+}
+
+export function isCurrentHaiStoryRunTask(run: HaiStoryRun | undefined, historyTaskId: string): run is HaiStoryRun {
+	return !!run && run.status !== "completed" && run.tasks[run.currentIndex]?.historyTaskId === historyTaskId
+}
+
+export function setHaiStoryRunHistoryTaskId(run: HaiStoryRun, historyTaskId: string, updatedAt = Date.now()): HaiStoryRun {
+	return {
+		...run,
+		tasks: run.tasks.map((task, index) => (index === run.currentIndex ? { ...task, historyTaskId } : task)),
+		updatedAt,
+	}
+}
+
+/**
+ * Records the result of the current task and moves on to the next one, a paused run stays paused.
+ */
+export function completeHaiStoryRunTask(
+	run: HaiStoryRun,
+	result: string,
+	checkpointHash?: string,
+	updatedAt = Date.now(),
+): HaiStoryRun {
+	const currentIndex = run.currentIndex + 1
+	return {
+		...run,
+		tasks: run.tasks.map((task, index) => (index === run.currentIndex ? { ...task, result, checkpointHash } : task)),
+		currentIndex,
+		status: currentIndex >= run.tasks.length ? "completed" : run.status,
+		pauseReason: currentIndex >= run.tasks.length ? undefined : run.pauseReason,
+		updatedAt,
+	}
+}
+
+export function pauseHaiStoryRun(run: HaiStoryRun, pauseReason: string, updatedAt = Date.now()): HaiStoryRun {
+	return { ...run, status: "paused", pauseReason, updatedAt }
+}
@@ -0,0 +1,42 @@
+import { describe, it } from "mocha"
+import should from "should"
+import { diffHaiStories, getHaiTaskChange } from "./haiTaskChanges"
+
+describe("HAI task changes", () => {
+	it("should find the added, changed and removed tasks of two loads", () => {
+		const previous = [
+			{
+				id: "US1",
+				tasks: [
+					{ id: "TASK1", list: "Add the form", acceptance: "" },
+					{ id: "TASK2", list: "Add the api", acceptance: "Returns a token" },
+					{ id: "TASK3", list: "Add the docs", acceptance: "" },
+				],
+			},
+			{ id: "US2", tasks: [{ id: "TASK1", list: "Add the logout", acceptance: "" }] },
+		]
+		const next = [
+			{
+				id: "US1",
+				tasks: [
+					{ id: "TASK1", list: "Add the form", acceptance: "" },
+					{ id: "TASK2", list: "Add the api", acceptance: "Returns a JWT" },
+					{ id: "TASK4", list: "Add the tests", acceptance: "" },
+				],
+			},
+			{ id: "US3", tasks: [{ id: "TASK1", list: "Add the profile", acceptance: "" }] },
+		]
+
+		const changes = diffHaiStories(previous, next)
+
+		changes.should.eql({
+			added: ["US1-TASK4", "US3-TASK1"],
+			changed: ["US1-TASK2"],
+			removed: ["US1-TASK3", "US2-TASK1"],
+		})
+		getHaiTaskChange(changes, "US1-TASK4")!.should.equal("added")
+		getHaiTaskChange(changes, "US1-TASK2")!.should.equal("changed")
+		should(getHaiTaskChange(changes, "US1-TASK1")).be.undefined()
+		diffHaiStories(next, next).should.eql({ added: [], changed: [], removed: [] })
+	})
+})
@@ -0,0 +1,45 @@
+import { HaiTaskChanges } from "./customApi"
+import { getHaiTaskId } from "./haiTaskStatus"
+
+// the fields of a HAI story (IHaiStory) that are compared between two loads
+type HaiTaskChangesSource = {
+	id: string
+	tasks: { id: string; list: string; acceptance: string; subTaskTicketId?: string }[]
+}
+
+export function diffHaiStories(previous: HaiTaskChangesSource[], next: HaiTaskChangesSource[]): HaiTaskChanges {
+	const toTaskMap = (stories: HaiTaskChangesSource[]) =>
+		new Map(stories.flatMap((story) => story.tasks.map((task) => [getHaiTaskId(story.id, task.id), task] as const)))
+	const previousTasks = toTaskMap(previous)
+	const nextTasks = toTaskMap(next)
+
+	const changes: HaiTaskChanges = { added: [], changed: [], removed: [] }
+	for (const [taskId, task] of nextTasks) {
+		const previousTask = previousTasks.get(taskId)
+		if (!previousTask) {
+			changes.added.push(taskId)
+		} else if (
+			previousTask.list !== task.list ||
+			previousTask.acceptance !== task.acceptance ||
+			previousTask.subTaskTicketId !== task.subTaskTicketId
+		) {
+			changes.changed.push(taskId)
+		}
+	}
+	for (const taskId of previousTasks.keys()) {
+		if (!nextTasks.has(taskId)) {
+			changes.removed.push(taskId)
+		}
+	}
+	return changes
+}
+
+export function getHaiTaskChange(changes: HaiTaskChanges | undefined, taskId: string): "added" | "changed" | undefined {
+	if (changes?.added.includes(taskId)) {
+		return "added"
+	}
+	if (changes?.changed.includes(taskId)) {
+		return "changed"
+	}
+	return undefined
+}
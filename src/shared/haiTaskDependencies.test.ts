@@ -0,0 +1,33 @@
+import { describe, it } from "mocha"
+import "should"
+import { findHaiTaskDependencyCycles, getIncompleteHaiTaskDependencies, sortHaiTasksByDependencies } from "./haiTaskDependencies"
+
+describe("HAI task dependencies", () => {
+	it("should find the tasks that depend on each other", () => {
+		findHaiTaskDependencyCycles([
+			{ id: "TASK1", dependsOn: ["TASK3"] },
+			{ id: "TASK2", dependsOn: ["TASK1"] },
+			{ id: "TASK3", dependsOn: ["TASK2", "TASK9"] },
+			{ id: "TASK4", dependsOn: ["TASK4"] },
+			{ id: "TASK5", dependsOn: ["TASK1"] },
+		]).should.eql([["TASK1", "TASK2", "TASK3"], ["TASK4"]])
+		findHaiTaskDependencyCycles([{ id: "TASK1" }, { id: "TASK2", dependsOn: ["TASK1"] }]).should.eql([])
+	})
+
+	it("should order the tasks after their dependencies", () => {
+		sortHaiTasksByDependencies([
+			{ id: "TASK1", dependsOn: ["TASK3"] },
+			{ id: "TASK2" },
+			{ id: "TASK3", dependsOn: ["TASK2", "TASK9"] },
+			{ id: "TASK4", dependsOn: ["TASK5"] },
+			{ id: "TASK5", dependsOn: ["TASK4"] },
+		])
+			.map(({ id }) => id)
+			.should.eql(["TASK2", "TASK3", "TASK1", "TASK4", "TASK5"])
+
+		const completed = new Set(["TASK1"])
+		getIncompleteHaiTaskDependencies({ id: "TASK3", dependsOn: ["TASK1", "TASK2"] }, (id) => completed.has(id)).should.eql([
+			"TASK2",
+		])
+	})
+})
@@ -0,0 +1,88 @@
+// the fields of a HAI task (IHaiTask) used to order the tasks of a story, dependencies are task ids of the same story
+type HaiTaskDependencySource = {
+	id: string
+	dependsOn?: string[]
+}
+
+/**
+ * Groups of tasks of a story that depend on each other, directly or through other tasks, in the order of the tasks.
+ * Dependencies on unknown tasks are ignored.
+ */
+export function findHaiTaskDependencyCycles(tasks: HaiTaskDependencySource[]): string[][] {
+	const taskIds = new Set(tasks.map((task) => task.id))
+	const dependencies = new Map(tasks.map((task) => [task.id, (task.dependsOn ?? []).filter((id) => taskIds.has(id))]))
+
+	// Tarjan's strongly connected components
+	const indexes = new Map<string, number>()
+	const lowLinks = new Map<string, number>()
+	const stack: string[] = []
+	const onStack = new Set<string>()
+	const cycles: string[][] = []
+
+	const visit = (taskId: string) => {
+		indexes.set(taskId, indexes.size)
+		lowLinks.set(taskId, indexes.get(taskId)!)
+		stack.push(taskId)
+		onStack.add(taskId)
+
+		for (const dependencyId of dependencies.get(taskId) ?? []) {
+			if (!indexes.has(dependencyId)) {
+				visit(dependencyId)
+				lowLinks.set(taskId, Math.min(lowLinks.get(taskId)!, lowLinks.get(dependencyId)!))
+			} else if (onStack.has(dependencyId)) {
+				lowLinks.set(taskId, Math.min(lowLinks.get(taskId)!, indexes.get(dependencyId)!))
+			}
+		}
+
+		if (lowLinks.get(taskId) === indexes.get(taskId)) {
+			const component: string[] = []
+			let member: string
+			do {
+				member = stack.pop()!
+				onStack.delete(member)
+				component.push(member)
+			} while (member !== taskId)
+			if (component.length > 1 || dependencies.get(taskId)!.includes(taskId)) {
+				cycles.push(tasks.map((task) => task.id).filter((id) => component.includes(id)))
+			}
+		}
+	}
+
+	for (const task of tasks) {
+		if (!indexes.has(task.id)) {
+			visit(task.id)
+		}
+	}
+	return cycles
+}
+
+/**
+ * Orders the tasks so that every task comes after its dependencies, keeping the original order otherwise.
+ * Tasks that can't be ordered because of a cycle are kept at the end in their original order.
+ */
+export function sortHaiTasksByDependencies<T extends HaiTaskDependencySource>(tasks: T[]): T[] {
+	const taskIds = new Set(tasks.map((task) => task.id))
+	const sorted: T[] = []
+	const sortedIds = new Set<string>()
+	let remaining = tasks
+	while (remaining.length > 0) {
+		const next = remaining.find((task) => (task.dependsOn ?? []).every((id) => sortedIds.has(id) || !taskIds.has(id)))
+		if (!next) {
+			break
+		}
+		sorted.push(next)
+		sortedIds.add(next.id)
+		remaining = remaining.filter((task) => task !== next)
+	}
+	return [...sorted, ...remaining]
+}
+
+/**
+ * Dependencies of the task that are not completed yet, the task is blocked until there are none.
+ */
+export function getIncompleteHaiTaskDependencies(
+	task: HaiTaskDependencySource,
+	isCompleted: (taskId: string) => boolean,
+): string[] {
+	return (task.dependsOn ?? []).filter((id) => !isCompleted(id))
+}
@@ -0,0 +1,27 @@
+import { describe, it } from "mocha"
+import should from "should"
+import { getHaiTaskBranchName, getHaiTaskCommitMessage, getHaiTaskTicketIds } from "./haiTaskGit"
+
+describe("HAI task git", () => {
+	it("should name the branch from the ticket ids", () => {
+		const ticketIds = getHaiTaskTicketIds({ storyTicketId: "PROJ-1", subTaskTicketId: " PROJ-2 " })
+		ticketIds.should.eql(["PROJ-1", "PROJ-2"])
+		getHaiTaskTicketIds({ storyTicketId: "PROJ-1", subTaskTicketId: "PROJ-1" }).should.eql(["PROJ-1"])
+
+		getHaiTaskBranchName(ticketIds, "Add the login form (with validation)!")!.should.equal(
+			"feature/PROJ-1-PROJ-2-add-the-login-form-with-validation",
+		)
+		getHaiTaskBranchName(["#7"], "Fix the header's overlap on mobile screens and tablets in landscape")!.should.equal(
+			"feature/7-fix-the-header-s-overlap-on-mobile-screens-and",
+		)
+		should(getHaiTaskBranchName([], "Add the login form")).be.undefined()
+	})
+
+	it("should start the commit message with the ticket ids", () => {
+		getHaiTaskCommitMessage(["PROJ-1", "PROJ-2"], "Add the login form\nand the api").should.equal(
+			"PROJ-1 PROJ-2: Add the login form",
+		)
+		getHaiTaskCommitMessage([], "Add the login form").should.equal("Add the login form")
+		getHaiTaskCommitMessage(["PROJ-2"], "x".repeat(100)).should.have.length(72)
+	})
+})
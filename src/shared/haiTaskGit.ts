@@ -0,0 +1,51 @@
+type HaiTaskTickets = {
+	storyTicketId?: string
+	subTaskTicketId?: string
+}
+
+const maxBranchNameLength = 60
+const maxCommitSubjectLength = 72
+
+/**
+ * Ticket ids of a HAI task, the story ticket first, without duplicates.
+ */
+export function getHaiTaskTicketIds({ storyTicketId, subTaskTicketId }: HaiTaskTickets): string[] {
+	const ids = [storyTicketId, subTaskTicketId].map((id) => id?.trim()).filter((id): id is string => !!id)
+	return [...new Set(ids)]
+}
+
+/**
+ * Branch named from the ticket ids, e.g. `feature/PROJ-1-PROJ-2-add-the-login-form`, undefined without tickets.
+ */
+export function getHaiTaskBranchName(ticketIds: string[], summary: string): string | undefined {
+	const tickets = ticketIds.map((id) => toRefPart(id.replace(/^#/, ""))).filter(Boolean)
+	if (tickets.length === 0) {
+		return undefined
+	}
+	let branchName = `feature/${tickets.join("-")}`
+	// whole words of the summary while the name fits
+	for (const word of toRefPart(summary.toLowerCase()).split("-")) {
+		if (!word || branchName.length + word.length + 1 > maxBranchNameLength) {
+			break
+		}
+		branchName += `-${word}`
+	}
+	return branchName
+}
+
+/**
+ * Commit message suggestion starting with the ticket ids, e.g. `PROJ-1 PROJ-2: Add the login form`.
+ */
+export function getHaiTaskCommitMessage(ticketIds: string[], summary: string): string {
+	const subject = summary.trim().split(/\r?\n/)[0].trim()
+	const message = ticketIds.length > 0 ? `${ticketIds.join(" ")}: ${subject}` : subject
+	return message.length > maxCommitSubjectLength ? `${message.slice(0, maxCommitSubjectLength - 3).trimEnd()}...` : message
+}
+
+// keeps the characters git allows in a ref name component
+function toRefPart(text: string): string {
+	return text
+		.replace(/[^A-Za-z0-9._-]+/g, "-")
+		.replace(/\.{2,}/g, ".")
+		.replace(/^[-.]+|[-.]+$/g, "")
+}
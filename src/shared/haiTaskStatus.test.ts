@@ -0,0 +1,58 @@
+import { describe, it } from "mocha"
+import should from "should"
+import {
+	findHaiTaskStatusKeyByHistoryTaskId,
+	getHaiStoryProgress,
+	getHaiTaskStatus,
+	parseHaiTaskStatusKey,
+	setHaiTaskAcceptanceChecks,
+	setHaiTaskStatus,
+} from "./haiTaskStatus"
+
+describe("HAI task status", () => {
+	const folder = "/workspace/specs"
+	const reference = { folder, taskId: "US1-TASK1" }
+
+	it("should link every history task that ran a HAI task", () => {
+		getHaiTaskStatus(undefined, reference).should.equal("not-started")
+
+		let statuses = setHaiTaskStatus(undefined, reference, "in-progress", "100", 1)
+		statuses = setHaiTaskStatus(statuses, reference, "failed", undefined, 2)
+		statuses = setHaiTaskStatus(statuses, reference, "in-progress", "200", 3)
+		statuses = setHaiTaskStatus(statuses, reference, "completed", "200", 4)
+
+		statuses.should.eql({
+			"/workspace/specs::US1-TASK1": { status: "completed", historyTaskIds: ["100", "200"], updatedAt: 4 },
+		})
+		getHaiTaskStatus(statuses, { folder: "/workspace/other", taskId: "US1-TASK1" }).should.equal("not-started")
+		findHaiTaskStatusKeyByHistoryTaskId(statuses, "100")!.should.equal("/workspace/specs::US1-TASK1")
+		should(findHaiTaskStatusKeyByHistoryTaskId(statuses, "300")).be.undefined()
+	})
+
+	it("should keep the acceptance checks until the next status change", () => {
+		const key = "/workspace/specs::US1-TASK1"
+		parseHaiTaskStatusKey(key).should.eql(reference)
+
+		const checks = [{ criterion: "It logs in", status: "pass" as const }]
+		let statuses = setHaiTaskStatus(undefined, reference, "completed", "100", 1)
+		statuses = setHaiTaskAcceptanceChecks(statuses, key, checks)
+		statuses[key].acceptanceChecks!.should.eql(checks)
+		setHaiTaskAcceptanceChecks(statuses, "/workspace/specs::US9-TASK1", checks).should.eql(statuses)
+
+		statuses = setHaiTaskStatus(statuses, reference, "in-progress", "200", 2)
+		should(statuses[key].acceptanceChecks).be.undefined()
+	})
+
+	it("should count the task statuses of a story", () => {
+		let statuses = setHaiTaskStatus(undefined, { folder, taskId: "US1-TASK1" }, "completed", "100")
+		statuses = setHaiTaskStatus(statuses, { folder, taskId: "US1-TASK2" }, "in-progress", "200")
+		statuses = setHaiTaskStatus(statuses, { folder, taskId: "US2-TASK3" }, "failed", "300")
+
+		getHaiStoryProgress(statuses, folder, "US1", [{ id: "TASK1" }, { id: "TASK2" }, { id: "TASK3" }]).should.eql({
+			total: 3,
+			completed: 1,
+			inProgress: 1,
+			failed: 0,
+		})
+	})
+})
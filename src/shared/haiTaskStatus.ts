@@ -0,0 +1,108 @@
+import { HaiAcceptanceCheck, HaiTaskReference, HaiTaskStatus, HaiTaskStatusMap } from "./customApi"
+
+export type HaiStoryProgress = {
+	total: number
+	completed: number
+	inProgress: number
+	failed: number
+}
+
+/**
+ * Task ids are only unique within a story, so the story id is part of the id used to track a task.
+ */
+export function getHaiTaskId(storyId: string, taskId: string): string {
+	return `${storyId}-${taskId}`
+}
+
+export function getHaiTaskStatusKey({ folder, taskId }: HaiTaskReference): string {
+	return `${folder}::${taskId}`
+}
+
+export function parseHaiTaskStatusKey(key: string): HaiTaskReference {
+	const separator = key.lastIndexOf("::")
+	return { folder: key.slice(0, separator), taskId: key.slice(separator + 2) }
+}
+
+export function getHaiTaskStatus(statuses: HaiTaskStatusMap | undefined, reference: HaiTaskReference): HaiTaskStatus {
+	return statuses?.[getHaiTaskStatusKey(reference)]?.status ?? "not-started"
+}
+
+/**
+ * Returns a copy of the statuses with the task moved to the given status and linked to the history task that ran it.
+ */
+export function setHaiTaskStatus(
+	statuses: HaiTaskStatusMap | undefined,
+	reference: HaiTaskReference,
+	status: HaiTaskStatus,
+	historyTaskId?: string,
+	updatedAt = Date.now(),
+): HaiTaskStatusMap {
+	return setHaiTaskStatusByKey(statuses, getHaiTaskStatusKey(reference), status, historyTaskId, updatedAt)
+}
+
+export function setHaiTaskStatusByKey(
+	statuses: HaiTaskStatusMap | undefined,
+	key: string,
+	status: HaiTaskStatus,
+	historyTaskId?: string,
+	updatedAt = Date.now(),
+): HaiTaskStatusMap {
+	const historyTaskIds = statuses?.[key]?.historyTaskIds ?? []
+	return {
+		...statuses,
+		[key]: {
+			status,
+			historyTaskIds:
+				historyTaskId && !historyTaskIds.includes(historyTaskId) ? [...historyTaskIds, historyTaskId] : historyTaskIds,
+			updatedAt,
+		},
+	}
+}
+
+export function setHaiTaskAcceptanceChecks(
+	statuses: HaiTaskStatusMap | undefined,
+	key: string,
+	acceptanceChecks: HaiAcceptanceCheck[],
+): HaiTaskStatusMap {
+	const record = statuses?.[key]
+	return record ? { ...statuses, [key]: { ...record, acceptanceChecks } } : { ...statuses }
+}
+
+/**
+ * Key of the HAI task executed by a history task, the latest one if the history task was linked more than once.
+ */
+export function findHaiTaskStatusKeyByHistoryTaskId(
+	statuses: HaiTaskStatusMap | undefined,
+	historyTaskId: string,
+): string | undefined {
+	let found: { key: string; updatedAt: number } | undefined
+	for (const [key, record] of Object.entries(statuses ?? {})) {
+		if (record.historyTaskIds.includes(historyTaskId) && (!found || record.updatedAt > found.updatedAt)) {
+			found = { key, updatedAt: record.updatedAt }
+		}
+	}
+	return found?.key
+}
+
+export function getHaiStoryProgress(
+	statuses: HaiTaskStatusMap | undefined,
+	folder: string,
+	storyId: string,
+	tasks: { id: string }[],
+): HaiStoryProgress {
+	const progress: HaiStoryProgress = { total: tasks.length, completed: 0, inProgress: 0, failed: 0 }
+	for (const task of tasks) {
+		switch (getHaiTaskStatus(statuses, { folder, taskId: getHaiTaskId(storyId, task.id) })) {
+			case "completed":
+				progress.completed++
+				break
+			case "in-progress":
+				progress.inProgress++
+				break
+			case "failed":
+				progress.failed++
+				break
+		}
+	}
+	return progress
+}
@@ -1,6 +1,7 @@
-import { join } from "path"
+import { dirname, join } from "path"
 import { HaiBuildDefaults } from "../shared/haiDefaults"
 import { existsSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { getDirectorySummaryPath, getFileSummaryPath } from "../integrations/code-prep/CodeSummary"
 
 export async function deleteFromContextDirectory(filePaths: string[], srcFolder: string) {
 	// Get destination paths
@@ -13,6 +14,13 @@ export async function deleteFromContextDirectory(filePaths: string[], srcFolder:
 		if (existsSync(destinationFilePath)) {
 			rmSync(destinationFilePath, { recursive: true })
 		}
+		// summary of the file, or the summaries of a deleted directory and its files
+		const fileSummaryPath = getFileSummaryPath(srcFolder, filePath)
+		rmSync(fileSummaryPath, { force: true })
+		rmSync(fileSummaryPath.replace(/\.md$/, ""), { recursive: true, force: true })
+		if (filePath !== srcFolder) {
+			rmSync(dirname(getDirectorySummaryPath(srcFolder, filePath)), { recursive: true, force: true })
+		}
 	}
 
 	// Handle hash file updates
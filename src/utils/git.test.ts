@@ -0,0 +1,43 @@
+import { execFileSync } from "child_process"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import { tmpdir } from "os"
+import { join } from "path"
+import should from "should"
+import { commitFiles } from "./git"
+
+describe("commitFiles", () => {
+	let directory: string
+	const git = (...args: string[]) => execFileSync("git", args, { cwd: directory, encoding: "utf-8" }).trim()
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "hai-git-"))
+		git("init", "--quiet")
+		git("config", "user.name", "Test")
+		git("config", "user.email", "test@example.com")
+		writeFileSync(join(directory, "README.md"), "readme")
+		git("add", "README.md")
+		git("commit", "--quiet", "-m", "Initial commit")
+	})
+
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true })
+	})
+
+	it("should leave out the files created then deleted and commit the others", async () => {
+		writeFileSync(join(directory, "login.ts"), "login")
+		writeFileSync(join(directory, "other.ts"), "other")
+
+		const hash = await commitFiles(directory, ["login.ts", "scratch.ts"], "Add the login")
+
+		should(hash).be.a.String()
+		git("show", "--name-only", "--format=", "HEAD").should.equal("login.ts")
+		git("status", "--porcelain").should.equal("?? other.ts")
+	})
+
+	it("should return undefined when there is nothing to commit", async () => {
+		should(await commitFiles(directory, ["scratch.ts"], "Nothing")).be.undefined()
+		should(await commitFiles(directory, ["README.md"], "Unchanged")).be.undefined()
+		git("rev-list", "--count", "HEAD").should.equal("1")
+	})
+})
@@ -1,7 +1,10 @@
-import { exec, execSync } from "child_process"
+import { exec, execFile, execSync } from "child_process"
+import { access } from "fs/promises"
+import * as path from "path"
 import { promisify } from "util"
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 const GIT_OUTPUT_LINE_LIMIT = 500
 
 export interface GitCommit {
@@ -176,6 +179,79 @@ function truncateOutput(content: string): string {
 	].join("\n")
 }
 
+/**
+ * Commit checked out in `cwd`, undefined outside of a git repository.
+ */
+export async function getHeadCommitHash(cwd: string): Promise<string | undefined> {
+	try {
+		const { stdout } = await execAsync("git rev-parse HEAD", { cwd })
+		return stdout.trim() || undefined
+	} catch (error) {
+		return undefined
+	}
+}
+
+/**
+ * Branch checked out in `cwd`, undefined outside of a git repository or with a detached HEAD.
+ */
+export async function getCurrentBranch(cwd: string): Promise<string | undefined> {
+	try {
+		const { stdout } = await execFileAsync("git", ["symbolic-ref", "--short", "HEAD"], { cwd })
+		return stdout.trim() || undefined
+	} catch (error) {
+		return undefined
+	}
+}
+
+/**
+ * Switches to `branch`, creating it from HEAD when it does not exist. Uncommitted changes are kept.
+ */
+export async function switchToBranch(cwd: string, branch: string): Promise<"created" | "switched"> {
+	const exists = await execFileAsync("git", ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`], { cwd }).then(
+		() => true,
+		() => false,
+	)
+	await execFileAsync("git", exists ? ["checkout", branch] : ["checkout", "-b", branch], { cwd })
+	return exists ? "switched" : "created"
+}
+
+/**
+ * Stages and commits only the given files (added, changed or deleted), other staged changes are not committed.
+ * Files that neither exist nor are known to git (created then deleted) are left out. Returns the short hash of
+ * the commit, undefined when there is nothing to commit.
+ */
+export async function commitFiles(cwd: string, files: string[], message: string): Promise<string | undefined> {
+	const committableFiles: string[] = []
+	for (const file of files) {
+		const isKnown =
+			(await access(path.resolve(cwd, file)).then(
+				() => true,
+				() => false,
+			)) ||
+			(await execFileAsync("git", ["ls-files", "--error-unmatch", "--", file], { cwd }).then(
+				() => true,
+				() => false,
+			))
+		if (isKnown) {
+			committableFiles.push(file)
+		}
+	}
+	if (committableFiles.length === 0) {
+		return undefined
+	}
+	await execFileAsync("git", ["add", "-A", "--", ...committableFiles], { cwd })
+	const hasChanges = await execFileAsync("git", ["diff", "--cached", "--quiet", "--", ...committableFiles], { cwd }).then(
+		() => false,
+		() => true,
+	)
+	if (!hasChanges) {
+		return undefined
+	}
+	await execFileAsync("git", ["commit", "-m", message, "--only", "--", ...committableFiles], { cwd })
+	const { stdout } = await execFileAsync("git", ["rev-parse", "--short", "HEAD"], { cwd })
+	return stdout.trim()
+}
+
 export function getGitUserInfo(): { username: string; email: string } {
 	try {
 		const username = execSync("git config --global user.name", { encoding: "utf8" }).trim()
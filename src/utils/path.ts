@@ -110,6 +110,10 @@ export const getWorkspaceURI = () => {
 	return workspaceFolder.uri
 }
 
+export const getWorkspaceFolderPaths = (): string[] => {
+	return vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) ?? []
+}
+
 export const getWorkspacePath = () => {
 	const workspaceURI = getWorkspaceURI()
 	if (!workspaceURI) {
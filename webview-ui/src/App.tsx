@@ -1,12 +1,14 @@
 import { useCallback, useEffect, useState } from "react"
 import { useEvent } from "react-use"
 import { ExtensionMessage } from "../../src/shared/ExtensionMessage"
+import { HaiTaskChanges, HaiTaskSourceError } from "../../src/shared/customApi"
 import ChatView from "./components/chat/ChatView"
 import HistoryView from "./components/history/HistoryView"
 import SettingsView from "./components/settings/SettingsView"
 import WelcomeView from "./components/welcome/WelcomeView"
 import AccountView from "./components/account/AccountView"
 import ExpertsView from "./components/experts/ExpertsView"
+import CodeIndexView from "./components/code-index/CodeIndexView"
 import { ExtensionStateContextProvider, useExtensionState } from "./context/ExtensionStateContext"
 import { FirebaseAuthProvider } from "./context/FirebaseAuthContext"
 import { vscode } from "./utils/vscode"
@@ -23,10 +25,14 @@ const AppContent = () => {
 	const [showMcp, setShowMcp] = useState(false)
 	const [showAccount, setShowAccount] = useState(false)
 	const [showExperts, setShowExperts] = useState(false)
+	const [showCodeIndex, setShowCodeIndex] = useState(false)
 	const [showAnnouncement, setShowAnnouncement] = useState(false)
 	const [showHaiTaskList, setShowHaiTaskList] = useState(false)
 	const [taskList, setTaskList] = useState<IHaiStory[]>([])
 	const [taskLastUpdatedTs, setTaskLastUpdatedTs] = useState<string>("")
+	const [taskSourceErrors, setTaskSourceErrors] = useState<HaiTaskSourceError[]>([])
+	const [taskChanges, setTaskChanges] = useState<HaiTaskChanges | undefined>()
+	const [taskSource, setTaskSource] = useState<string | undefined>()
 	const [selectedTask, setSelectedTask] = useState<IHaiClineTask | null>(null)
 	const [detailedTask, setDetailedTask] = useState<IHaiTask | null>(null)
 	const [detailedStory, setDetailedStory] = useState<IHaiStory | null>(null)
@@ -45,6 +51,7 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(false)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "historyButtonClicked":
 						setShowSettings(false)
@@ -55,6 +62,7 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(false)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "mcpButtonClicked":
 						setShowSettings(false)
@@ -65,6 +73,7 @@ const AppContent = () => {
 						setShowMcp(true)
 						setShowAccount(false)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "accountButtonClicked":
 						setShowSettings(false)
@@ -75,6 +84,7 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(true)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "chatButtonClicked":
 						setShowSettings(false)
@@ -85,6 +95,7 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(false)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "haiBuildTaskListClicked":
 						setShowSettings(false)
@@ -95,6 +106,7 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(false)
 						setShowExperts(false)
+						setShowCodeIndex(false)
 						break
 					case "expertsButtonClicked":
 						setShowSettings(false)
@@ -105,12 +117,27 @@ const AppContent = () => {
 						setShowMcp(false)
 						setShowAccount(false)
 						setShowExperts(true)
+						setShowCodeIndex(false)
+						break
+					case "codeIndexButtonClicked":
+						setShowSettings(false)
+						setShowHistory(false)
+						setShowHaiTaskList(false)
+						setDetailedStory(null)
+						setDetailedTask(null)
+						setShowMcp(false)
+						setShowAccount(false)
+						setShowExperts(false)
+						setShowCodeIndex(true)
 						break
 				}
 				break
 			case "haiTaskData":
 				setTaskList(message.haiTaskData!.tasks)
 				setTaskLastUpdatedTs(message.haiTaskData!.ts)
+				setTaskSourceErrors(message.haiTaskData!.errors ?? [])
+				setTaskChanges(message.haiTaskData!.changes)
+				setTaskSource(message.haiTaskData!.source)
 				setHaiConfig({ ...haiConfig, folder: message.haiTaskData!.folder, ts: message.haiTaskData!.ts })
 				break
 		}
@@ -153,6 +180,7 @@ const AppContent = () => {
 
 	const onHaiTaskReset = () => {
 		setTaskList([])
+		setTaskSourceErrors([])
 		vscode.postMessage({ type: "onHaiConfigure", bool: false })
 	}
 
@@ -207,6 +235,9 @@ const AppContent = () => {
 								<HaiTasksList
 									haiTaskList={taskList}
 									haiTaskLastUpdatedTs={taskLastUpdatedTs}
+									haiTaskSourceErrors={taskSourceErrors}
+									haiTaskChanges={taskChanges}
+									haiTaskSource={taskSource}
 									selectedHaiTask={(selectedTask) => {
 										setSelectedTask(selectedTask)
 										setShowHaiTaskList(false)
@@ -223,6 +254,7 @@ const AppContent = () => {
 							{showMcp && <McpView onDone={() => setShowMcp(false)} />}
 							{showAccount && <AccountView onDone={() => setShowAccount(false)} />}
 							{showExperts && <ExpertsView onDone={() => setShowExperts(false)} />}
+							{showCodeIndex && <CodeIndexView onDone={() => setShowCodeIndex(false)} />}
 							{/* Do not conditionally load ChatView, it's expensive and there's state we don't want to lose (user input, disableInput, askResponse promise, etc.) */}
 							<ChatView
 								onTaskSelect={(selectedTask) => {
@@ -236,7 +268,7 @@ const AppContent = () => {
 									setShowAccount(false)
 								}}
 								selectedHaiTask={selectedTask}
-								isHidden={showSettings || showHistory || showMcp || showAccount || showExperts}
+								isHidden={showSettings || showHistory || showMcp || showAccount || showExperts || showCodeIndex}
 								showAnnouncement={showAnnouncement}
 								hideAnnouncement={() => {
 									setShowAnnouncement(false)
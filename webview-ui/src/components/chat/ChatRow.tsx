@@ -1,4 +1,4 @@
-import { VSCodeBadge, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeBadge, VSCodeButton, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
 import deepEqual from "fast-deep-equal"
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useEvent, useSize } from "react-use"
@@ -9,6 +9,7 @@ import {
 	ClineAskUseMcpServer,
 	ClineMessage,
 	ClinePlanModeResponse,
+	ClineSayExpertKnowledge,
 	ClineSayTool,
 	COMPLETION_RESULT_CHANGES_FLAG,
 	ExtensionMessage,
@@ -26,11 +27,14 @@ import Thumbnails from "../common/Thumbnails"
 import McpResourceRow from "../mcp/McpResourceRow"
 import McpToolRow from "../mcp/McpToolRow"
 import McpResponseDisplay from "../mcp/McpResponseDisplay"
+import ChatRowExtra from "./ChatRowExtra"
 import CreditLimitError from "./CreditLimitError"
 import { OptionsButtons } from "./OptionsButtons"
 import { highlightMentions } from "./TaskHeader"
 import SuccessButton from "../common/SuccessButton"
 import TaskFeedbackButtons from "./TaskFeedbackButtons"
+import { HaiAcceptanceChecklist } from "../hai/HaiAcceptanceChecklist"
+import { ExpertKnowledgePassages } from "../experts/ExpertKnowledgePassages"
 
 const ChatRowContainer = styled.div`
 	padding: 10px 6px 10px 15px;
@@ -522,7 +526,16 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 					</>
 				)
 			default:
-				return null
+				return (
+					<ChatRowExtra
+						headerStyle={headerStyle}
+						toolIcon={toolIcon}
+						message={message}
+						isExpanded={isExpanded}
+						onToggleExpand={onToggleExpand}
+						tool={tool}
+					/>
+				)
 		}
 	}
 
@@ -982,6 +995,8 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 							</div>
 						</>
 					)
+				case "expert_knowledge":
+					return <ExpertKnowledgePassages knowledge={JSON.parse(message.text || "{}") as ClineSayExpertKnowledge} />
 				case "checkpoint_created":
 					return (
 						<>
@@ -1019,6 +1034,9 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 								}}>
 								<Markdown markdown={text} />
 							</div>
+							{message.acceptanceChecks && message.acceptanceChecks.length > 0 && (
+								<HaiAcceptanceChecklist checks={message.acceptanceChecks} style={{ marginTop: 12 }} />
+							)}
 							{message.partial !== true && hasChanges && (
 								<div style={{ paddingTop: 17 }}>
 									<SuccessButton
@@ -1037,6 +1055,18 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 										<i className="codicon codicon-new-file" style={{ marginRight: 6 }} />
 										See new changes
 									</SuccessButton>
+									{isLast &&
+										lastModifiedMessage?.ask !== "resume_completed_task" &&
+										lastModifiedMessage?.ask !== "resume_task" && (
+											<VSCodeButton
+												appearance="secondary"
+												title="Stage and commit only the files edited by this task"
+												onClick={() => vscode.postMessage({ type: "commitTaskChanges" })}
+												style={{ width: "100%", marginTop: 8 }}>
+												<i className="codicon codicon-git-commit" style={{ marginRight: 6 }} />
+												Commit task changes
+											</VSCodeButton>
+										)}
 								</div>
 							)}
 						</>
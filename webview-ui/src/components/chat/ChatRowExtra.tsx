@@ -49,6 +49,29 @@ const ChatRowExtra: React.FC<ChatRowExtraProps> = ({ headerStyle, toolIcon, mess
 					)}
 				</>
 			)
+		case "semanticSearch":
+			return (
+				<>
+					<div style={headerStyle}>
+						{toolIcon("search")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask" ? (
+								<>HAI is searching the code index:</>
+							) : (
+								<>HAI found the following code in the index:</>
+							)}
+						</span>
+					</div>
+					<CodeAccordian
+						code={tool.content!}
+						path={tool.path || ""}
+						language="markdown"
+						isExpanded={message.type === "ask" ? false : isExpanded}
+						onToggleExpand={onToggleExpand}
+						showActionIcon={message.type !== "ask"}
+					/>
+				</>
+			)
 		case "codeSecurityScan":
 			return (
 				<>
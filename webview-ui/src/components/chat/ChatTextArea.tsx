@@ -344,7 +344,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		},
 		ref,
 	) => {
-		const { filePaths, chatSettings, apiConfiguration, openRouterModels, platform } = useExtensionState()
+		const { filePaths, chatSettings, apiConfiguration, openRouterModels, platform, expertName } = useExtensionState()
 		const [isTextAreaFocused, setIsTextAreaFocused] = useState(false)
 		const [gitCommits, setGitCommits] = useState<any[]>([])
 
@@ -896,6 +896,13 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			})
 		}, [])
 
+		// Follow the expert selected outside of the dropdown, e.g. from a suggestion
+		useEffect(() => {
+			if ((expertName ?? null) !== (selectedExpert?.name ?? null)) {
+				setSelectedExpert([...experts, ...customExperts].find((expert) => expert.name === expertName) ?? null)
+			}
+		}, [expertName, customExperts])
+
 		const handleExpertsButtonClick = useCallback(() => {
 			// Request custom experts from the extension
 			vscode.postMessage({ type: "loadExperts" })
@@ -1337,6 +1344,9 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 												isSelected={selectedExpert?.name === expert.name}
 												onClick={() => handleExpertSelect(expert)}>
 												{expert.name}
+												{expert.scope && expert.scope !== "workspace" && (
+													<ExpertTag>{expert.scope === "team" ? "Team" : "Global"}</ExpertTag>
+												)}
 											</ExpertItem>
 										))}
 									</ExpertsList>
@@ -16,6 +16,7 @@ import { findLast } from "../../../../src/shared/array"
 import { combineApiRequests } from "../../../../src/shared/combineApiRequests"
 import { combineCommandSequences } from "../../../../src/shared/combineCommandSequences"
 import { getApiMetrics } from "../../../../src/shared/getApiMetrics"
+import { HaiTaskReference } from "../../../../src/shared/customApi"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { vscode } from "../../utils/vscode"
 import HistoryPreview from "../history/HistoryPreview"
@@ -31,6 +32,7 @@ import { IHaiClineTask } from "../../interfaces/hai-task.interface"
 import CodeIndexWarning from "./CodeIndexWarning"
 import QuickActions from "../welcome/QuickActions"
 import TelemetryBanner from "../common/TelemetryBanner"
+import { ExpertSuggestion } from "../experts/ExpertSuggestion"
 
 interface ChatViewProps {
 	isHidden: boolean
@@ -51,7 +53,7 @@ const ChatView = ({
 	onTaskSelect,
 	selectedHaiTask,
 }: ChatViewProps) => {
-	const { version, clineMessages: messages, taskHistory, apiConfiguration, telemetrySetting } = useExtensionState()
+	const { version, clineMessages: messages, taskHistory, apiConfiguration, telemetrySetting, haiConfig } = useExtensionState()
 
 	//const task = messages.length > 0 ? (messages[0].say === "task" ? messages[0] : undefined) : undefined) : undefined
 	const task = useMemo(() => messages.at(0), [messages]) // leaving this less safe version here since if the first message is not a task, then the extension is in a bad state and needs to be debugged (see Cline.abort)
@@ -77,6 +79,8 @@ const ChatView = ({
 	const textAreaRef = useRef<HTMLTextAreaElement>(null)
 	const [textAreaDisabled, setTextAreaDisabled] = useState(false)
 	const [selectedImages, setSelectedImages] = useState<string[]>([])
+	// the HAI task the input was filled from, linked to the next new task to track its status
+	const [haiTaskReference, setHaiTaskReference] = useState<HaiTaskReference | undefined>(undefined)
 
 	// we need to hold on to the ask because useEffect > lastMessage will always let us know when an ask comes in and handle it, but by the time handleMessage is called, the last message might not be the ask anymore (it could be a say that followed)
 	const [clineAsk, setClineAsk] = useState<ClineAsk | undefined>(undefined)
@@ -98,6 +102,10 @@ const ChatView = ({
 
 	useEffect(() => {
 		selectedHaiTask && setInputValue(`Task: ${selectedHaiTask.list} ${selectedHaiTask.acceptance} ${selectedHaiTask.context}`)
+		setHaiTaskReference(
+			selectedHaiTask?.id && haiConfig?.folder ? { folder: haiConfig.folder, taskId: selectedHaiTask.id } : undefined,
+		)
+		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [selectedHaiTask])
 
 	useDeepCompareEffect(() => {
@@ -303,7 +311,7 @@ const ChatView = ({
 			text = text.trim()
 			if (text || images.length > 0) {
 				if (messages.length === 0) {
-					vscode.postMessage({ type: "newTask", text, images })
+					vscode.postMessage({ type: "newTask", text, images, haiTask: haiTaskReference })
 				} else if (clineAsk) {
 					switch (clineAsk) {
 						case "followup":
@@ -330,6 +338,7 @@ const ChatView = ({
 				setInputValue("")
 				setTextAreaDisabled(true)
 				setSelectedImages([])
+				setHaiTaskReference(undefined)
 				setClineAsk(undefined)
 				setEnableButtons(false)
 				// setPrimaryButtonText(undefined)
@@ -337,7 +346,7 @@ const ChatView = ({
 				disableAutoScrollRef.current = false
 			}
 		},
-		[messages.length, clineAsk],
+		[messages.length, clineAsk, haiTaskReference],
 	)
 
 	const startNewTask = useCallback(() => {
@@ -964,6 +973,7 @@ const ChatView = ({
 					)}
 				</>
 			)}
+			<ExpertSuggestion task={task} />
 			<ChatTextArea
 				ref={textAreaRef}
 				inputValue={inputValue}
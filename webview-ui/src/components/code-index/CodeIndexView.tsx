@@ -0,0 +1,359 @@
+import React, { memo, useEffect, useMemo, useState } from "react"
+import styled from "styled-components"
+import { VSCodeButton, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { useEvent } from "react-use"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { CodeIndexReport, CodeIndexSearchResult, CodeIndexSkipReason } from "../../../../src/shared/customApi"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+interface CodeIndexViewProps {
+	onDone: () => void
+}
+
+const skipReasonLabels: Record<CodeIndexSkipReason, string> = {
+	excluded: "Excluded by the exclude folders setting",
+	binary: "Binary file",
+	unchanged: "Unchanged since it was indexed (hash match)",
+	deleted: "Deleted during indexing",
+}
+
+const formatTimestamp = (ts?: number) => (ts ? new Date(ts).toLocaleString() : "unknown")
+
+const CodeIndexView: React.FC<CodeIndexViewProps> = ({ onDone }) => {
+	const { vscodeWorkspacePath } = useExtensionState()
+	const [report, setReport] = useState<CodeIndexReport | null>(null)
+	const [reportError, setReportError] = useState<string | undefined>()
+	const [isLoading, setIsLoading] = useState(true)
+	const [fileFilter, setFileFilter] = useState("")
+	const [query, setQuery] = useState("")
+	const [isQuerying, setIsQuerying] = useState(false)
+	const [queryResults, setQueryResults] = useState<CodeIndexSearchResult[] | null>(null)
+	const [queryError, setQueryError] = useState<string | undefined>()
+
+	const refresh = () => {
+		setIsLoading(true)
+		vscode.postMessage({ type: "requestCodeIndexReport" })
+	}
+
+	useEffect(() => {
+		refresh()
+	}, [])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+		switch (message.type) {
+			case "codeIndexReport":
+				setIsLoading(false)
+				setReport(message.codeIndexReport ?? null)
+				setReportError(message.error)
+				break
+			case "codeIndexQueryResults":
+				setIsQuerying(false)
+				setQueryResults(message.codeIndexQueryResults ?? [])
+				setQueryError(message.error)
+				break
+		}
+	})
+
+	const runQuery = () => {
+		if (!query.trim()) {
+			return
+		}
+		setIsQuerying(true)
+		vscode.postMessage({ type: "queryCodeIndex", text: query })
+	}
+
+	const relativePath = (path: string) =>
+		vscodeWorkspacePath && path.startsWith(vscodeWorkspacePath) ? path.slice(vscodeWorkspacePath.length + 1) : path
+
+	const filteredFiles = useMemo(() => {
+		const filter = fileFilter.trim().toLowerCase()
+		return (report?.files ?? []).filter((file) => !filter || file.path.toLowerCase().includes(filter))
+	}, [report, fileFilter])
+
+	const filteredSkippedFiles = useMemo(() => {
+		const filter = fileFilter.trim().toLowerCase()
+		return (report?.skippedFiles ?? []).filter((file) => !filter || file.path.toLowerCase().includes(filter))
+	}, [report, fileFilter])
+
+	const totalChunks = useMemo(() => (report?.files ?? []).reduce((total, file) => total + file.chunks, 0), [report])
+	const staleFiles = useMemo(() => (report?.files ?? []).filter((file) => file.isStale).length, [report])
+
+	return (
+		<Container>
+			<Header>
+				<h3>CODE INDEX</h3>
+				<div style={{ display: "flex", gap: "4px" }}>
+					<VSCodeButton appearance="icon" title="Refresh" onClick={refresh} disabled={isLoading}>
+						<span className="codicon codicon-refresh"></span>
+					</VSCodeButton>
+					<VSCodeButton onClick={onDone}>Done</VSCodeButton>
+				</div>
+			</Header>
+
+			<Content>
+				{reportError ? (
+					<EmptyState>{reportError}</EmptyState>
+				) : isLoading && !report ? (
+					<EmptyState>Loading code index...</EmptyState>
+				) : (
+					<>
+						<Section>
+							<Summary>
+								<span>
+									<b>{report?.files.length ?? 0}</b> files, <b>{totalChunks}</b> chunks
+								</span>
+								{staleFiles > 0 && (
+									<span style={{ color: "var(--vscode-editorWarning-foreground)" }}>
+										<b>{staleFiles}</b> modified since indexed
+									</span>
+								)}
+								<span>Vector store: {report?.vectorStore ?? "none"}</span>
+								<span>Last run: {formatTimestamp(report?.lastRunAt)}</span>
+							</Summary>
+						</Section>
+
+						<Section>
+							<SectionHeader>Query</SectionHeader>
+							<div style={{ display: "flex", gap: "6px" }}>
+								<VSCodeTextField
+									value={query}
+									placeholder="Describe the code to look up"
+									style={{ flexGrow: 1 }}
+									onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
+									onKeyDown={(e) => e.key === "Enter" && runQuery()}
+								/>
+								<VSCodeButton onClick={runQuery} disabled={isQuerying || !query.trim()}>
+									Search
+								</VSCodeButton>
+							</div>
+							{queryError && <ErrorText>{queryError}</ErrorText>}
+							{queryResults && !queryError && (
+								<List>
+									{queryResults.length === 0 && <EmptyState>No matching code found.</EmptyState>}
+									{queryResults.map((result, index) => (
+										<ResultCard key={`${result.path}:${result.startLine}:${index}`}>
+											<Row onClick={() => vscode.postMessage({ type: "openFile", text: result.path })}>
+												<FilePath title={result.path}>
+													{relativePath(result.path)}
+													{result.startLine ? `:${result.startLine}-${result.endLine}` : ""}
+												</FilePath>
+												<Meta>{result.score.toFixed(3)}</Meta>
+											</Row>
+											{result.symbolName && (
+												<Meta>
+													{result.symbolKind} {result.symbolName}
+												</Meta>
+											)}
+											<Snippet>{result.snippet.split("\n").slice(0, 8).join("\n")}</Snippet>
+										</ResultCard>
+									))}
+								</List>
+							)}
+						</Section>
+
+						<VSCodeTextField
+							value={fileFilter}
+							placeholder="Filter files"
+							onInput={(e) => setFileFilter((e.target as HTMLInputElement).value)}>
+							<span slot="start" className="codicon codicon-filter"></span>
+						</VSCodeTextField>
+
+						<Section>
+							<SectionHeader>
+								Indexed Files <CountBadge>({filteredFiles.length})</CountBadge>
+							</SectionHeader>
+							{filteredFiles.length === 0 ? (
+								<EmptyState>Nothing indexed yet.</EmptyState>
+							) : (
+								<ScrollableList>
+									{filteredFiles.map((file) => (
+										<Row
+											key={file.path}
+											onClick={() => vscode.postMessage({ type: "openFile", text: file.path })}>
+											<FilePath title={file.path}>
+												{file.isStale && (
+													<span
+														className="codicon codicon-warning"
+														title="Modified since it was indexed"
+														style={{
+															color: "var(--vscode-editorWarning-foreground)",
+															marginRight: "4px",
+														}}
+													/>
+												)}
+												{relativePath(file.path)}
+											</FilePath>
+											<Meta title={`Indexed ${formatTimestamp(file.indexedAt)}`}>
+												{file.chunks} {file.chunks === 1 ? "chunk" : "chunks"} ·{" "}
+												{formatTimestamp(file.indexedAt)}
+											</Meta>
+										</Row>
+									))}
+								</ScrollableList>
+							)}
+						</Section>
+
+						<Section>
+							<SectionHeader>
+								Skipped Files <CountBadge>({filteredSkippedFiles.length})</CountBadge>
+							</SectionHeader>
+							{filteredSkippedFiles.length === 0 ? (
+								<EmptyState>No files were skipped by the last run.</EmptyState>
+							) : (
+								<ScrollableList>
+									{filteredSkippedFiles.map((file) => (
+										<Row key={file.path}>
+											<FilePath title={file.path}>{relativePath(file.path)}</FilePath>
+											<Meta title={skipReasonLabels[file.reason]}>{file.reason}</Meta>
+										</Row>
+									))}
+								</ScrollableList>
+							)}
+							{!!report?.omittedSkippedFiles && (
+								<Meta style={{ marginTop: "6px" }}>
+									{report.omittedSkippedFiles} more skipped files are not listed.
+								</Meta>
+							)}
+						</Section>
+					</>
+				)}
+			</Content>
+		</Container>
+	)
+}
+
+const Container = styled.div`
+	position: fixed;
+	top: 0;
+	left: 0;
+	right: 0;
+	bottom: 0;
+	padding: 10px 0px 0px 20px;
+	display: flex;
+	flex-direction: column;
+	overflow: hidden;
+	box-sizing: border-box;
+`
+
+const Header = styled.div`
+	display: flex;
+	justify-content: space-between;
+	align-items: center;
+	margin-bottom: 17px;
+	padding-right: 17px;
+
+	h3 {
+		color: var(--vscode-foreground);
+		margin: 0;
+	}
+`
+
+const Content = styled.div`
+	flex-grow: 1;
+	padding-right: 17px;
+	padding-bottom: 24px;
+	display: flex;
+	flex-direction: column;
+	overflow-y: auto;
+	gap: 12px;
+`
+
+const Section = styled.section`
+	width: 100%;
+	display: flex;
+	flex-direction: column;
+`
+
+const SectionHeader = styled.h4`
+	margin: 0 0 8px 0;
+`
+
+const Summary = styled.div`
+	display: flex;
+	flex-wrap: wrap;
+	gap: 4px 12px;
+	font-size: 12px;
+	color: var(--vscode-descriptionForeground);
+`
+
+const List = styled.div`
+	display: flex;
+	flex-direction: column;
+	gap: 6px;
+	margin-top: 8px;
+`
+
+const ScrollableList = styled.div`
+	max-height: 240px;
+	overflow-y: auto;
+	border: 1px solid var(--vscode-panel-border);
+	border-radius: 4px;
+`
+
+const Row = styled.div`
+	display: flex;
+	justify-content: space-between;
+	gap: 8px;
+	padding: 3px 6px;
+	font-size: 12px;
+	cursor: pointer;
+
+	&:hover {
+		background-color: var(--vscode-list-hoverBackground);
+	}
+`
+
+const FilePath = styled.span`
+	overflow: hidden;
+	text-overflow: ellipsis;
+	white-space: nowrap;
+`
+
+const Meta = styled.span`
+	flex-shrink: 0;
+	font-size: 11px;
+	color: var(--vscode-descriptionForeground);
+`
+
+const ResultCard = styled.div`
+	border: 1px solid var(--vscode-panel-border);
+	border-radius: 4px;
+	background-color: var(--vscode-editor-background);
+	padding: 4px 0;
+`
+
+const Snippet = styled.pre`
+	margin: 4px 6px 0 6px;
+	font-family: var(--vscode-editor-font-family);
+	font-size: 11px;
+	white-space: pre-wrap;
+	word-break: break-all;
+	max-height: 140px;
+	overflow: hidden;
+`
+
+const ErrorText = styled.p`
+	color: var(--vscode-errorForeground);
+	font-size: 12px;
+`
+
+const EmptyState = styled.div`
+	text-align: center;
+	padding: 12px;
+	font-size: 12px;
+	color: var(--vscode-descriptionForeground);
+	border: 1px dashed var(--vscode-panel-border);
+	border-radius: 4px;
+`
+
+const CountBadge = styled.span`
+	font-size: 0.85em;
+	opacity: 0.7;
+	font-weight: normal;
+	margin-left: 6px;
+	color: var(--vscode-descriptionForeground);
+`
+
+export default memo(CodeIndexView)
@@ -0,0 +1,74 @@
+import React, { useState } from "react"
+import { ClineSayExpertKnowledge } from "../../../../src/shared/ExtensionMessage"
+
+interface ExpertKnowledgePassagesProps {
+	knowledge: ClineSayExpertKnowledge
+}
+
+// passages of the reference documents of the active expert added to the prompt of a request
+export const ExpertKnowledgePassages: React.FC<ExpertKnowledgePassagesProps> = ({ knowledge }) => {
+	const [isExpanded, setIsExpanded] = useState(false)
+	const passages = knowledge.passages ?? []
+	if (passages.length === 0) {
+		return null
+	}
+
+	return (
+		<div
+			style={{
+				fontSize: "12px",
+				border: "1px solid var(--vscode-panel-border)",
+				borderRadius: "3px",
+			}}>
+			<div
+				onClick={() => setIsExpanded(!isExpanded)}
+				style={{
+					display: "flex",
+					alignItems: "center",
+					gap: "6px",
+					padding: "6px 10px",
+					cursor: "pointer",
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				<span className="codicon codicon-book" style={{ fontSize: "14px" }} />
+				<span style={{ flex: 1 }}>
+					Used {passages.length} {passages.length === 1 ? "passage" : "passages"} of the {knowledge.expertName}{" "}
+					documents
+				</span>
+				<span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`} />
+			</div>
+			{isExpanded && (
+				<ul
+					style={{
+						listStyle: "none",
+						margin: 0,
+						padding: "0 10px 8px",
+						display: "flex",
+						flexDirection: "column",
+						gap: "8px",
+					}}>
+					{passages.map(({ source, startLine, endLine, score, content }, index) => (
+						<li key={index}>
+							<div style={{ fontWeight: "bold" }} title={`Relevance ${score.toFixed(2)}`}>
+								{source}, lines {startLine}-{endLine}
+							</div>
+							<pre
+								style={{
+									margin: "4px 0 0",
+									padding: "6px",
+									maxHeight: "120px",
+									overflow: "auto",
+									whiteSpace: "pre-wrap",
+									wordBreak: "break-word",
+									backgroundColor: "var(--vscode-textCodeBlock-background)",
+									fontFamily: "var(--vscode-editor-font-family)",
+								}}>
+								{content}
+							</pre>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	)
+}
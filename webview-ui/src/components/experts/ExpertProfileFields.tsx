@@ -0,0 +1,200 @@
+import React from "react"
+import { VSCodeCheckbox, VSCodeDropdown, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { ApiProvider } from "../../../../src/shared/api"
+import { AutoApprovalSettings } from "../../../../src/shared/AutoApprovalSettings"
+import { ExpertProfile } from "../../types/experts"
+import { haiSystemPromptVersions } from "../settings/SettingsViewExtra"
+
+interface ExpertProfileFieldsProps {
+	profile: ExpertProfile
+	onChange: (profile: ExpertProfile) => void
+	disabled?: boolean
+}
+
+const apiProviders: { value: ApiProvider; label: string }[] = [
+	{ value: "openrouter", label: "OpenRouter" },
+	{ value: "anthropic", label: "Anthropic" },
+	{ value: "bedrock", label: "AWS Bedrock" },
+	{ value: "openai", label: "OpenAI Compatible" },
+	{ value: "vertex", label: "GCP Vertex AI" },
+	{ value: "gemini", label: "Google Gemini" },
+	{ value: "deepseek", label: "DeepSeek" },
+	{ value: "mistral", label: "Mistral" },
+	{ value: "openai-native", label: "OpenAI" },
+	{ value: "vscode-lm", label: "VS Code LM API" },
+	{ value: "requesty", label: "Requesty" },
+	{ value: "together", label: "Together" },
+	{ value: "qwen", label: "Alibaba Qwen" },
+	{ value: "lmstudio", label: "LM Studio" },
+	{ value: "ollama", label: "Ollama" },
+	{ value: "litellm", label: "LiteLLM" },
+	{ value: "asksage", label: "AskSage" },
+	{ value: "xai", label: "X AI" },
+	{ value: "sambanova", label: "SambaNova" },
+]
+
+const autoApprovalActions: { key: keyof AutoApprovalSettings["actions"]; label: string }[] = [
+	{ key: "readFiles", label: "Read files and directories" },
+	{ key: "editFiles", label: "Edit files" },
+	{ key: "executeCommands", label: "Execute safe commands" },
+	{ key: "useBrowser", label: "Use the browser" },
+	{ key: "useMcp", label: "Use MCP servers" },
+]
+
+const toToolList = (value: string) => {
+	const tools = value
+		.split(",")
+		.map((tool) => tool.trim())
+		.filter(Boolean)
+	return tools.length > 0 ? tools : undefined
+}
+
+// tool restrictions, model, prompt version and auto-approval restrictions applied while an expert is selected
+export const ExpertProfileFields: React.FC<ExpertProfileFieldsProps> = ({ profile, onChange, disabled }) => {
+	const autoApprovalSettings = profile.autoApprovalSettings
+
+	const updateAutoApproval = (update: Partial<AutoApprovalSettings>) => {
+		onChange({ ...profile, autoApprovalSettings: { ...autoApprovalSettings, ...update } })
+	}
+
+	return (
+		<div style={{ display: "flex", flexDirection: "column", gap: "10px" }}>
+			<div>
+				<label htmlFor="expert-allowed-tools">Allowed Tools</label>
+				<VSCodeTextField
+					id="expert-allowed-tools"
+					value={profile.allowedTools?.join(", ") ?? ""}
+					onChange={(e) => onChange({ ...profile, allowedTools: toToolList((e.target as HTMLInputElement).value) })}
+					placeholder="All tools"
+					disabled={disabled}
+					style={{ width: "100%" }}
+				/>
+			</div>
+			<div>
+				<label htmlFor="expert-forbidden-tools">Forbidden Tools</label>
+				<VSCodeTextField
+					id="expert-forbidden-tools"
+					value={profile.forbiddenTools?.join(", ") ?? ""}
+					onChange={(e) => onChange({ ...profile, forbiddenTools: toToolList((e.target as HTMLInputElement).value) })}
+					placeholder="e.g. write_to_file, replace_in_file"
+					disabled={disabled}
+					style={{ width: "100%" }}
+				/>
+				<p className="description-text">
+					Comma separated tool names. Forbidden tools take precedence, the expert can always ask questions and complete
+					the task.
+				</p>
+			</div>
+			<div>
+				<label htmlFor="expert-api-provider">API Provider</label>
+				<VSCodeDropdown
+					id="expert-api-provider"
+					value={profile.apiProvider ?? ""}
+					onChange={(e) =>
+						onChange({
+							...profile,
+							apiProvider: ((e.target as HTMLSelectElement).value as ApiProvider) || undefined,
+						})
+					}
+					disabled={disabled}
+					style={{ width: "100%" }}>
+					<VSCodeOption value="">Use my settings</VSCodeOption>
+					{apiProviders.map((provider) => (
+						<VSCodeOption key={provider.value} value={provider.value}>
+							{provider.label}
+						</VSCodeOption>
+					))}
+				</VSCodeDropdown>
+			</div>
+			<div>
+				<label htmlFor="expert-api-model">Model ID</label>
+				<VSCodeTextField
+					id="expert-api-model"
+					value={profile.apiModelId ?? ""}
+					onChange={(e) =>
+						onChange({ ...profile, apiModelId: (e.target as HTMLInputElement).value.trim() || undefined })
+					}
+					placeholder="Use my settings"
+					disabled={disabled}
+					style={{ width: "100%" }}
+				/>
+				<p className="description-text">The API keys of the provider are taken from the settings.</p>
+			</div>
+			<div>
+				<label htmlFor="expert-prompt-version">Prompt Version</label>
+				<VSCodeDropdown
+					id="expert-prompt-version"
+					value={profile.systemPromptVersion ?? ""}
+					onChange={(e) =>
+						onChange({ ...profile, systemPromptVersion: (e.target as HTMLSelectElement).value || undefined })
+					}
+					disabled={disabled}
+					style={{ width: "100%" }}>
+					<VSCodeOption value="">Use my settings</VSCodeOption>
+					{haiSystemPromptVersions.map((version) => (
+						<VSCodeOption key={version.version} value={version.version}>
+							{version.label}
+						</VSCodeOption>
+					))}
+				</VSCodeDropdown>
+			</div>
+			<div>
+				<VSCodeCheckbox
+					checked={!!autoApprovalSettings}
+					onChange={(e: any) =>
+						onChange({
+							...profile,
+							autoApprovalSettings: e.target?.checked ? {} : undefined,
+						})
+					}
+					disabled={disabled}>
+					Restrict auto-approval
+				</VSCodeCheckbox>
+				{autoApprovalSettings && (
+					<div style={{ display: "flex", flexDirection: "column", gap: "4px", marginLeft: "24px", marginTop: "4px" }}>
+						<VSCodeCheckbox
+							checked={autoApprovalSettings.enabled !== false}
+							onChange={(e: any) => updateAutoApproval({ enabled: e.target?.checked ? undefined : false })}
+							disabled={disabled}>
+							Allow auto-approval
+						</VSCodeCheckbox>
+						{autoApprovalActions.map((action) => (
+							<VSCodeCheckbox
+								key={action.key}
+								checked={autoApprovalSettings.actions?.[action.key] !== false}
+								onChange={(e: any) =>
+									onChange({
+										...profile,
+										autoApprovalSettings: {
+											...autoApprovalSettings,
+											actions: {
+												...autoApprovalSettings.actions,
+												[action.key]: e.target?.checked ? undefined : false,
+											},
+										},
+									})
+								}
+								disabled={disabled || autoApprovalSettings.enabled === false}>
+								{action.label}
+							</VSCodeCheckbox>
+						))}
+						<VSCodeTextField
+							value={autoApprovalSettings.maxRequests?.toString() ?? ""}
+							onChange={(e) => {
+								const maxRequests = parseInt((e.target as HTMLInputElement).value)
+								updateAutoApproval({ maxRequests: maxRequests > 0 ? maxRequests : undefined })
+							}}
+							placeholder="Use my settings"
+							disabled={disabled || autoApprovalSettings.enabled === false}
+							style={{ width: "100%" }}>
+							Max Requests
+						</VSCodeTextField>
+						<p className="description-text">
+							The expert can only turn off what your auto-approval settings allow, it never approves more.
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,100 @@
+import React, { useCallback, useMemo, useState } from "react"
+import { useEvent } from "react-use"
+import { ClineMessage, ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { recommendExperts } from "../../../../src/shared/expertRecommendations"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { DEFAULT_EXPERTS } from "../../data/defaultExperts"
+import { ExpertData } from "../../types/experts"
+import { vscode } from "../../utils/vscode"
+
+interface ExpertSuggestionProps {
+	task?: ClineMessage
+}
+
+// experts matching a new task and the technologies of the workspace, shown until one is used or the chip is dismissed
+export const ExpertSuggestion: React.FC<ExpertSuggestionProps> = ({ task }) => {
+	const { expertName } = useExtensionState()
+	const [customExperts, setCustomExperts] = useState<ExpertData[]>([])
+	const [context, setContext] = useState<{ task: string; technologies: string[] } | undefined>(undefined)
+
+	const handleMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+		switch (message.type) {
+			case "expertsUpdated":
+				setCustomExperts(message.experts ?? [])
+				break
+			case "workspaceTechnologies":
+				setContext({ task: message.text ?? "", technologies: message.technologies ?? [] })
+				break
+		}
+	}, [])
+
+	useEvent("message", handleMessage)
+
+	const experts = useMemo(() => [...DEFAULT_EXPERTS, ...customExperts], [customExperts])
+	const recommendations = useMemo(() => {
+		// only for the task the technologies were sent for, not for the tasks resumed from the history
+		if (!context || !task?.text || task.text !== context.task) {
+			return []
+		}
+		return recommendExperts(experts, context.task, context.technologies).filter(
+			(recommendation) => recommendation.name !== expertName,
+		)
+	}, [context, task?.text, experts, expertName])
+
+	if (recommendations.length === 0) {
+		return null
+	}
+
+	const handleUseExpert = (name: string) => {
+		const expert = experts.find((expert) => expert.name === name)
+		if (expert) {
+			vscode.postMessage({
+				type: "expertPrompt",
+				text: expert.name,
+				prompt: expert.prompt,
+				category: "selectExpert",
+			})
+		}
+		setContext(undefined)
+	}
+
+	return (
+		<div
+			style={{
+				display: "flex",
+				alignItems: "center",
+				flexWrap: "wrap",
+				gap: "6px",
+				padding: "8px 15px 0px 15px",
+				fontSize: "12px",
+				color: "var(--vscode-descriptionForeground)",
+			}}>
+			<span className="codicon codicon-lightbulb" />
+			<span>Suggested {recommendations.length === 1 ? "expert" : "experts"}:</span>
+			{recommendations.map((recommendation) => (
+				<button
+					key={recommendation.name}
+					title={`Matches ${recommendation.matchedTags.join(", ")}. Applies to the next requests.`}
+					onClick={() => handleUseExpert(recommendation.name)}
+					style={{
+						padding: "1px 8px",
+						border: "1px solid var(--vscode-button-border, transparent)",
+						borderRadius: "10px",
+						background: "var(--vscode-badge-background)",
+						color: "var(--vscode-badge-foreground)",
+						fontSize: "12px",
+						cursor: "pointer",
+					}}>
+					{recommendation.name}
+				</button>
+			))}
+			<span
+				className="codicon codicon-close"
+				title="Dismiss"
+				onClick={() => setContext(undefined)}
+				style={{ marginLeft: "auto", cursor: "pointer" }}
+			/>
+		</div>
+	)
+}
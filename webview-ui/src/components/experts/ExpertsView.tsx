@@ -1,10 +1,11 @@
 import React, { useState, useEffect, memo } from "react"
 import styled from "styled-components"
-import { VSCodeButton, VSCodeTextField, VSCodeTextArea } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeButton, VSCodeDropdown, VSCodeOption, VSCodeTextField, VSCodeTextArea } from "@vscode/webview-ui-toolkit/react"
 import { vscode } from "../../utils/vscode"
 import { DEFAULT_EXPERTS } from "../../data/defaultExperts"
-import { ExpertData } from "../../types/experts"
+import { ExpertData, ExpertProfile, ExpertScope } from "../../types/experts"
 import { useExtensionState } from "../../context/ExtensionStateContext"
+import { ExpertProfileFields } from "./ExpertProfileFields"
 
 interface ExpertsViewProps {
 	onDone: () => void
@@ -15,11 +16,17 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 	const [selectedExpert, setSelectedExpert] = useState<ExpertData | null>(null)
 	const [newExpertName, setNewExpertName] = useState("")
 	const [newExpertPrompt, setNewExpertPrompt] = useState("")
+	const [newExpertProfile, setNewExpertProfile] = useState<ExpertProfile>({})
+	const [newExpertTags, setNewExpertTags] = useState("")
+	const [profileDraft, setProfileDraft] = useState<ExpertProfile>({})
 	const [isFileUploaded, setIsFileUploaded] = useState(false)
 	const [isFormReadOnly, setIsFormReadOnly] = useState(false)
 	const [nameError, setNameError] = useState<string | null>(null)
 	const [expertInDeleteConfirmation, setExpertInDeleteConfirmation] = useState<string | null>(null)
 	const { vscodeWorkspacePath } = useExtensionState()
+	// Without a workspace, new experts can only be saved globally
+	const [newExpertScope, setNewExpertScope] = useState<ExpertScope>("workspace")
+	const saveScope: ExpertScope = vscodeWorkspacePath ? newExpertScope : "global"
 
 	// Create a reference to the file input element
 	const fileInputRef = React.useRef<HTMLInputElement>(null)
@@ -72,6 +79,9 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 	const resetForm = () => {
 		setNewExpertName("")
 		setNewExpertPrompt("")
+		setNewExpertScope("workspace")
+		setNewExpertProfile({})
+		setNewExpertTags("")
 		setIsFileUploaded(false)
 		setSelectedExpert(null)
 		setIsFormReadOnly(false)
@@ -120,9 +130,11 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 			return
 		}
 
-		// Check if an expert with this name already exists
-		const expertExists = [...experts, ...experts.filter((e) => !e.isDefault)].some(
-			(expert) => expert.name.toLowerCase() === newExpertName.toLowerCase(),
+		// Check if an expert with this name already exists, an expert of another scope can be overridden
+		const expertExists = experts.some(
+			(expert) =>
+				(expert.isDefault || (expert.scope ?? "workspace") === saveScope) &&
+				expert.name.toLowerCase() === newExpertName.toLowerCase(),
 		)
 
 		if (expertExists) {
@@ -143,6 +155,9 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 			prompt: newExpertPrompt.trim(),
 			isDefault: false,
 			createdAt: new Date().toISOString(),
+			scope: saveScope,
+			profile: hasProfile(newExpertProfile) ? newExpertProfile : undefined,
+			tags: toTags(newExpertTags),
 		}
 
 		// Save to the file system
@@ -151,7 +166,7 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 			text: JSON.stringify(newExpert),
 		})
 
-		setExperts([...experts, newExpert])
+		setExperts([...experts.filter((expert) => expert.name.toLowerCase() !== newExpert.name.toLowerCase()), newExpert])
 		resetForm()
 	}
 
@@ -211,6 +226,72 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 		setExpertInDeleteConfirmation(null)
 	}
 
+	// The selected custom expert, with the documents of the last update from the backend
+	const selectedCustomExpert = experts.find((expert) => !expert.isDefault && expert.name === selectedExpert?.name)
+
+	// Edit the profile of the selected custom expert from its saved profile
+	useEffect(() => {
+		setProfileDraft(selectedCustomExpert?.profile ?? {})
+	}, [selectedCustomExpert?.name, selectedCustomExpert?.profile])
+
+	// Handle saving the profile of the selected expert
+	const handleSaveProfile = (expertName: string) => {
+		vscode.postMessage({
+			type: "saveExpertProfile",
+			text: expertName,
+			expertProfile: profileDraft,
+		})
+	}
+
+	// Handle exporting an expert to an archive
+	const handleExportExpert = (expertName: string, e: React.MouseEvent) => {
+		e.stopPropagation()
+		vscode.postMessage({
+			type: "exportExpert",
+			text: expertName,
+		})
+	}
+
+	// Handle importing an expert from an archive
+	const handleImportExpert = () => {
+		vscode.postMessage({ type: "importExpert" })
+	}
+
+	// Handle adding reference documents to the selected expert
+	const handleAddDocuments = (expertName: string) => {
+		vscode.postMessage({
+			type: "addExpertDocuments",
+			text: expertName,
+		})
+	}
+
+	// Handle deleting a reference document of the selected expert
+	const handleDeleteDocument = (expertName: string, document: string) => {
+		vscode.postMessage({
+			type: "deleteExpertDocument",
+			text: expertName,
+			document,
+		})
+	}
+
+	// Handle showing the changes of the prompt since a version
+	const handleCompareVersion = (expertName: string, version: number) => {
+		vscode.postMessage({
+			type: "compareExpertVersion",
+			text: expertName,
+			expertVersion: version,
+		})
+	}
+
+	// Handle restoring a version of the prompt, confirmed by the extension
+	const handleRollbackVersion = (expertName: string, version: number) => {
+		vscode.postMessage({
+			type: "rollbackExpertVersion",
+			text: expertName,
+			expertVersion: version,
+		})
+	}
+
 	// Handle opening expert prompt file
 	const handleOpenExpertPrompt = (expertName: string) => {
 		const expertToOpen = experts.find((expert) => expert.name === expertName)
@@ -265,8 +346,15 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 				</Section>
 
 				<Section>
-					<SectionHeader>
+					<SectionHeader style={{ display: "flex", alignItems: "center" }}>
 						Custom Experts <CountBadge>({experts.filter((expert) => !expert.isDefault).length})</CountBadge>
+						<VSCodeButton
+							appearance="icon"
+							title="Import Expert"
+							onClick={handleImportExpert}
+							style={{ marginLeft: "auto", marginRight: "8px" }}>
+							<span className="codicon codicon-cloud-download"></span>
+						</VSCodeButton>
 					</SectionHeader>
 					<CustomExpertsContainer>
 						<ExpertsList>
@@ -286,8 +374,11 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 													cursor: "default",
 												}}>
 												{expert.name}
+												{expert.scope && expert.scope !== "workspace" && (
+													<ScopeTag>{expert.scope === "team" ? "Team" : "Global"}</ScopeTag>
+												)}
 											</VSCodeButton>
-											{expert.name === expertInDeleteConfirmation ? (
+											{expert.scope === "team" ? null : expert.name === expertInDeleteConfirmation ? (
 												// Show confirmation buttons
 												<>
 													<VSCodeButton
@@ -295,7 +386,7 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 														onClick={(e) => cancelDelete(e)}
 														style={{
 															position: "absolute",
-															right: "38px",
+															right: "68px",
 															top: "50%",
 															transform: "translateY(-50%)",
 															minWidth: "20px",
@@ -309,7 +400,7 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 														onClick={(e) => confirmDelete(expert.name, e)}
 														style={{
 															position: "absolute",
-															right: "68px",
+															right: "98px",
 															top: "50%",
 															transform: "translateY(-50%)",
 															minWidth: "20px",
@@ -326,7 +417,7 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 													onClick={(e) => handleDeleteConfirmation(expert.name, e)}
 													style={{
 														position: "absolute",
-														right: "38px",
+														right: "68px",
 														top: "50%",
 														transform: "translateY(-50%)",
 														minWidth: "20px",
@@ -336,6 +427,21 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 													<span className="codicon codicon-trash"></span>
 												</VSCodeButton>
 											)}
+											<VSCodeButton
+												appearance="icon"
+												title="Export Expert"
+												onClick={(e: React.MouseEvent) => handleExportExpert(expert.name, e)}
+												style={{
+													position: "absolute",
+													right: "38px",
+													top: "50%",
+													transform: "translateY(-50%)",
+													minWidth: "20px",
+													height: "20px",
+													padding: 0,
+												}}>
+												<span className="codicon codicon-export"></span>
+											</VSCodeButton>
 											<VSCodeButton
 												appearance="icon"
 												onClick={(e: React.MouseEvent) => {
@@ -364,90 +470,264 @@ const ExpertsView: React.FC<ExpertsViewProps> = ({ onDone }) => {
 					</CustomExpertsContainer>
 				</Section>
 
-				{/* Add/Edit Form Section */}
+				{selectedCustomExpert && (
+					<Section>
+						<SectionHeader>
+							Reference Documents <CountBadge>({selectedCustomExpert.documents?.length ?? 0})</CountBadge>
+						</SectionHeader>
+						<FormContainer>
+							<FormGroup>
+								{selectedCustomExpert.documents?.length ? (
+									<ExpertsList>
+										{selectedCustomExpert.documents.map((document) => (
+											<DocumentItem key={document}>
+												<span className="codicon codicon-file" />
+												<span className="document-name" title={document}>
+													{document}
+												</span>
+												{selectedCustomExpert.scope !== "team" && (
+													<VSCodeButton
+														appearance="icon"
+														title="Delete Document"
+														onClick={() => handleDeleteDocument(selectedCustomExpert.name, document)}>
+														<span className="codicon codicon-trash"></span>
+													</VSCodeButton>
+												)}
+											</DocumentItem>
+										))}
+									</ExpertsList>
+								) : (
+									<p className="description-text" style={{ marginTop: 0 }}>
+										No reference documents yet.
+									</p>
+								)}
+								<p className="description-text">
+									Style guides, API specs or ADRs of {selectedCustomExpert.name}. The passages relevant to each
+									request are added to the prompt while this expert is selected, using the configured embedding
+									provider.
+								</p>
+							</FormGroup>
+							{selectedCustomExpert.scope !== "team" && (
+								<VSCodeButton
+									appearance="secondary"
+									onClick={() => handleAddDocuments(selectedCustomExpert.name)}>
+									<span className="codicon codicon-add" style={{ marginRight: "5px" }}></span>
+									Add Documents
+								</VSCodeButton>
+							)}
+						</FormContainer>
+					</Section>
+				)}
 
-				{vscodeWorkspacePath ? (
+				{selectedCustomExpert && (
 					<Section>
-						<SectionHeader>Add New Expert</SectionHeader>
+						<SectionHeader>
+							Versions <CountBadge>({selectedCustomExpert.versions?.length ?? 0})</CountBadge>
+						</SectionHeader>
 						<FormContainer>
 							<FormGroup>
-								<label htmlFor="expert-name">Name</label>
-								<VSCodeTextField
-									id="expert-name"
-									value={newExpertName}
-									onChange={(e) => setNewExpertName((e.target as HTMLInputElement).value)}
-									placeholder="Expert Name"
-									style={{ width: "100%" }}
-									disabled={isFormReadOnly}
-								/>
-								{nameError && (
-									<p style={{ color: "var(--vscode-errorForeground)", fontSize: "12px", marginTop: "4px" }}>
-										{nameError}
+								{selectedCustomExpert.versions?.length ? (
+									<ExpertsList>
+										{[...selectedCustomExpert.versions].reverse().map((version, index) => (
+											<DocumentItem key={version.version}>
+												<span className="codicon codicon-history" />
+												<span className="document-name">
+													v{version.version} · {new Date(version.createdAt).toLocaleString()}
+													{index === 0 && " (current)"}
+												</span>
+												{index > 0 && (
+													<VSCodeButton
+														appearance="icon"
+														title="Compare with Current"
+														onClick={() =>
+															handleCompareVersion(selectedCustomExpert.name, version.version)
+														}>
+														<span className="codicon codicon-diff"></span>
+													</VSCodeButton>
+												)}
+												{index > 0 && selectedCustomExpert.scope !== "team" && (
+													<VSCodeButton
+														appearance="icon"
+														title="Restore Version"
+														onClick={() =>
+															handleRollbackVersion(selectedCustomExpert.name, version.version)
+														}>
+														<span className="codicon codicon-discard"></span>
+													</VSCodeButton>
+												)}
+											</DocumentItem>
+										))}
+									</ExpertsList>
+								) : (
+									<p className="description-text" style={{ marginTop: 0 }}>
+										No versions yet.
 									</p>
 								)}
+								<p className="description-text">
+									A version is saved each time the guidelines of {selectedCustomExpert.name} are saved. The task
+									history shows the version used by each task.
+								</p>
 							</FormGroup>
+						</FormContainer>
+					</Section>
+				)}
 
+				{selectedCustomExpert && (
+					<Section>
+						<SectionHeader>Profile</SectionHeader>
+						<FormContainer>
 							<FormGroup>
-								<label htmlFor="expert-prompt">Guidelines</label>
-								<VSCodeTextArea
-									id="expert-prompt"
-									value={newExpertPrompt}
-									onChange={(e) => setNewExpertPrompt((e.target as HTMLTextAreaElement).value)}
-									placeholder="Enter Expert Guidelines"
-									resize="vertical"
-									rows={6}
-									disabled={isFormReadOnly}
-									style={{ width: "100%" }}
+								<ExpertProfileFields
+									profile={profileDraft}
+									onChange={setProfileDraft}
+									disabled={selectedCustomExpert.scope === "team"}
 								/>
 								<p className="description-text">
-									These guidelines will override the default HAI guidelines when this expert is selected.
+									Applied to the tasks while {selectedCustomExpert.name} is selected.
 								</p>
 							</FormGroup>
-
-							{!isFormReadOnly && (
-								<FormGroup>
-									<VSCodeButton appearance="secondary" onClick={handleFileUpload}>
-										<span className="codicon codicon-cloud-upload" style={{ marginRight: "5px" }}></span>
-										Upload Guidelines File (.md only)
-									</VSCodeButton>
-								</FormGroup>
-							)}
-
-							{!isFormReadOnly && (
+							{selectedCustomExpert.scope !== "team" && (
 								<ActionButtons>
-									<VSCodeButton appearance="secondary" onClick={resetForm}>
-										Cancel
+									<VSCodeButton
+										appearance="secondary"
+										onClick={() => setProfileDraft(selectedCustomExpert.profile ?? {})}>
+										Reset
 									</VSCodeButton>
-									<VSCodeButton appearance="primary" onClick={handleSaveExpert}>
-										Save
+									<VSCodeButton
+										appearance="primary"
+										onClick={() => handleSaveProfile(selectedCustomExpert.name)}>
+										Save Profile
 									</VSCodeButton>
 								</ActionButtons>
 							)}
 						</FormContainer>
 					</Section>
-				) : (
-					<Section>
-						<SectionHeader>Add New Expert</SectionHeader>
-						<EmptyState>
-							<div
-								style={{
-									display: "flex",
-									alignItems: "center",
-									gap: "8px",
-									color: "var(--vscode-editorWarning-foreground)",
-									fontSize: "11px",
-								}}>
-								<i className="codicon codicon-warning" />
-								<span>Workspace is not available. Please open a workspace to add new experts.</span>
-							</div>
-						</EmptyState>
-					</Section>
 				)}
+
+				{/* Add/Edit Form Section */}
+
+				<Section>
+					<SectionHeader>Add New Expert</SectionHeader>
+					<FormContainer>
+						<FormGroup>
+							<label htmlFor="expert-name">Name</label>
+							<VSCodeTextField
+								id="expert-name"
+								value={newExpertName}
+								onChange={(e) => setNewExpertName((e.target as HTMLInputElement).value)}
+								placeholder="Expert Name"
+								style={{ width: "100%" }}
+								disabled={isFormReadOnly}
+							/>
+							{nameError && (
+								<p style={{ color: "var(--vscode-errorForeground)", fontSize: "12px", marginTop: "4px" }}>
+									{nameError}
+								</p>
+							)}
+						</FormGroup>
+
+						<FormGroup>
+							<label htmlFor="expert-prompt">Guidelines</label>
+							<VSCodeTextArea
+								id="expert-prompt"
+								value={newExpertPrompt}
+								onChange={(e) => setNewExpertPrompt((e.target as HTMLTextAreaElement).value)}
+								placeholder="Enter Expert Guidelines"
+								resize="vertical"
+								rows={6}
+								disabled={isFormReadOnly}
+								style={{ width: "100%" }}
+							/>
+							<p className="description-text">
+								These guidelines will override the default HAI guidelines when this expert is selected.
+							</p>
+						</FormGroup>
+
+						<FormGroup>
+							<label htmlFor="expert-tags">Tags</label>
+							<VSCodeTextField
+								id="expert-tags"
+								value={newExpertTags}
+								onChange={(e) => setNewExpertTags((e.target as HTMLInputElement).value)}
+								placeholder="e.g. react, typescript, frontend"
+								style={{ width: "100%" }}
+								disabled={isFormReadOnly}
+							/>
+							<p className="description-text">
+								Comma separated keywords. The expert is suggested for new tasks mentioning them or for workspaces
+								using them.
+							</p>
+						</FormGroup>
+
+						<FormGroup>
+							<label htmlFor="expert-scope">Save To</label>
+							<VSCodeDropdown
+								id="expert-scope"
+								value={saveScope}
+								onChange={(e) => setNewExpertScope((e.target as HTMLSelectElement).value as ExpertScope)}
+								disabled={isFormReadOnly || !vscodeWorkspacePath}
+								style={{ width: "100%" }}>
+								<VSCodeOption value="workspace">Workspace</VSCodeOption>
+								<VSCodeOption value="global">Global</VSCodeOption>
+							</VSCodeDropdown>
+							<p className="description-text">
+								{vscodeWorkspacePath
+									? "Workspace experts are only available in this workspace and take precedence over team and global experts with the same name."
+									: "Workspace is not available, the expert will be available in every workspace."}
+							</p>
+						</FormGroup>
+
+						<FormGroup>
+							<label>Profile</label>
+							<ExpertProfileFields
+								profile={newExpertProfile}
+								onChange={setNewExpertProfile}
+								disabled={isFormReadOnly}
+							/>
+						</FormGroup>
+
+						{!isFormReadOnly && (
+							<FormGroup>
+								<VSCodeButton appearance="secondary" onClick={handleFileUpload}>
+									<span className="codicon codicon-cloud-upload" style={{ marginRight: "5px" }}></span>
+									Upload Guidelines File (.md only)
+								</VSCodeButton>
+							</FormGroup>
+						)}
+
+						{!isFormReadOnly && (
+							<ActionButtons>
+								<VSCodeButton appearance="secondary" onClick={resetForm}>
+									Cancel
+								</VSCodeButton>
+								<VSCodeButton appearance="primary" onClick={handleSaveExpert}>
+									Save
+								</VSCodeButton>
+							</ActionButtons>
+						)}
+					</FormContainer>
+				</Section>
 			</Content>
 		</Container>
 	)
 }
 
+// Whether a profile sets anything, empty profiles are not saved
+const hasProfile = (profile: ExpertProfile) => Object.values(profile).some((value) => value !== undefined)
+
+// Lowercase tags of a comma separated list, undefined when empty
+const toTags = (value: string) => {
+	const tags = [
+		...new Set(
+			value
+				.split(",")
+				.map((tag) => tag.trim().toLowerCase())
+				.filter(Boolean),
+		),
+	]
+	return tags.length > 0 ? tags : undefined
+}
+
 // Styled components
 const Container = styled.div`
 	position: fixed;
@@ -606,6 +886,21 @@ const FormGroup = styled.div`
 	}
 `
 
+const DocumentItem = styled.div`
+	display: flex;
+	align-items: center;
+	gap: 6px;
+	font-size: 12px;
+
+	.document-name {
+		flex: 1;
+		min-width: 0;
+		overflow: hidden;
+		white-space: nowrap;
+		text-overflow: ellipsis;
+	}
+`
+
 const ActionButtons = styled.div`
 	display: flex;
 	justify-content: flex-end;
@@ -621,6 +916,15 @@ const EmptyState = styled.div`
 	border-radius: 4px;
 `
 
+const ScopeTag = styled.span`
+	font-size: 10px;
+	margin-left: 6px;
+	padding: 0 4px;
+	border-radius: 3px;
+	background-color: var(--vscode-badge-background);
+	color: var(--vscode-badge-foreground);
+`
+
 const CountBadge = styled.span`
 	font-size: 0.85em;
 	opacity: 0.7;
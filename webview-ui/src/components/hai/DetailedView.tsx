@@ -4,6 +4,9 @@ import { IHaiTask, IHaiStory, IHaiClineTask } from "../../interfaces/hai-task.in
 import { VSCodeButton, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
 import { addHighlighting } from "../../utils/add-highlighting"
 import CopyClipboard from "../common/CopyClipboard"
+import { getHaiTaskId } from "../../../../src/shared/haiTaskStatus"
+import { removeHighlighting } from "../../utils/add-highlighting"
+import { HaiStoryProgressBadge, HaiTaskStatusBadge } from "./HaiTaskStatusBadge"
 
 interface DetailedViewProps {
 	task: IHaiTask | null
@@ -48,7 +51,7 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 		})
 	}, [searchQuery, fuse, story])
 
-	function isTaskField(key: string): key is keyof IHaiTask {
+	function isTaskField(key: string): key is Exclude<keyof IHaiTask, "dependsOn"> {
 		return ["list", "id", "subTaskTicketId", "acceptance"].includes(key)
 	}
 
@@ -103,7 +106,10 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 			{/* Render Story Details */}
 			{!selectedTask && story && (
 				<>
-					<h2>{story.name}</h2>
+					<h2 style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+						{story.name}
+						<HaiStoryProgressBadge storyId={story.id} tasks={story.tasks} />
+					</h2>
 					<p>{story.description}</p>
 
 					{/* Search Bar */}
@@ -155,6 +161,8 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 											textOverflow: "ellipsis",
 											display: "flex",
 											flexDirection: "row",
+											alignItems: "center",
+											gap: "6px",
 										}}>
 										<span
 											style={{
@@ -178,6 +186,7 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 												/>
 											)}{" "}
 										</span>
+										<HaiTaskStatusBadge taskId={getHaiTaskId(story?.id ?? "", removeHighlighting(task.id))} />
 									</div>
 									<span
 										style={{
@@ -206,7 +215,7 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 											onTaskSelect({
 												context: `${story?.name}: ${story?.description}`,
 												...task,
-												id: `${story?.id}-${task.id}`,
+												id: getHaiTaskId(story?.id ?? "", removeHighlighting(task.id)),
 											})
 										}}>
 										<span className="codicon codicon-play" style={{ fontSize: 14, cursor: "pointer" }} />
@@ -239,7 +248,10 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 			{/* Render Task Details */}
 			{selectedTask && (
 				<>
-					<h2>{selectedTask.list}</h2>
+					<h2 style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+						{selectedTask.list}
+						<HaiTaskStatusBadge taskId={getHaiTaskId(story?.id ?? "", selectedTask.id)} />
+					</h2>
 					<p>{selectedTask.acceptance}</p>
 					<div style={{ display: "flex", gap: "10px", marginTop: "20px" }}>
 						<VSCodeButton
@@ -248,7 +260,7 @@ const DetailedView: React.FC<DetailedViewProps> = ({ task, story, onTaskSelect,
 								onTaskSelect({
 									context: `${story?.name}: ${story?.description}`,
 									...selectedTask,
-									id: `${story?.id}-${selectedTask.id}`,
+									id: getHaiTaskId(story?.id ?? "", selectedTask.id),
 								})
 							}}>
 							Execute Task
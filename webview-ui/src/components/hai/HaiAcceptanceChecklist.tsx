@@ -0,0 +1,49 @@
+import React from "react"
+import { HaiAcceptanceCheck, HaiAcceptanceCheckStatus } from "../../../../src/shared/customApi"
+
+const checkStyles: Record<HaiAcceptanceCheckStatus, { label: string; icon: string; color: string }> = {
+	pass: { label: "Pass", icon: "codicon-pass", color: "var(--vscode-charts-green)" },
+	fail: { label: "Fail", icon: "codicon-error", color: "var(--vscode-errorForeground)" },
+	unknown: { label: "Unknown", icon: "codicon-question", color: "var(--vscode-descriptionForeground)" },
+}
+
+interface HaiAcceptanceChecklistProps {
+	checks: HaiAcceptanceCheck[]
+	style?: React.CSSProperties
+}
+
+export const HaiAcceptanceChecklist: React.FC<HaiAcceptanceChecklistProps> = ({ checks, style }) => {
+	const passed = checks.filter((check) => check.status === "pass").length
+	return (
+		<div
+			style={{
+				padding: "8px 10px",
+				fontSize: "12px",
+				border: "1px solid var(--vscode-panel-border)",
+				borderRadius: "3px",
+				...style,
+			}}>
+			<div style={{ fontWeight: "bold", marginBottom: "6px" }}>
+				Acceptance criteria ({passed}/{checks.length} passed)
+			</div>
+			<ul style={{ listStyle: "none", margin: 0, padding: 0, display: "flex", flexDirection: "column", gap: "6px" }}>
+				{checks.map(({ criterion, status, evidence }, index) => {
+					const { label, icon, color } = checkStyles[status]
+					return (
+						<li key={index} style={{ display: "flex", gap: "6px", alignItems: "flex-start" }}>
+							<span
+								className={`codicon ${icon}`}
+								style={{ color, fontSize: "14px", flexShrink: 0 }}
+								title={label}
+							/>
+							<div style={{ minWidth: 0, wordBreak: "break-word" }}>
+								<div>{criterion}</div>
+								{evidence && <div style={{ color: "var(--vscode-descriptionForeground)" }}>{evidence}</div>}
+							</div>
+						</li>
+					)
+				})}
+			</ul>
+		</div>
+	)
+}
@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from "react"
 import { IHaiClineTask, IHaiTask, IHaiStory } from "../../interfaces/hai-task.interface"
+import { HaiTaskChanges } from "../../../../src/shared/customApi"
 import HaiTaskComponent from "./HaiTaskComponent"
+import { HaiStoryProgressBadge } from "./HaiTaskStatusBadge"
+import { HaiStoryRunControls } from "./HaiStoryRunControls"
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
 
 interface HaiStoryAccordionProps {
@@ -13,6 +16,7 @@ interface HaiStoryAccordionProps {
 	id: string
 	storyTicketId?: string
 	isAllExpanded: boolean
+	taskChanges?: HaiTaskChanges
 }
 
 export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
@@ -25,6 +29,7 @@ export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
 	storyTicketId,
 	id,
 	isAllExpanded,
+	taskChanges,
 }) => {
 	const [isExpanded, setIsExpanded] = useState<boolean>(true)
 
@@ -80,6 +85,7 @@ export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
 								style={{
 									display: "flex",
 									flexDirection: "row",
+									alignItems: "center",
 									gap: "2px",
 									color: "var(--vscode-descriptionForeground)",
 								}}>
@@ -102,6 +108,7 @@ export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
 										dangerouslySetInnerHTML={{ __html: ` • ${storyTicketId}` }}
 									/>
 								)}{" "}
+								<HaiStoryProgressBadge storyId={id} tasks={tasks} style={{ marginLeft: "6px" }} />
 							</div>
 							<span
 								style={{
@@ -133,6 +140,7 @@ export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
 							/>
 						</div>
 					</div>
+					<HaiStoryRunControls storyId={id} />
 					<VSCodeButton
 						appearance="icon"
 						title="View Story"
@@ -169,6 +177,7 @@ export const HaiStoryAccordion: React.FC<HaiStoryAccordionProps> = ({
 											name={name}
 											description={description}
 											task={task}
+											taskChanges={taskChanges}
 											onTaskSelect={onTaskSelect}
 											onTaskClick={onTaskClick}
 										/>
@@ -0,0 +1,60 @@
+import React from "react"
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { WebviewMessage } from "../../../../src/shared/WebviewMessage"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { removeHighlighting } from "../../utils/add-highlighting"
+import { vscode } from "../../utils/vscode"
+
+interface HaiStoryRunControlsProps {
+	storyId: string
+}
+
+export const HaiStoryRunControls: React.FC<HaiStoryRunControlsProps> = ({ storyId }) => {
+	const { haiStoryRun, haiConfig } = useExtensionState()
+	const id = removeHighlighting(storyId)
+	const isActiveRun =
+		haiStoryRun?.status !== "completed" && haiStoryRun?.folder === haiConfig?.folder && haiStoryRun?.storyId === id
+
+	// the header toggles the accordion, the buttons must not
+	const onClick = (event: React.MouseEvent, message: WebviewMessage) => {
+		event.stopPropagation()
+		vscode.postMessage(message)
+	}
+
+	if (haiStoryRun && isActiveRun) {
+		const isPaused = haiStoryRun.status === "paused"
+		const progress = `${Math.min(haiStoryRun.currentIndex + 1, haiStoryRun.tasks.length)}/${haiStoryRun.tasks.length}`
+		return (
+			<div style={{ display: "flex", alignItems: "center", gap: "4px", flexShrink: 0 }}>
+				<span
+					style={{ display: "inline-flex", alignItems: "center", gap: "4px", fontSize: "11px" }}
+					title={isPaused ? `Paused at task ${progress}: ${haiStoryRun.pauseReason}` : `Running task ${progress}`}>
+					<span className={`codicon ${isPaused ? "codicon-debug-pause" : "codicon-loading codicon-modifier-spin"}`} />
+					{progress}
+				</span>
+				{isPaused && (
+					<VSCodeButton
+						appearance="icon"
+						title="Resume Story"
+						onClick={(e) => onClick(e, { type: "resumeHaiStoryRun" })}>
+						<span className="codicon codicon-debug-continue" style={{ opacity: 0.8 }} />
+					</VSCodeButton>
+				)}
+				<VSCodeButton appearance="icon" title="Stop Story" onClick={(e) => onClick(e, { type: "stopHaiStoryRun" })}>
+					<span className="codicon codicon-debug-stop" style={{ opacity: 0.8 }} />
+				</VSCodeButton>
+			</div>
+		)
+	}
+
+	const isAnotherStoryRunning = haiStoryRun?.status === "running"
+	return (
+		<VSCodeButton
+			appearance="icon"
+			title={isAnotherStoryRunning ? "Another story is running" : "Run Story"}
+			disabled={!haiConfig?.folder || isAnotherStoryRunning}
+			onClick={(e) => onClick(e, { type: "runHaiStory", text: haiConfig?.folder, storyId: id })}>
+			<span className="codicon codicon-run-all" style={{ opacity: 0.8 }} />
+		</VSCodeButton>
+	)
+}
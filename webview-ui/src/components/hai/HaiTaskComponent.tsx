@@ -2,17 +2,35 @@ import React from "react"
 import { IHaiClineTask, IHaiTask } from "../../interfaces/hai-task.interface"
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
 import CopyClipboard from "../common/CopyClipboard"
+import { HaiTaskChanges } from "../../../../src/shared/customApi"
+import { getHaiTaskChange } from "../../../../src/shared/haiTaskChanges"
+import { getHaiTaskId } from "../../../../src/shared/haiTaskStatus"
+import { removeHighlighting } from "../../utils/add-highlighting"
+import { HaiTaskChangeBadge, HaiTaskDependencyBadge, HaiTaskStatusBadge, useHaiTaskBlockers } from "./HaiTaskStatusBadge"
 
 interface HaiTaskComponentProps {
 	id: string
 	name: string
 	description: string
 	task: IHaiTask
+	taskChanges?: HaiTaskChanges
 	onTaskClick: (task: IHaiTask) => void
 	onTaskSelect: (task: IHaiClineTask) => void
 }
 
-const HaiTaskComponent: React.FC<HaiTaskComponentProps> = ({ id, name, description, task, onTaskSelect, onTaskClick }) => {
+const HaiTaskComponent: React.FC<HaiTaskComponentProps> = ({
+	id,
+	name,
+	description,
+	task,
+	taskChanges,
+	onTaskSelect,
+	onTaskClick,
+}) => {
+	const storyId = removeHighlighting(id)
+	const haiTaskId = getHaiTaskId(storyId, removeHighlighting(task.id))
+	const blockers = useHaiTaskBlockers(storyId, task)
+
 	return (
 		<div
 			style={{
@@ -43,6 +61,8 @@ const HaiTaskComponent: React.FC<HaiTaskComponentProps> = ({ id, name, descripti
 						textOverflow: "ellipsis",
 						display: "flex",
 						flexDirection: "row",
+						alignItems: "center",
+						gap: "6px",
 					}}>
 					<span
 						style={{
@@ -65,6 +85,9 @@ const HaiTaskComponent: React.FC<HaiTaskComponentProps> = ({ id, name, descripti
 							/>
 						)}{" "}
 					</span>
+					<HaiTaskStatusBadge taskId={haiTaskId} />
+					<HaiTaskDependencyBadge storyId={storyId} task={task} />
+					<HaiTaskChangeBadge change={getHaiTaskChange(taskChanges, haiTaskId)} />
 				</div>
 				<span
 					style={{
@@ -87,12 +110,12 @@ const HaiTaskComponent: React.FC<HaiTaskComponentProps> = ({ id, name, descripti
 				}}>
 				<VSCodeButton
 					appearance="icon"
-					title="Execute Task"
+					title={blockers.length > 0 ? `Execute Task (waiting for ${blockers.join(", ")})` : "Execute Task"}
 					onClick={() => {
 						onTaskSelect({
 							context: `${name}: ${description}`,
 							...task,
-							id: `${id}-${task.id}`,
+							id: haiTaskId,
 						})
 					}}>
 					<span className="codicon codicon-play" style={{ fontSize: 14, cursor: "pointer" }} />
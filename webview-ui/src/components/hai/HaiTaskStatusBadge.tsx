@@ -0,0 +1,170 @@
+import React from "react"
+import { HaiTaskStatus } from "../../../../src/shared/customApi"
+import { getIncompleteHaiTaskDependencies } from "../../../../src/shared/haiTaskDependencies"
+import { getHaiStoryProgress, getHaiTaskId, getHaiTaskStatus, getHaiTaskStatusKey } from "../../../../src/shared/haiTaskStatus"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { IHaiTask } from "../../interfaces/hai-task.interface"
+import { removeHighlighting } from "../../utils/add-highlighting"
+
+const badgeStyles: Record<Exclude<HaiTaskStatus, "not-started">, { label: string; icon: string; color: string }> = {
+	"in-progress": { label: "In Progress", icon: "codicon-sync", color: "var(--vscode-charts-blue)" },
+	completed: { label: "Completed", icon: "codicon-pass", color: "var(--vscode-charts-green)" },
+	failed: { label: "Failed", icon: "codicon-error", color: "var(--vscode-errorForeground)" },
+}
+
+const badgeStyle: React.CSSProperties = {
+	display: "inline-flex",
+	alignItems: "center",
+	gap: "4px",
+	flexShrink: 0,
+	padding: "0 6px",
+	borderRadius: "10px",
+	fontSize: "11px",
+	fontWeight: "normal",
+	lineHeight: "18px",
+	whiteSpace: "nowrap",
+	backgroundColor: "var(--vscode-badge-background)",
+}
+
+interface HaiTaskStatusBadgeProps {
+	// story qualified task id, see getHaiTaskId
+	taskId: string
+	style?: React.CSSProperties
+}
+
+export const HaiTaskStatusBadge: React.FC<HaiTaskStatusBadgeProps> = ({ taskId, style }) => {
+	const { haiTaskStatuses, haiConfig } = useExtensionState()
+	const record = haiConfig?.folder ? haiTaskStatuses?.[getHaiTaskStatusKey({ folder: haiConfig.folder, taskId })] : undefined
+	if (!record || record.status === "not-started") {
+		return null
+	}
+
+	const { label, icon, color } = badgeStyles[record.status]
+	const runs = record.historyTaskIds.length
+	const passed = record.acceptanceChecks?.filter((check) => check.status === "pass").length
+	const acceptance = record.acceptanceChecks?.length
+		? ` • ${passed}/${record.acceptanceChecks.length} acceptance criteria passed`
+		: ""
+	return (
+		<span
+			style={{ ...badgeStyle, color, ...style }}
+			title={`${label} • ${runs} ${runs === 1 ? "run" : "runs"}, last updated ${new Date(record.updatedAt).toLocaleString()}${acceptance}`}>
+			<span className={`codicon ${icon}`} style={{ fontSize: "12px" }} />
+			{label}
+		</span>
+	)
+}
+
+interface HaiStoryProgressBadgeProps {
+	storyId: string
+	tasks: IHaiTask[]
+	style?: React.CSSProperties
+}
+
+export const HaiStoryProgressBadge: React.FC<HaiStoryProgressBadgeProps> = ({ storyId, tasks, style }) => {
+	const { haiTaskStatuses, haiConfig } = useExtensionState()
+	if (!haiConfig?.folder || tasks.length === 0) {
+		return null
+	}
+
+	const { total, completed, inProgress, failed } = getHaiStoryProgress(
+		haiTaskStatuses,
+		haiConfig.folder,
+		removeHighlighting(storyId),
+		tasks.map((task) => ({ id: removeHighlighting(task.id) })),
+	)
+	return (
+		<span
+			style={{
+				...badgeStyle,
+				color: completed === total ? badgeStyles.completed.color : "var(--vscode-badge-foreground)",
+				...style,
+			}}
+			title={`${completed} completed, ${inProgress} in progress, ${failed} failed, ${total - completed - inProgress - failed} not started`}>
+			<span className="codicon codicon-checklist" style={{ fontSize: "12px" }} />
+			{completed}/{total}
+		</span>
+	)
+}
+
+const changeBadgeStyles: Record<"added" | "changed", { label: string; title: string; color: string }> = {
+	added: {
+		label: "New",
+		title: "Added since the last load of the task files",
+		color: "var(--vscode-gitDecoration-addedResourceForeground)",
+	},
+	changed: {
+		label: "Changed",
+		title: "Changed since the last load of the task files",
+		color: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+	},
+}
+
+interface HaiTaskChangeBadgeProps {
+	change?: "added" | "changed"
+	style?: React.CSSProperties
+}
+
+export const HaiTaskChangeBadge: React.FC<HaiTaskChangeBadgeProps> = ({ change, style }) => {
+	if (!change) {
+		return null
+	}
+
+	const { label, title, color } = changeBadgeStyles[change]
+	return (
+		<span style={{ ...badgeStyle, color, ...style }} title={title}>
+			{label}
+		</span>
+	)
+}
+
+/**
+ * Dependencies of the task that are not completed yet, ids without the story.
+ */
+export function useHaiTaskBlockers(storyId: string, task: IHaiTask): string[] {
+	const { haiTaskStatuses, haiConfig } = useExtensionState()
+	const folder = haiConfig?.folder
+	if (!folder) {
+		return []
+	}
+	return getIncompleteHaiTaskDependencies(
+		{ id: removeHighlighting(task.id), dependsOn: task.dependsOn },
+		(taskId) => getHaiTaskStatus(haiTaskStatuses, { folder, taskId: getHaiTaskId(storyId, taskId) }) === "completed",
+	)
+}
+
+interface HaiTaskDependencyBadgeProps {
+	storyId: string
+	task: IHaiTask
+	style?: React.CSSProperties
+}
+
+export const HaiTaskDependencyBadge: React.FC<HaiTaskDependencyBadgeProps> = ({ storyId, task, style }) => {
+	const { haiTaskStatuses, haiConfig } = useExtensionState()
+	const blockers = useHaiTaskBlockers(storyId, task)
+	const status = haiConfig?.folder
+		? getHaiTaskStatus(haiTaskStatuses, {
+				folder: haiConfig.folder,
+				taskId: getHaiTaskId(storyId, removeHighlighting(task.id)),
+			})
+		: "not-started"
+	if (!task.dependsOn?.length || status !== "not-started") {
+		return null
+	}
+
+	return blockers.length > 0 ? (
+		<span
+			style={{ ...badgeStyle, color: "var(--vscode-editorWarning-foreground)", ...style }}
+			title={`Waiting for ${blockers.join(", ")} to complete`}>
+			<span className="codicon codicon-lock" style={{ fontSize: "12px" }} />
+			Blocked
+		</span>
+	) : (
+		<span
+			style={{ ...badgeStyle, color: "var(--vscode-badge-foreground)", ...style }}
+			title={`${task.dependsOn.join(", ")} completed`}>
+			<span className="codicon codicon-unlock" style={{ fontSize: "12px" }} />
+			Ready
+		</span>
+	)
+}
@@ -5,13 +5,19 @@ import { useMemo, useState } from "react"
 import { v4 as uuidv4 } from "uuid"
 import Fuse from "fuse.js"
 import { addHighlighting } from "../../utils/add-highlighting"
+import { vscode } from "../../utils/vscode"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { HaiTaskChanges, HaiTaskSourceError } from "../../../../src/shared/customApi"
 
-type SearchableTaskFields = keyof IHaiTask
+type SearchableTaskFields = Exclude<keyof IHaiTask, "dependsOn">
 const TASK_PREFIX = "tasks."
 
 export function HaiTasksList({
 	haiTaskList,
 	haiTaskLastUpdatedTs,
+	haiTaskSourceErrors = [],
+	haiTaskChanges,
+	haiTaskSource,
 	selectedHaiTask,
 	onCancel,
 	onConfigure,
@@ -21,6 +27,9 @@ export function HaiTasksList({
 }: {
 	haiTaskList: IHaiStory[]
 	haiTaskLastUpdatedTs?: string
+	haiTaskSourceErrors?: HaiTaskSourceError[]
+	haiTaskChanges?: HaiTaskChanges
+	haiTaskSource?: string
 	selectedHaiTask: (task: IHaiClineTask) => void
 	onCancel: () => void
 	onConfigure: (loadDefault: boolean) => void
@@ -28,6 +37,7 @@ export function HaiTasksList({
 	onTaskClick: (task: IHaiTask) => void
 	onStoryClick: (story: IHaiStory) => void
 }) {
+	const { haiConfig } = useExtensionState()
 	const [searchQuery, setSearchQuery] = useState("")
 	const [isAllExpanded, setIsAllExpanded] = useState(true)
 	const handleFoldUnfold = (expand: boolean) => {
@@ -145,6 +155,7 @@ export function HaiTasksList({
 											marginTop: "5px",
 										}}>
 										{haiTaskLastUpdatedTs}
+										{haiTaskSource && ` • from ${haiTaskSource}`}
 									</div>
 								)}
 							</div>
@@ -154,6 +165,15 @@ export function HaiTasksList({
 										<VSCodeButton appearance="icon" onClick={() => onConfigure(true)} title="Refresh">
 											<span className="codicon codicon-refresh"></span>
 										</VSCodeButton>
+										<VSCodeButton
+											appearance="icon"
+											disabled={!haiConfig?.folder}
+											onClick={() =>
+												vscode.postMessage({ type: "exportHaiStoryReport", text: haiConfig?.folder })
+											}
+											title="Export Progress Report">
+											<span className="codicon codicon-export"></span>
+										</VSCodeButton>
 										<VSCodeButton appearance="icon" onClick={() => handleFoldUnfold(true)} title="Expand All">
 											<span className="codicon codicon-unfold"></span>
 										</VSCodeButton>
@@ -201,6 +221,41 @@ export function HaiTasksList({
 							</VSCodeTextField>
 						</div>
 					</div>
+					{haiTaskSourceErrors.length > 0 && (
+						<details
+							style={{
+								margin: "8px",
+								padding: "6px 8px",
+								fontSize: "12px",
+								border: "1px solid var(--vscode-inputValidation-warningBorder)",
+								backgroundColor: "var(--vscode-inputValidation-warningBackground)",
+							}}>
+							<summary style={{ cursor: "pointer" }}>
+								<span className="codicon codicon-warning" style={{ fontSize: "12px", marginRight: "4px" }} />
+								{haiTaskSourceErrors.length} problem(s) found while reading the task files
+							</summary>
+							<ul style={{ margin: "6px 0 0", paddingLeft: "18px" }}>
+								{haiTaskSourceErrors.map(({ file, message }, index) => (
+									<li key={index} style={{ wordBreak: "break-word" }}>
+										<strong>{file}</strong>: {message}
+									</li>
+								))}
+							</ul>
+						</details>
+					)}
+					{haiTaskChanges && haiTaskChanges.removed.length > 0 && (
+						<div
+							style={{
+								margin: "8px",
+								padding: "6px 8px",
+								fontSize: "12px",
+								color: "var(--vscode-descriptionForeground)",
+								border: "1px solid var(--vscode-panel-border)",
+							}}>
+							<span className="codicon codicon-diff-removed" style={{ fontSize: "12px", marginRight: "4px" }} />
+							Removed since the last load: {haiTaskChanges.removed.join(", ")}
+						</div>
+					)}
 					{taskSearchResults.length > 0 ? (
 						taskSearchResults.map((story) => (
 							<HaiStoryAccordion
@@ -214,6 +269,7 @@ export function HaiTasksList({
 								onTaskClick={onTaskClick}
 								onStoryClick={onStoryClick}
 								isAllExpanded={isAllExpanded}
+								taskChanges={haiTaskChanges}
 							/>
 						))
 					) : (
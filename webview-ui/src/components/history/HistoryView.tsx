@@ -7,6 +7,7 @@ import Fuse, { FuseResult } from "fuse.js"
 import { formatLargeNumber } from "../../utils/format"
 import { formatSize } from "../../utils/size"
 import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
+import { HistoryItemExpert } from "../../../../src/shared/HistoryItem"
 import { useEvent } from "react-use"
 import DangerButton from "../common/DangerButton"
 
@@ -311,6 +312,24 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 											__html: item.task,
 										}}
 									/>
+									{item.experts?.length ? (
+										<div
+											title="Experts used by the task, with the version of their prompt"
+											style={{
+												display: "flex",
+												alignItems: "center",
+												gap: "4px",
+												fontSize: "11px",
+												color: "var(--vscode-descriptionForeground)",
+											}}>
+											<span className="codicon codicon-person"></span>
+											{item.experts
+												.map((expert: HistoryItemExpert) =>
+													expert.version ? `${expert.name} v${expert.version}` : expert.name,
+												)
+												.join(" → ")}
+										</div>
+									) : null}
 									<div
 										style={{
 											display: "flex",
@@ -6,7 +6,7 @@ import { useExtensionState } from "../../context/ExtensionStateContext"
 import { vscode } from "../../utils/vscode"
 import { HaiBuildIndexProgress } from "../../../../src/shared/customApi"
 
-const haiSystemPromptVersions = [
+export const haiSystemPromptVersions = [
 	{
 		version: "v1",
 		label: "Optimized v1",
@@ -29,6 +29,38 @@ const haiSystemPromptVersions = [
 	},
 ]
 
+const codeIndexVectorStores = [
+	{
+		value: "auto",
+		label: "Auto",
+		description: "Use FAISS when its native binaries are available, otherwise the built-in store.",
+	},
+	{
+		value: "faiss",
+		label: "FAISS",
+		description: "Native FAISS index, downloads platform binaries on first use.",
+	},
+	{
+		value: "builtin",
+		label: "Built-in",
+		description: "Pure TypeScript index, no native downloads. Works on air-gapped machines.",
+	},
+]
+
+const codeContextModes = [
+	{
+		value: "comments",
+		label: "Commented Files",
+		description: "Rewrites every file with comments in the .hai folder.",
+	},
+	{
+		value: "summary",
+		label: "Summaries",
+		description:
+			"Short file, directory and repository summaries. Cheaper, and the repository summary is shared with new tasks.",
+	},
+]
+
 type IndexingProgressProps = {
 	buildContextOptions?: HaiBuildContextOptions
 }
@@ -240,6 +272,41 @@ const SettingsViewExtra = ({
 				</p>
 			</div>
 
+			{buildContextOptions?.useContext && (
+				<div className="dropdown-container" style={{ marginBottom: 5 }}>
+					<label htmlFor="code-context-mode">
+						<span style={{ fontWeight: 500 }}>Code Context Mode</span>
+					</label>
+					<VSCodeDropdown
+						id="code-context-mode"
+						value={buildContextOptions?.contextMode || "comments"}
+						disabled={!vscodeWorkspacePath || !buildContextOptions?.useIndex || buildIndexProgress?.isInProgress}
+						onChange={(event: any) => {
+							setBuildContextOptions({
+								...buildContextOptions!,
+								contextMode: event.target?.value,
+							})
+						}}
+						style={{ minWidth: 130, position: "relative", width: "100%", marginBottom: "8px", marginTop: "8px" }}>
+						{codeContextModes.map((contextMode) => {
+							return (
+								<VSCodeOption key={contextMode.value} value={contextMode.value}>
+									<div>{contextMode.label} </div>
+									<div
+										style={{
+											fontSize: "10px",
+											marginTop: "2px",
+											color: "var(--vscode-descriptionForeground)",
+										}}>
+										{contextMode.description}
+									</div>
+								</VSCodeOption>
+							)
+						})}
+					</VSCodeDropdown>
+				</div>
+			)}
+
 			<div style={{ marginBottom: 5 }}>
 				<VSCodeTextArea
 					value={buildContextOptions?.appContext ?? ""}
@@ -265,6 +332,39 @@ const SettingsViewExtra = ({
 				</p>
 			</div>
 
+			<div className="dropdown-container" style={{ marginBottom: 5 }}>
+				<label htmlFor="code-index-vector-store">
+					<span style={{ fontWeight: 500 }}>Vector Store</span>
+				</label>
+				<VSCodeDropdown
+					id="code-index-vector-store"
+					value={buildContextOptions?.vectorStore || "auto"}
+					disabled={!vscodeWorkspacePath || !buildContextOptions?.useIndex || buildIndexProgress?.isInProgress}
+					onChange={(event: any) => {
+						setBuildContextOptions({
+							...buildContextOptions!,
+							vectorStore: event.target?.value,
+						})
+					}}
+					style={{ minWidth: 130, position: "relative", width: "100%", marginBottom: "8px", marginTop: "8px" }}>
+					{codeIndexVectorStores.map((vectorStore) => {
+						return (
+							<VSCodeOption key={vectorStore.value} value={vectorStore.value}>
+								<div>{vectorStore.label} </div>
+								<div
+									style={{
+										fontSize: "10px",
+										marginTop: "2px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									{vectorStore.description}
+								</div>
+							</VSCodeOption>
+						)
+					})}
+				</VSCodeDropdown>
+			</div>
+
 			<div style={{ marginBottom: 5 }}>
 				<VSCodeTextArea
 					value={buildContextOptions?.excludeFolders ?? ""}
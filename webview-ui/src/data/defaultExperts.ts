@@ -16,24 +16,28 @@ export const DEFAULT_EXPERTS: ExpertData[] = [
 		name: ".NET",
 		prompt: DOTNET_EXPERT_PROMPT,
 		isDefault: true,
+		tags: ["dotnet", ".net", "c#", "csharp", "asp.net", "nuget", "blazor"],
 		iconComponent: DotNetIconComponent,
 	},
 	{
 		name: "Terraform",
 		prompt: TERRAFORM_EXPERT_PROMPT,
 		isDefault: true,
+		tags: ["terraform", "hcl", "iac"],
 		iconComponent: TerraformIconComponent,
 	},
 	{
 		name: "Node.js",
 		prompt: NODEJS_EXPERT_PROMPT,
 		isDefault: true,
+		tags: ["node", "nodejs", "node.js", "javascript", "typescript", "npm", "express", "nestjs"],
 		iconComponent: NodeJsIconComponent,
 	},
 	{
 		name: "Go",
 		prompt: GOLANG_EXPERT_PROMPT,
 		isDefault: true,
+		tags: ["golang", "goroutine", "go.mod"],
 		iconComponent: GoIconComponent,
 	},
 ]
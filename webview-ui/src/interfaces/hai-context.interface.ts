@@ -7,4 +7,6 @@ export type HaiBuildContextOptions = {
 	useSecretScanning: boolean
 	secretFilesPatternToIgnore?: string[]
 	systemPromptVersion?: string
+	vectorStore?: "auto" | "faiss" | "builtin"
+	contextMode?: "comments" | "summary"
 }
@@ -3,6 +3,7 @@ export interface IHaiTask {
 	acceptance: string
 	id: string
 	subTaskTicketId?: string
+	dependsOn?: string[]
 }
 
 export interface IHaiClineTask extends IHaiTask {
@@ -1,5 +1,37 @@
 import React from "react"
 import { z } from "zod"
+import { ExpertProfile, ExpertVersion } from "../../../src/shared/customApi"
+
+export type { ExpertAutoApprovalSettings, ExpertProfile } from "../../../src/shared/customApi"
+
+// Where a custom expert is stored, in order of precedence: workspace experts hide team and global experts with the same name
+export const EXPERT_SCOPES = ["workspace", "team", "global"] as const
+export type ExpertScope = (typeof EXPERT_SCOPES)[number]
+
+// Stored in the metadata.json file of the expert
+export const ExpertProfileSchema = z.object({
+	allowedTools: z.array(z.string()).optional(), // Only these tools can be used, all tools when empty
+	forbiddenTools: z.array(z.string()).optional(), // Take precedence over the allowed tools
+	apiProvider: z.string().optional(),
+	apiModelId: z.string().optional(), // Model of the API provider, the provider of the user settings when not set
+	systemPromptVersion: z.string().optional(),
+	autoApprovalSettings: z
+		.object({
+			enabled: z.boolean().optional(),
+			actions: z
+				.object({
+					readFiles: z.boolean().optional(),
+					editFiles: z.boolean().optional(),
+					executeCommands: z.boolean().optional(),
+					useBrowser: z.boolean().optional(),
+					useMcp: z.boolean().optional(),
+				})
+				.optional(),
+			maxRequests: z.number().int().positive().optional(),
+			enableNotifications: z.boolean().optional(),
+		})
+		.optional(),
+})
 
 // Define the Zod schema for ExpertData
 export const ExpertDataSchema = z.object({
@@ -10,6 +42,11 @@ export const ExpertDataSchema = z.object({
 	fileUpload: z.boolean().optional(),
 	filePath: z.string().optional(),
 	iconPath: z.string().optional(),
+	documents: z.array(z.string()).optional(), // Reference documents, relative to the docs folder of the expert
+	scope: z.enum(EXPERT_SCOPES).optional(), // Custom experts only, defaults to workspace
+	profile: ExpertProfileSchema.optional(), // Custom experts only
+	tags: z.array(z.string()).optional(), // Lowercase keywords used to suggest the expert, e.g. "react" or "terraform"
+	versions: z.array(z.object({ version: z.number(), createdAt: z.number(), hash: z.string() })).optional(), // Prompt versions, the oldest first
 	// For iconComponent, we'll use unknown type and cast it since Zod doesn't directly validate React component types
 	iconComponent: z.unknown().optional(),
 })
@@ -26,5 +63,10 @@ export interface ExpertData {
 	fileUpload?: boolean
 	filePath?: string
 	iconPath?: string
+	documents?: string[] // Reference documents, relative to the docs folder of the expert
+	scope?: ExpertScope // Custom experts only, defaults to workspace
+	profile?: ExpertProfile // Custom experts only
+	tags?: string[] // Lowercase keywords used to suggest the expert, e.g. "react" or "terraform"
+	versions?: ExpertVersion[] // Prompt versions, the oldest first
 	iconComponent?: React.ComponentType<React.SVGProps<SVGSVGElement>>
 }
@@ -17,3 +17,7 @@ export function addHighlighting(text: string, indices: readonly [number, number]
 	result += text.slice(lastIndex)
 	return result
 }
+
+export function removeHighlighting(text: string): string {
+	return text.replace(/<span class="hai-task-highlight">(.*?)<\/span>/g, "$1")
+}